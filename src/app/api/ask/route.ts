@@ -1,89 +1,119 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { Valyu } from "valyu-js";
-
-// Check if we have API keys
-const hasValyuKey = !!process.env.VALYU_API_KEY;
-const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
-
-// Initialize clients if keys exist
-const anthropic = hasAnthropicKey
-  ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
-  : null;
-
-const valyu = hasValyuKey
-  ? new Valyu(process.env.VALYU_API_KEY!)
-  : null;
-
-// Search for additional context using Valyu SDK
-async function searchForContext(question: string): Promise<string> {
-  if (!valyu) return "";
-
-  try {
-    const response = await valyu.search(question, {
-      maxNumResults: 3,
-      maxPrice: 20,
-      relevanceThreshold: 0.4,
-    });
-
-    const results = response.results || [];
-
-    return results
-      .map((r) => {
-        const content = typeof r.content === 'string' ? r.content : JSON.stringify(r.content);
-        return `${r.title}: ${content?.slice(0, 500)}`;
-      })
-      .join("\n\n");
-  } catch (err) {
-    console.error("Valyu search error:", err);
-    return "";
-  }
+import { cachedCompletion, cachedStream, type CacheStatus } from "@/lib/cache";
+import { singleChunk, withFallback, withPrefix, streamTextResponse } from "@/lib/streaming";
+import { complete, hasModel, searchSources, streamText, type PriorTurn } from "@/lib/ai";
+import {
+  citationsPreamble,
+  parseCitedText,
+  removeInvalidMarkers,
+  toCitations,
+  withCitations,
+} from "@/lib/citations";
+import type { Citation } from "@/types";
+
+const MAX_PRIOR_TURNS = 6;
+
+// Keep the last few well-formed turns; markers are dropped since their sources aren't resent.
+// Empty turns are dropped too - the Messages API rejects empty messages.
+function parseHistory(value: unknown): PriorTurn[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((t): t is PriorTurn => typeof t?.question === "string" && typeof t?.answer === "string")
+    .map((t) => ({ question: t.question.trim(), answer: t.answer.replace(/\s*\[\d+\]/g, "").trim().slice(0, 2000) }))
+    .filter((t) => t.question && t.answer)
+    .slice(-MAX_PRIOR_TURNS);
+}
+
+// A bare follow-up ("why?") searches poorly on its own, so the last question comes along
+function searchQueryFor(question: string, selectedText?: string, history: PriorTurn[] = []): string {
+  return [selectedText, history[history.length - 1]?.question, question].filter(Boolean).join(" ");
+}
+
+// Search results are numbered for citing
+function searchForContext(question: string, selectedText?: string, history: PriorTurn[] = []) {
+  return searchSources(searchQueryFor(question, selectedText, history), { maxResults: 3, contentLength: 500 });
+}
+
+// Answer a question with Claude, grounded in topic context and fresh search results.
+// Citations ride in a preamble so they're cached with the answer.
+async function answerWithClaude(
+  question: string,
+  topicContext?: string,
+  selectedText?: string,
+  history: PriorTurn[] = []
+): Promise<string> {
+  const sources = await searchForContext(question, selectedText, history);
+  const text = await complete("ask", { question, topicContext, selectedText, sources, history });
+  const citations = toCitations(sources);
+  return withCitations(removeInvalidMarkers(text, citations), citations);
+}
+
+// Same as answerWithClaude, but yields text as it's generated
+async function* streamAnswer(
+  question: string,
+  topicContext?: string,
+  selectedText?: string,
+  history: PriorTurn[] = [],
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const sources = await searchForContext(question, selectedText, history);
+  const chunks = streamText("ask", { question, topicContext, selectedText, sources, history }, { signal });
+  yield* withPrefix(chunks, citationsPreamble(toCitations(sources)));
+}
+
+function fallbackAnswer(question: string, selectedText?: string): string {
+  return `Great question! To provide accurate answers to "${question}"${selectedText ? ` about "${selectedText}"` : ""}, please add your API keys to \`.env.local\`:
+
+\`\`\`
+ANTHROPIC_API_KEY=your_key
+VALYU_API_KEY=your_key
+\`\`\`
+
+With these connected, Vibescroll will search for relevant information and generate comprehensive answers grounded in real data.`;
 }
 
 export async function POST(request: NextRequest) {
   const body = await request.json();
-  const { question, topicContext, selectedText } = body;
+  const { question, topicContext, selectedText, stream } = body;
+  const history = parseHistory(body.history);
 
-  if (!question) {
+  if (typeof question !== "string" || !question.trim()) {
     return NextResponse.json({ error: "Missing question" }, { status: 400 });
   }
 
-  let answer: string;
+  console.log("Ask API:", { question: question.slice(0, 50), turns: history.length, stream: !!stream });
 
-  if (hasAnthropicKey) {
-    // Search for additional context if needed
-    let searchContext = "";
-    const searchQuery = selectedText ? `${selectedText} ${question}` : question;
-    if (hasValyuKey) {
-      searchContext = await searchForContext(searchQuery);
-    }
+  // Follow-ups are keyed by the whole thread, so "why?" isn't answered from another conversation
+  const threadKey = [...history.map((t) => `${t.question}\n${t.answer}`), question].join("\n---\n");
+  const cacheKey = { route: "ask", topic: topicContext, concept: selectedText, question: threadKey };
 
-    try {
-      const response = await anthropic!.messages.create({
-        model: "claude-3-5-haiku-20241022",
-        max_tokens: 800,
-        messages: [
-          {
-            role: "user",
-            content: `Answer this question based on the provided context.
-
-Question: ${question}
-${selectedText ? `\nThe user is asking specifically about this text: "${selectedText}"` : ""}
-
-${topicContext ? `Topic context:\n${topicContext}` : ""}
-${searchContext ? `Additional research:\n${searchContext}` : ""}
-
-Provide a clear, direct answer. If information is uncertain, acknowledge it. Be helpful and informative.`,
-          },
-        ],
-      });
-
-      const textContent = response.content.find((c) => c.type === "text");
-      answer = textContent && textContent.type === "text" ? textContent.text : "";
-    } catch (error) {
-      console.error("Claude ask error:", error);
-      answer = "";
+  // Streaming: send tokens as they arrive (text/plain, chunked)
+  if (stream) {
+    if (!hasModel()) {
+      await new Promise((resolve) => setTimeout(resolve, 800));
+      return streamTextResponse(singleChunk(fallbackAnswer(question, selectedText)), { "X-Cache": "off" });
     }
+
+    const result = await cachedStream(cacheKey, () =>
+      streamAnswer(question, topicContext, selectedText, history, request.signal)
+    );
+    console.log(`Ask stream cache: ${result.cache}`);
+    return streamTextResponse(
+      withFallback(result.chunks, fallbackAnswer(question, selectedText)),
+      { "X-Cache": result.cache }
+    );
+  }
+
+  let answer: string;
+  let citations: Citation[] = [];
+  let cache: CacheStatus = "off";
+
+  if (hasModel()) {
+    const result = await cachedCompletion(cacheKey, () =>
+      answerWithClaude(question, topicContext, selectedText, history)
+    );
+    ({ text: answer, citations } = parseCitedText(result.value));
+    cache = result.cache;
   } else {
     answer = "";
   }
@@ -91,15 +121,8 @@ Provide a clear, direct answer. If information is uncertain, acknowledge it. Be
   // Fallback
   if (!answer) {
     await new Promise((resolve) => setTimeout(resolve, 800));
-    answer = `Great question! To provide accurate answers to "${question}"${selectedText ? ` about "${selectedText}"` : ""}, please add your API keys to \`.env.local\`:
-
-\`\`\`
-ANTHROPIC_API_KEY=your_key
-VALYU_API_KEY=your_key
-\`\`\`
-
-With these connected, Vibescroll will search for relevant information and generate comprehensive answers grounded in real data.`;
+    answer = fallbackAnswer(question, selectedText);
   }
 
-  return NextResponse.json({ answer });
+  return NextResponse.json({ answer, citations, cache }, { headers: { "X-Cache": cache } });
 }
@@ -1,92 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { Valyu } from "valyu-js";
-
-// Check if we have API keys
-const hasValyuKey = !!process.env.VALYU_API_KEY;
-const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
-
-// Log API key status on startup (without revealing the keys)
-console.log("API Keys status:", {
-  hasValyuKey,
-  hasAnthropicKey,
-  valuKeyLength: process.env.VALYU_API_KEY?.length || 0,
-  anthropicKeyLength: process.env.ANTHROPIC_API_KEY?.length || 0,
-});
-
-// Initialize clients if keys exist
-const anthropic = hasAnthropicKey
-  ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
-  : null;
-
-const valyu = hasValyuKey
-  ? new Valyu(process.env.VALYU_API_KEY!)
-  : null;
-
-// Search Valyu for more context using official SDK
-async function searchValyu(query: string): Promise<string> {
-  if (!valyu) return "";
-
-  try {
-    const response = await valyu.search(`${query} detailed analysis background context`, {
-      maxNumResults: 5,
-      maxPrice: 20,
-      relevanceThreshold: 0.4,
-    });
-
-    const results = response.results || [];
-
-    return results
-      .slice(0, 3)
-      .map((r) => {
-        const content = typeof r.content === 'string' ? r.content : JSON.stringify(r.content);
-        return `${r.title}: ${content?.slice(0, 800)}`;
-      })
-      .join("\n\n");
-  } catch (err) {
-    console.error("Valyu search error:", err);
-    return "";
-  }
+import { cachedCompletion, cachedStream, type CacheStatus } from "@/lib/cache";
+import { singleChunk, withFallback, withPrefix, streamTextResponse } from "@/lib/streaming";
+import { getClients } from "@/lib/clients";
+import { complete, hasModel, searchSources, streamText } from "@/lib/ai";
+import {
+  citationsPreamble,
+  parseCitedText,
+  removeInvalidMarkers,
+  toCitations,
+  withCitations,
+  type CitedSource,
+} from "@/lib/citations";
+import type { Citation } from "@/types";
+
+// Search Valyu for more context; results are numbered for citing
+function searchValyu(query: string): Promise<CitedSource[]> {
+  return searchSources(`${query} detailed analysis background context`, { maxResults: 5, max: 3 });
 }
 
-// Generate expanded content with Claude
+// Generate expanded content with Claude; citations ride in a preamble
 async function expandWithClaude(
   title: string,
   originalContent: string,
-  additionalContext: string
+  sources: CitedSource[]
 ): Promise<string> {
-  if (!anthropic) return "";
-
-  try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-5-haiku-20241022",
-      max_tokens: 1500,
-      messages: [
-        {
-          role: "user",
-          content: `Expand on this topic with more depth, context, and analysis.
-
-Topic: ${title}
-Original content: ${originalContent}
-${additionalContext ? `Additional research:\n${additionalContext}` : ""}
-
-Provide a comprehensive expansion (3-4 paragraphs) that:
-- Adds depth and nuance to the original
-- Includes relevant background and context
-- Explains implications and significance
-- Remains engaging and accessible
-
-Write directly, no preamble. Use **bold** for key terms.`,
-        },
-      ],
-    });
-
-    const textContent = response.content.find((c) => c.type === "text");
-    return textContent && textContent.type === "text" ? textContent.text : "";
-  } catch (error) {
-    console.error("Claude expand error:", error);
-    return "";
-  }
+  const text = await complete("expand", { title, content: originalContent, sources });
+  const citations = toCitations(sources);
+  return withCitations(removeInvalidMarkers(text, citations), citations);
+}
+
+// Same as expandWithClaude, but yields text as it's generated
+async function* streamExpansion(
+  title: string,
+  originalContent: string,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const sources = await searchValyu(title);
+  const chunks = streamText("expand", { title, content: originalContent, sources }, { signal });
+  yield* withPrefix(chunks, citationsPreamble(toCitations(sources)));
 }
 
 // Mock expanded content
@@ -116,21 +67,50 @@ export async function GET(request: NextRequest) {
   // Accept topic data directly via query params (URL encoded)
   const topicTitle = searchParams.get("title");
   const topicContent = searchParams.get("content");
+  // Stream tokens as text/plain instead of returning JSON
+  const stream = searchParams.get("stream") === "true";
 
   if (!topicId) {
     return NextResponse.json({ error: "Missing topicId" }, { status: 400 });
   }
 
-  console.log("Expand GET request:", { topicId, hasTitle: !!topicTitle, hasContent: !!topicContent });
+  console.log("Expand GET request:", { topicId, hasTitle: !!topicTitle, hasContent: !!topicContent, stream });
+
+  const mockContent = mockExpansions[topicId] || "Additional context is being gathered for this topic.";
+  const { anthropic, valyu } = getClients();
+  const hasClients = !!anthropic && !!valyu;
+
+  if (stream) {
+    if (hasClients && topicTitle && topicContent) {
+      const result = await cachedStream(
+        { route: "expand", topic: `${topicTitle}\n${topicContent}` },
+        () => streamExpansion(topicTitle, topicContent, request.signal)
+      );
+      console.log(`Expand GET stream cache: ${result.cache}`);
+      return streamTextResponse(withFallback(result.chunks, mockContent), { "X-Cache": result.cache });
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    return streamTextResponse(singleChunk(mockContent), { "X-Cache": "off" });
+  }
 
   let content: string = "";
+  let citations: Citation[] = [];
+  let cache: CacheStatus = "off";
 
-  if (hasValyuKey && hasAnthropicKey && topicTitle && topicContent) {
-    // Use real APIs with provided topic data
+  if (hasClients && topicTitle && topicContent) {
+    // Use real APIs with provided topic data (cached across users by title + content)
     console.log("Using real APIs for expansion");
     try {
-      const additionalContext = await searchValyu(topicTitle);
-      content = await expandWithClaude(topicTitle, topicContent, additionalContext);
+      const result = await cachedCompletion(
+        { route: "expand", topic: `${topicTitle}\n${topicContent}` },
+        async () => {
+          const sources = await searchValyu(topicTitle);
+          return expandWithClaude(topicTitle, topicContent, sources);
+        }
+      );
+      ({ text: content, citations } = parseCitedText(result.value));
+      cache = result.cache;
     } catch (error) {
       console.error("Error in expand:", error);
     }
@@ -140,7 +120,7 @@ export async function GET(request: NextRequest) {
       console.log("API call failed, falling back to mock");
       content = mockExpansions[topicId] || "Additional context is being gathered...";
     }
-  } else if (!hasValyuKey || !hasAnthropicKey) {
+  } else if (!hasClients) {
     // Use mock data - no API keys
     console.log("No API keys, using mock data");
     await new Promise((resolve) => setTimeout(resolve, 300));
@@ -151,7 +131,8 @@ export async function GET(request: NextRequest) {
     content = mockExpansions[topicId] || "Additional context is being gathered for this topic.";
   }
 
-  return NextResponse.json({ content });
+  console.log(`Expand GET cache: ${cache}`);
+  return NextResponse.json({ content, citations, cache }, { headers: { "X-Cache": cache } });
 }
 
 export async function POST(request: NextRequest) {
@@ -168,34 +149,19 @@ export async function POST(request: NextRequest) {
   console.log("Expand POST request:", { topicId, highlightText, hasContent: !!topicContent });
 
   let content: string = "";
+  let cache: CacheStatus = "off";
 
-  if (hasAnthropicKey) {
+  if (hasModel()) {
     // Generate detail with Claude - use provided topicContent
     const context = topicContent || "";
 
-    try {
-      console.log("Using Claude for highlight explanation");
-      const response = await anthropic!.messages.create({
-        model: "claude-3-5-haiku-20241022",
-        max_tokens: 600,
-        messages: [
-          {
-            role: "user",
-            content: `Explain this specific aspect: "${highlightText}"
-
-${context ? `Context it appeared in: ${context}` : ""}
-
-Provide a focused explanation in 2-3 paragraphs. Be informative and engaging.`,
-          },
-        ],
-      });
-
-      const textContent = response.content.find((c) => c.type === "text");
-      content = textContent && textContent.type === "text" ? textContent.text : "";
-    } catch (error) {
-      console.error("Claude highlight error:", error);
-      content = "";
-    }
+    console.log("Using Claude for highlight explanation");
+    const result = await cachedCompletion(
+      { route: "expand-highlight", topic: context, concept: highlightText },
+      () => complete("explain-highlight", { highlight: highlightText, context })
+    );
+    content = result.value;
+    cache = result.cache;
   } else {
     console.log("No Anthropic key for highlight expansion");
   }
@@ -206,5 +172,5 @@ Provide a focused explanation in 2-3 paragraphs. Be informative and engaging.`,
     content = `This aspect involves ${highlightText}. More detailed information would be generated with API keys connected.`;
   }
 
-  return NextResponse.json({ content });
+  return NextResponse.json({ content, cache }, { headers: { "X-Cache": cache } });
 }
@@ -1,43 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { Valyu } from "valyu-js";
-
-// Check if we have API keys
-const hasValyuKey = !!process.env.VALYU_API_KEY;
-const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
-
-// Log API key status
-console.log("Explore API - Keys status:", {
-  hasValyuKey,
-  hasAnthropicKey,
-});
-
-// Initialize clients if keys exist
-const anthropic = hasAnthropicKey
-  ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
-  : null;
-
-const valyu = hasValyuKey
-  ? new Valyu(process.env.VALYU_API_KEY!)
-  : null;
-
-// Valyu search function using official SDK
-async function searchValyu(query: string, maxResults: number = 5) {
-  if (!valyu) return null;
-
-  try {
-    const response = await valyu.search(query, {
-      maxNumResults: maxResults,
-      maxPrice: 20,
-      relevanceThreshold: 0.4,
-    });
-
-    return response.results || [];
-  } catch (err) {
-    console.error("Valyu search error:", err);
-    return null;
-  }
-}
+import { cachedCompletion, cachedStream, type CacheStatus } from "@/lib/cache";
+import { singleChunk, withFallback, withPrefix, streamTextResponse } from "@/lib/streaming";
+import { getClients } from "@/lib/clients";
+import { complete, hasModel, searchSources, streamText } from "@/lib/ai";
+import {
+  citationsPreamble,
+  parseCitedText,
+  removeInvalidMarkers,
+  toCitations,
+  withCitations,
+  type CitedSource,
+} from "@/lib/citations";
+import type { Citation } from "@/types";
 
 // Determine if we should search or just use Claude
 function shouldSearch(concept: string): boolean {
@@ -61,69 +35,42 @@ function shouldSearch(concept: string): boolean {
   return searchIndicators.some((pattern) => pattern.test(concept));
 }
 
-// Generate explanation with Claude
+// Search Valyu when the concept warrants it; results are numbered for citing
+async function gatherSearchContext(concept: string, question?: string): Promise<CitedSource[]> {
+  // Always search if there's a question
+  const needsSearch = question || shouldSearch(concept);
+  if (!getClients().valyu || !needsSearch) return [];
+
+  const searchQuery = question 
+    ? `${concept} ${question}`
+    : `${concept} explanation overview`;
+  return searchSources(searchQuery, { maxResults: 5, max: 3, contentLength: 500 });
+}
+
+// Generate explanation with Claude (empty string on failure); citations ride in a preamble
 async function explainWithClaude(
   concept: string,
   context?: string,
-  searchResults?: string,
-  question?: string
+  sources: CitedSource[] = [],
+  question?: string,
+  path: string[] = []
 ): Promise<string> {
-  if (!anthropic) {
-    return getFallbackExplanation(concept, question);
-  }
-
-  const isQuestion = !!question;
-  
-  const systemPrompt = isQuestion 
-    ? `You are an expert who answers questions clearly and thoroughly.
-Your answers should be:
-- Direct and informative
-- Well-structured with clear sections
-- Include practical examples when helpful
-- About 300-500 words
-
-Format with markdown: use **bold** for key terms, bullet points for lists.`
-    : `You are an expert educator who explains concepts clearly and engagingly. 
-Your explanations should be:
-- Informative but accessible
-- Well-structured with clear sections
-- Include practical examples when helpful
-- About 300-500 words
-
-Format with markdown: use **bold** for key terms, bullet points for lists.`;
-
-  let userPrompt = isQuestion
-    ? `The user selected this text: "${concept}"\n\nTheir question about it: "${question}"`
-    : `Explain the concept: "${concept}"`;
-
-  if (context) {
-    userPrompt += `\n\nThis appeared in the context of: ${context.slice(0, 500)}`;
-  }
-
-  if (searchResults) {
-    userPrompt += `\n\nHere is recent information to incorporate:\n${searchResults}`;
-  }
-
-  userPrompt += isQuestion
-    ? `\n\nAnswer the question directly and comprehensively. Start with the answer, no preamble.`
-    : `\n\nProvide a clear, comprehensive explanation. Start directly with the explanation, no preamble.`;
-
-  try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-5-haiku-20241022",
-      max_tokens: 1000,
-      messages: [
-        { role: "user", content: userPrompt },
-      ],
-      system: systemPrompt,
-    });
+  const text = await complete("explain", { concept, context, sources, question, path });
+  const citations = toCitations(sources);
+  return withCitations(removeInvalidMarkers(text, citations), citations);
+}
 
-    const textContent = response.content.find((c) => c.type === "text");
-    return textContent && textContent.type === "text" ? textContent.text : getFallbackExplanation(concept);
-  } catch (error) {
-    console.error("Claude API error:", error);
-    return getFallbackExplanation(concept);
-  }
+// Same as explainWithClaude, but yields text as it's generated
+async function* streamExplanation(
+  concept: string,
+  context?: string,
+  question?: string,
+  path: string[] = [],
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const sources = await gatherSearchContext(concept, question);
+  const chunks = streamText("explain", { concept, context, sources, question, path }, { signal });
+  yield* withPrefix(chunks, citationsPreamble(toCitations(sources)));
 }
 
 // Fallback explanations for demo mode
@@ -197,47 +144,57 @@ Add your API keys to \`.env.local\` to enable live exploration.`;
 
 export async function POST(request: NextRequest) {
   const body = await request.json();
-  const { concept, topicContext, question } = body;
+  const { concept, topicContext, question, stream } = body;
+  // Breadcrumbs above this concept (nested exploration)
+  const path: string[] = Array.isArray(body.path)
+    ? body.path.filter((p: unknown): p is string => typeof p === "string").slice(-5)
+    : [];
 
   if (!concept) {
     return NextResponse.json({ error: "Missing concept" }, { status: 400 });
   }
 
-  console.log("Explore API:", { concept: concept.slice(0, 50), hasQuestion: !!question });
-
-  let content: string;
+  console.log("Explore API:", { concept: concept.slice(0, 50), hasQuestion: !!question, depth: path.length, stream: !!stream });
 
-  // Decide whether to search or just use Claude
-  // Always search if there's a question
-  const needsSearch = question || shouldSearch(concept);
+  // The path frames the answer, so the same concept reached another way is its own entry
+  const cacheKey = { route: "explore", topic: topicContext, concept: [...path, concept].join(" → "), question };
+  const hasAnthropic = hasModel();
 
-  if (hasValyuKey && hasAnthropicKey && needsSearch) {
-    // Full pipeline: Search + Claude synthesis
-    const searchQuery = question 
-      ? `${concept} ${question}`
-      : `${concept} explanation overview`;
-    const searchResults = await searchValyu(searchQuery);
-
-    let searchContext = "";
-    if (searchResults && searchResults.length > 0) {
-      searchContext = searchResults
-        .slice(0, 3)
-        .map((r) => {
-          const content = typeof r.content === 'string' ? r.content : JSON.stringify(r.content);
-          return `${r.title}: ${content?.slice(0, 500)}`;
-        })
-        .join("\n\n");
+  // Streaming: send tokens as they arrive (text/plain, chunked)
+  if (stream) {
+    if (!hasAnthropic) {
+      await new Promise((resolve) => setTimeout(resolve, 600));
+      return streamTextResponse(singleChunk(getFallbackExplanation(concept, question)), { "X-Cache": "off" });
     }
 
-    content = await explainWithClaude(concept, topicContext, searchContext, question);
-  } else if (hasAnthropicKey) {
-    // Just Claude (for common/general concepts)
-    content = await explainWithClaude(concept, topicContext, undefined, question);
+    const result = await cachedStream(cacheKey, () =>
+      streamExplanation(concept, topicContext, question, path, request.signal)
+    );
+    console.log(`Explore stream cache: ${result.cache}`);
+    return streamTextResponse(
+      withFallback(result.chunks, getFallbackExplanation(concept, question)),
+      { "X-Cache": result.cache }
+    );
+  }
+
+  let content: string;
+  let citations: Citation[] = [];
+  let cache: CacheStatus = "off";
+
+  if (hasAnthropic) {
+    const result = await cachedCompletion(cacheKey, async () => {
+      // Full pipeline when the concept warrants it: Search + Claude synthesis
+      const sources = await gatherSearchContext(concept, question);
+      return explainWithClaude(concept, topicContext, sources, question, path);
+    });
+    cache = result.cache;
+    ({ text: content, citations } = parseCitedText(result.value));
+    content = content || getFallbackExplanation(concept, question);
   } else {
     // Fallback to mock data
     await new Promise((resolve) => setTimeout(resolve, 600));
     content = getFallbackExplanation(concept, question);
   }
 
-  return NextResponse.json({ content });
+  return NextResponse.json({ content, citations, cache }, { headers: { "X-Cache": cache } });
 }
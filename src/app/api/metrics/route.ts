@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getStructuredMetrics } from "@/lib/structured";
+import { getModel, getTokenUsage } from "@/lib/ai";
+
+// Structured-output counters (how often model JSON needed a repair or was dropped)
+// and token usage per prompt
+export async function GET() {
+  return NextResponse.json({
+    model: getModel(),
+    structuredOutput: getStructuredMetrics(),
+    tokens: getTokenUsage(),
+  });
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cachedCompletion, type CacheStatus } from "@/lib/cache";
+import { researchPlanSchema, researchReportSchema, type ResearchReportDraft } from "@/lib/structured";
+import { getClients } from "@/lib/clients";
+import { completeJson, searchWeb, type ResearchSource } from "@/lib/ai";
+import { toCitedSources, toCitations, removeInvalidMarkers } from "@/lib/citations";
+import type { Citation, ResearchReport } from "@/types";
+
+const RESULTS_PER_QUESTION = 3;
+const MAX_SOURCES = 10;
+
+// Step 1: split the topic into sub-questions worth searching separately
+async function planSubQuestions(title: string, content: string, signal?: AbortSignal): Promise<string[]> {
+  const plan = await completeJson("research-plan", { title, content }, researchPlanSchema, { signal });
+
+  // Without a plan, research the topic as a whole
+  return plan ? plan.subQuestions : [title];
+}
+
+// Step 2: one search per sub-question; sources are de-duplicated by URL and numbered
+async function gatherSources(questions: string[]): Promise<ResearchSource[]> {
+  const perQuestion = await Promise.all(
+    questions.map(async (question) =>
+      (await searchWeb(question, RESULTS_PER_QUESTION)).map((result) => ({ question, result }))
+    )
+  );
+
+  // Numbered across all questions; each source remembers what it was found for
+  const found = perQuestion.flat();
+  const questionFor = new Map<string, string>();
+  found.forEach(({ question, result }) => {
+    if (!questionFor.has(result.url)) questionFor.set(result.url, question);
+  });
+  const sources = toCitedSources(found.map(({ result }) => result), { max: MAX_SOURCES });
+  return sources.map((source) => ({ ...source, question: questionFor.get(source.url) || "" }));
+}
+
+// Step 3: cited synthesis, timeline and opposing viewpoints from the numbered sources
+function synthesiseReport(
+  title: string,
+  content: string,
+  questions: string[],
+  sources: ResearchSource[],
+  signal?: AbortSignal
+): Promise<ResearchReportDraft | null> {
+  return completeJson("research-report", { title, content, questions, sources }, researchReportSchema, { signal });
+}
+
+// Drop citations of sources that don't exist, inline markers included
+function finaliseReport(draft: ResearchReportDraft, citations: Citation[]): ResearchReport {
+  const ids = new Set(citations.map((c) => c.id));
+  const cited = (list: number[]) => [...new Set(list)].filter((id) => ids.has(id));
+  const clean = (text: string) => removeInvalidMarkers(text, citations);
+
+  return {
+    synthesis: clean(draft.synthesis),
+    findings: draft.findings.map((f) => ({ ...f, answer: clean(f.answer), sources: cited(f.sources) })),
+    timeline: draft.timeline.map((t) => ({ ...t, event: clean(t.event), sources: cited(t.sources) })),
+    viewpoints: draft.viewpoints.map((v) => ({ ...v, argument: clean(v.argument), sources: cited(v.sources) })),
+    sources: citations,
+  };
+}
+
+// Full pipeline; "" when nothing useful came back (so it isn't cached)
+async function researchTopic(title: string, content: string, signal?: AbortSignal): Promise<string> {
+  const { anthropic, valyu } = getClients();
+  if (!anthropic || !valyu) return "";
+
+  const questions = await planSubQuestions(title, content, signal);
+  const sources = await gatherSources(questions);
+  console.log(`Research: ${questions.length} sub-questions, ${sources.length} sources`);
+  if (sources.length === 0) return "";
+
+  const draft = await synthesiseReport(title, content, questions, sources, signal);
+  return draft ? JSON.stringify(finaliseReport(draft, toCitations(sources))) : "";
+}
+
+function fallbackReport(title: string, message: string): ResearchReport {
+  return {
+    synthesis: `${message} "${title}" will get a cited synthesis, a timeline and opposing viewpoints once research is available.`,
+    findings: [],
+    timeline: [],
+    viewpoints: [],
+    sources: [],
+  };
+}
+
+export async function POST(request: NextRequest) {
+  let body: { topicId?: string; title?: string; content?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const { topicId, title, content } = body;
+  if (!topicId || !title || !content) {
+    return NextResponse.json({ error: "Missing topicId, title or content" }, { status: 400 });
+  }
+
+  console.log("Research request:", { topicId, title });
+
+  const { anthropic, valyu } = getClients();
+  if (!anthropic || !valyu) {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const report = fallbackReport(title, "Deep research needs VALYU_API_KEY and ANTHROPIC_API_KEY in `.env.local`.");
+    return NextResponse.json({ report, cache: "off" }, { headers: { "X-Cache": "off" } });
+  }
+
+  let report: ResearchReport | null = null;
+  let cache: CacheStatus = "off";
+
+  try {
+    const result = await cachedCompletion(
+      { route: "research", topic: `${title}\n${content}` },
+      () => researchTopic(title, content, request.signal)
+    );
+    if (result.value) report = JSON.parse(result.value);
+    cache = result.cache;
+  } catch (error) {
+    console.error("Research error:", error);
+  }
+
+  if (!report) {
+    report = fallbackReport(title, "Research couldn't be completed right now.");
+  }
+
+  console.log(`Research cache: ${cache}`);
+  return NextResponse.json({ report, cache }, { headers: { "X-Cache": cache } });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/lib/auth";
+import { getUserStore } from "@/lib/users";
+import { SYNC_LIMITS, emptySyncData, mergeSyncData, normalizeSyncData } from "@/lib/sync";
+
+// Another device saving between our read and write means merging again
+const MAX_SAVE_ATTEMPTS = 3;
+
+// The body as text, or null once it grows past maxBytes (stops reading there)
+async function readBody(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Current synced data for the signed-in user
+export async function GET() {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const stored = await getUserStore().getSyncData(userId);
+  return NextResponse.json({ data: stored?.data ?? null, updatedAt: stored?.updatedAt ?? null });
+}
+
+// Merge this device's data into the account and return the result.
+// Body: { data, base? } - base is what the device last got back from here.
+export async function POST(request: NextRequest) {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const tooLarge = () =>
+    NextResponse.json({ error: `Sync data over ${SYNC_LIMITS.bodyBytes} bytes` }, { status: 413 });
+  if (Number(request.headers.get("content-length")) > SYNC_LIMITS.bodyBytes) return tooLarge();
+
+  let body: { data?: unknown; base?: unknown };
+  try {
+    const raw = await readBody(request, SYNC_LIMITS.bodyBytes);
+    if (raw === null) return tooLarge();
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body?.data) {
+    return NextResponse.json({ error: "Missing data" }, { status: 400 });
+  }
+
+  const store = getUserStore();
+  const incoming = normalizeSyncData(body.data);
+  const base = body.base ? normalizeSyncData(body.base) : undefined;
+
+  for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+    const current = await store.getSyncData(userId);
+    // Normalised again so the union of two full lists still fits the limits
+    const merged = normalizeSyncData(mergeSyncData(current?.data ?? emptySyncData(), incoming, base));
+    const saved = await store.saveSyncData(userId, merged, current?.revision ?? 0);
+    if (saved) {
+      console.log("Synced user data:", { userId, likes: merged.likes.length, hadBase: !!body.base, attempt });
+      return NextResponse.json({ data: saved.data, updatedAt: saved.updatedAt });
+    }
+  }
+
+  return NextResponse.json({ error: "Sync data changed during the merge, try again" }, { status: 409 });
+}
@@ -1,365 +1,216 @@
 import { NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { Valyu } from "valyu-js";
-import type { Topic, TopicCategory } from "@/types";
-
-// Check if we have API keys
-const hasValyuKey = !!process.env.VALYU_API_KEY;
-const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
-
-// Log API key status (without revealing the keys)
-console.log("Topics API - Keys status:", {
-  hasValyuKey,
-  hasAnthropicKey,
-  valuKeyLength: process.env.VALYU_API_KEY?.length || 0,
-  anthropicKeyLength: process.env.ANTHROPIC_API_KEY?.length || 0,
-});
-
-// Initialize clients if keys exist
-const anthropic = hasAnthropicKey
-  ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
-  : null;
-
-const valyu = hasValyuKey
-  ? new Valyu(process.env.VALYU_API_KEY!)
-  : null;
-
-interface ValyuResult {
-  title: string;
-  url: string;
-  content: string | object | unknown[];
-  source: string;
-  relevance_score?: number;
-  publication_date?: string;
-}
+import type { Topic, TopicCategory, TopicPerspective } from "@/types";
+import { getContentRegistry, gatherContent } from "@/lib/providers";
+import type { CategoryQuery, ValyuResult } from "@/lib/providers";
+import { pickWeightedCategories, generateProfileQueries, rerankByProfile, withoutHiddenSources } from "@/lib/personalization";
+import { parseSampleParam, rankBySimilarity, type InterestSample } from "@/lib/recommender";
+import { SEARCHABLE_CATEGORIES, categoriesForInterest, coerceCategory } from "@/lib/categories";
+import {
+  processedTopicSchema,
+  processedTopicBatchSchema,
+  storyPerspectivesSchema,
+  aiThoughtsSchema,
+  MAX_PERSPECTIVES,
+  type ProcessedTopic,
+  type StoryPerspectives,
+} from "@/lib/structured";
+import { runPool, chunk } from "@/lib/pool";
+import { completeJson, hasModel } from "@/lib/ai";
+
+// Pick 4 categories and one query for each. Categories matching the user's
+// interest tags always make the cut; liked categories are weighted up for the rest.
+function planCategoryQueries(
+  userInterests: string[] = [],
+  userLocation: string = "",
+  preferCategories: string[] = [],
+  avoidCategories: string[] = []
+): CategoryQuery[] {
+  const boostedCategories = new Set<string>();
+  userInterests.forEach(interest => {
+    categoriesForInterest(interest).forEach(c => boostedCategories.add(c));
+  });
 
-// Fetch from NewsAPI (free tier - 100 requests/day)
-async function fetchFromNewsAPI(): Promise<ValyuResult[]> {
-  const newsApiKey = process.env.NEWS_API_KEY;
-  if (!newsApiKey) {
-    console.log("No NEWS_API_KEY, skipping NewsAPI");
-    return [];
-  }
+  const selectedCategories = pickWeightedCategories(SEARCHABLE_CATEGORIES, {
+    count: 4,
+    boosted: boostedCategories,
+    preferred: preferCategories,
+    avoided: avoidCategories,
+  });
 
-  try {
-    const response = await fetch(
-      `https://newsapi.org/v2/top-headlines?country=us&pageSize=10&apiKey=${newsApiKey}`
-    );
-    const data = await response.json();
-    
-    if (data.status !== "ok" || !data.articles) {
-      console.error("NewsAPI error:", data);
-      return [];
-    }
+  // Don't add time modifiers - they reduce results too much
+  // Location modifier only for local searches (very rarely)
+  const locationModifier = userLocation && Math.random() > 0.9 ? ` ${userLocation}` : "";
 
-    console.log(`NewsAPI returned ${data.articles.length} articles`);
-    
-    return data.articles
-      .filter((a: { title: string; description: string }) => a.title && a.description)
-      .map((a: { title: string; url: string; description: string; content: string; source: { name: string }; publishedAt: string }) => ({
-        title: a.title,
-        url: a.url,
-        content: a.description + (a.content ? " " + a.content : ""),
-        source: a.source?.name || "News",
-        publication_date: a.publishedAt,
-      }));
-  } catch (error) {
-    console.error("NewsAPI fetch error:", error);
-    return [];
-  }
+  return selectedCategories.map(({ id, queries }) => {
+    // Pick a random query from this category - keep it simple
+    const baseQuery = queries[Math.floor(Math.random() * queries.length)];
+    return { category: id, query: `${baseQuery}${locationModifier}` };
+  });
 }
 
-// Content categories - use very simple single/double word queries
-const CONTENT_CATEGORIES = [
-  { category: "science", queries: ["science", "research", "discovery"] },
-  { category: "tech", queries: ["AI", "technology", "software"] },
-  { category: "finance", queries: ["stocks", "economy", "markets"] },
-  { category: "politics", queries: ["politics", "congress", "government"] },
-  { category: "health", queries: ["health", "medicine", "doctor"] },
-  { category: "sports", queries: ["sports", "football", "basketball"] },
-  { category: "entertainment", queries: ["movies", "music", "celebrity"] },
-  { category: "business", queries: ["business", "company", "startup"] },
-  { category: "space", queries: ["NASA", "space", "rocket"] },
-  { category: "environment", queries: ["climate", "energy", "environment"] },
-  { category: "culture", queries: ["culture", "trending", "viral"] },
-];
-
-// Fetch trending topics from Valyu using official SDK
-async function fetchFromValyu(
-  excludeUrls: string[] = [],
-  userInterests: string[] = [],
-  userLocation: string = ""
-): Promise<{ results: ValyuResult[], categoryStats: Record<string, number> }> {
-  if (!valyu) return { results: [], categoryStats: {} };
-
-  const allResults: ValyuResult[] = [];
-  const categoryStats: Record<string, number> = {};
-  const excludeSet = new Set(excludeUrls);
+function envInt(name: string, fallback: number): number {
+  return parseInt(process.env[name] || "", 10) || fallback;
+}
 
-  // Pick categories - prioritize user interests if provided
-  let selectedCategories = [...CONTENT_CATEGORIES];
-  
-  // Map user interest tags to categories
-  const interestToCategory: Record<string, string[]> = {
-    "AI & Machine Learning": ["tech"],
-    "Space & Astronomy": ["space"],
-    "Science & Research": ["science"],
-    "Technology": ["tech"],
-    "Finance & Economics": ["finance"],
-    "Health & Wellness": ["health"],
-    "Politics": ["politics"],
-    "Sports": ["sports"],
-    "Entertainment": ["entertainment"],
-    "Climate & Environment": ["environment"],
-    "Art & Culture": ["culture"],
-    "Business": ["business"],
+// Article processing runs through a bounded worker pool. Slow items are
+// dropped after the item timeout; whatever is done by the deadline is served.
+const PROCESSING = {
+  concurrency: envInt("TOPICS_CONCURRENCY", 3),
+  itemTimeoutMs: envInt("TOPICS_ITEM_TIMEOUT_MS", 15000),
+  deadlineMs: envInt("TOPICS_DEADLINE_MS", 25000),
+  // Articles per model call (1 = one call per article)
+  batchSize: envInt("TOPICS_BATCH_SIZE", 1),
+};
+
+function toTopic(result: ValyuResult, parsed: ProcessedTopic): Topic {
+  const highlights = parsed.highlights.map((h, idx) => ({
+    id: `${result.url}-h-${idx}`,
+    text: h.text,
+    startIndex: 0,
+    endIndex: 0,
+  }));
+
+  return {
+    id: `topic-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    title: parsed.title,
+    summary: parsed.summary,
+    content: parsed.content,
+    source: result.source || new URL(result.url).hostname,
+    sourceUrl: result.url,
+    timestamp: new Date(result.publication_date || Date.now()),
+    // Unknown model output falls back to the category we searched under
+    category: coerceCategory(parsed.category, result.category),
+    highlights,
+    // The same story from other outlets, merged during gathering
+    ...(result.alsoReportedBy?.length && {
+      sources: [
+        { name: result.source || new URL(result.url).hostname, url: result.url, title: result.title },
+        ...result.alsoReportedBy.map(({ name, url, title }) => ({ name, url, title })),
+      ],
+    }),
   };
-  
-  // Boost categories matching user interests
-  if (userInterests.length > 0) {
-    const boostedCategories = new Set<string>();
-    userInterests.forEach(interest => {
-      const cats = interestToCategory[interest] || [];
-      cats.forEach(c => boostedCategories.add(c));
-    });
-    
-    // Put boosted categories first
-    selectedCategories = [
-      ...selectedCategories.filter(c => boostedCategories.has(c.category)),
-      ...selectedCategories.filter(c => !boostedCategories.has(c.category)).sort(() => Math.random() - 0.5)
-    ];
-  } else {
-    selectedCategories = selectedCategories.sort(() => Math.random() - 0.5);
-  }
-  
-  // Take 4 categories
-  selectedCategories = selectedCategories.slice(0, 4);
+}
 
-  // Don't add time modifiers - they reduce results too much
-  // Location modifier only for local searches (very rarely)
-  const locationModifier = userLocation && Math.random() > 0.9 ? ` ${userLocation}` : "";
+async function processArticle(article: ValyuResult, signal: AbortSignal): Promise<Topic[]> {
+  const parsed = await completeJson("processed-topic", { article }, processedTopicSchema, { signal });
+
+  // Still invalid after the repair retry
+  return parsed ? [toTopic(article, parsed)] : [];
+}
+
+// Several articles in one model call - fewer round trips, larger response
+async function processArticleBatch(batch: ValyuResult[], signal: AbortSignal): Promise<Topic[]> {
+  const parsed = await completeJson("processed-topic-batch", { articles: batch }, processedTopicBatchSchema, { signal });
+  if (!parsed) return [];
 
-  try {
-    const categoryPromises = selectedCategories.map(async ({ category, queries }) => {
-      // Pick a random query from this category - keep it simple
-      const baseQuery = queries[Math.floor(Math.random() * queries.length)];
-      const query = `${baseQuery}${locationModifier}`;
-      
-      try {
-        console.log(`Valyu searching: "${query}"`);
-        const response = await valyu.search(query, {
-          maxNumResults: 10,  // Request more results
-          maxPrice: 100,      // Allow higher price for better sources
-          relevanceThreshold: 0.1,  // Very low threshold for more results
-        });
-        
-        const count = response.results?.length || 0;
-        categoryStats[category] = count;
-        console.log(`Valyu [${category}] "${query}" → ${count} results`);
-        
-        if (count === 0 && response) {
-          console.log(`Valyu response for "${query}":`, JSON.stringify(response).slice(0, 200));
-        }
-        
-        return { category, results: response.results || [] };
-      } catch (err) {
-        console.error(`Valyu query error for "${category}":`, err);
-        categoryStats[category] = 0;
-        return { category, results: [] };
-      }
-    });
-
-    const categoryResults = await Promise.all(categoryPromises);
-
-    categoryResults.forEach(({ results }) => {
-      results.forEach((r) => {
-        // Skip if we've seen this URL before
-        if (excludeSet.has(r.url)) return;
-        
-        allResults.push({
-          title: r.title,
-          url: r.url,
-          content: r.content,
-          source: r.source,
-          relevance_score: r.relevance_score,
-          publication_date: r.publication_date,
-        });
-      });
-    });
-  } catch (error) {
-    console.error("Valyu fetch error:", error);
+  const topics: Topic[] = [];
+  const seen = new Set<number>();
+  for (const item of parsed) {
+    const result = batch[item.article - 1];
+    if (!result || seen.has(item.article)) continue;
+    seen.add(item.article);
+    topics.push(toTopic(result, item));
   }
+  return topics;
+}
+
+// A merged story's articles, lead first, for the perspectives prompt - no more
+// than the schema takes perspectives for (the card still lists every source)
+function clusterArticles(result: ValyuResult): ValyuResult[] {
+  return [
+    result,
+    ...(result.alsoReportedBy || []).map(({ name, url, title, content }) => ({ title, url, content, source: name })),
+  ].slice(0, MAX_PERSPECTIVES);
+}
 
-  // Deduplicate by URL
-  const seen = new Set<string>();
-  const dedupedResults = allResults.filter((result) => {
-    if (!result.url) return false;
-    if (seen.has(result.url)) return false;
-    seen.add(result.url);
-    return true;
+// Each perspective against the outlet it names; unknown or repeated source numbers are dropped
+function toPerspectives(articles: ValyuResult[], parsed: StoryPerspectives): TopicPerspective[] {
+  const seen = new Set<number>();
+  return parsed.perspectives.flatMap(({ source, framing }) => {
+    const article = articles[source - 1];
+    if (!article || seen.has(source)) return [];
+    seen.add(source);
+    return [{ source: article.source || new URL(article.url).hostname, url: article.url, framing }];
   });
+}
+
+// A story several outlets covered: one synthesised card with each source's framing.
+// Falls back to a plain card from the lead article (still listing every source).
+async function processCluster(result: ValyuResult, signal: AbortSignal): Promise<Topic[]> {
+  const articles = clusterArticles(result);
+  const parsed = await completeJson("story-perspectives", { articles }, storyPerspectivesSchema, { signal });
+  if (!parsed) return processArticle(result, signal);
 
-  return { results: dedupedResults, categoryStats };
+  const perspectives = toPerspectives(articles, parsed);
+  const topic = toTopic(result, parsed);
+  return [perspectives.length >= 2 ? { ...topic, perspectives } : topic];
 }
 
-// Process raw results with Claude
-async function processWithClaude(results: ValyuResult[]): Promise<Topic[]> {
-  if (!anthropic || results.length === 0) return [];
+type ProcessingJob = { cluster: ValyuResult } | { batch: ValyuResult[] };
 
-  const topics: Topic[] = [];
+// Process raw results with Claude - merged stories one by one, the rest in batches
+async function processWithClaude(results: ValyuResult[]): Promise<Topic[]> {
+  if (!hasModel() || results.length === 0) return [];
 
-  for (const result of results.slice(0, 5)) {
-    try {
-      // Convert content to string if needed
-      const contentStr = typeof result.content === 'string' 
-        ? result.content 
-        : JSON.stringify(result.content);
-      
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-haiku-20241022",
-        max_tokens: 1024,
-        messages: [
-          {
-            role: "user",
-            content: `Analyze this article and provide a JSON response:
-
-Title: ${result.title}
-Content: ${contentStr?.slice(0, 3000)}
-
-Return ONLY valid JSON:
-{
-  "title": "compelling title, max 80 chars",
-  "summary": "2-3 sentence summary, max 200 chars",
-  "content": "main content rewritten clearly, max 600 chars",
-  "category": "one of: news, tech, science, finance, culture, politics, health, sports, general",
-  "highlights": [
-    {"text": "exact interesting phrase from content that users would want to explore", "reason": "why interesting"}
-  ]
-}
+  const selected = results.slice(0, 5);
+  const jobs: ProcessingJob[] = [
+    ...selected.filter((r) => r.alsoReportedBy?.length).map((cluster) => ({ cluster })),
+    ...chunk(selected.filter((r) => !r.alsoReportedBy?.length), PROCESSING.batchSize).map((batch) => ({ batch })),
+  ];
+  const pool = await runPool(
+    jobs,
+    (job, _idx, signal) =>
+      "cluster" in job
+        ? processCluster(job.cluster, signal)
+        : job.batch.length === 1
+          ? processArticle(job.batch[0], signal)
+          : processArticleBatch(job.batch, signal),
+    PROCESSING
+  );
 
-Include 3-5 highlights - phrases that invite deeper exploration.`,
-          },
-        ],
-      });
-
-      const textContent = response.content.find((c) => c.type === "text");
-      if (!textContent || textContent.type !== "text") continue;
-
-      let jsonStr = textContent.text;
-      const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) jsonStr = jsonMatch[1];
-
-      const parsed = JSON.parse(jsonStr.trim());
-
-      const highlights = (parsed.highlights || []).map(
-        (h: { text: string }, idx: number) => ({
-          id: `${result.url}-h-${idx}`,
-          text: h.text,
-          startIndex: 0,
-          endIndex: 0,
-        })
-      );
-
-      topics.push({
-        id: `topic-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-        title: parsed.title,
-        summary: parsed.summary,
-        content: parsed.content,
-        source: result.source || new URL(result.url).hostname,
-        sourceUrl: result.url,
-        timestamp: new Date(result.publication_date || Date.now()),
-        category: parsed.category as TopicCategory,
-        highlights,
-      });
-    } catch (error) {
-      console.error("Error processing result:", error);
-    }
-  }
+  console.log("Article processing:", {
+    calls: jobs.length,
+    clusters: jobs.filter((job) => "cluster" in job).length,
+    completed: pool.completed,
+    failed: pool.failed,
+    timedOut: pool.timedOut,
+    unfinished: pool.unfinished,
+  });
 
-  return topics;
+  return pool.results.flat();
 }
 
 // Generate AI thoughts/facts/jokes - clearly labeled as AI-generated
 async function generateAIThoughts(count: number = 2): Promise<Topic[]> {
-  if (!anthropic) return [];
-
-  try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-5-haiku-20241022",
-      max_tokens: 2000,
-      messages: [
-        {
-          role: "user",
-          content: `You are creating content for a knowledge discovery app. Generate ${count} pieces of content. 
-
-YOU DECIDE what type each one should be. Mix it up! Options include:
-- A fascinating fact about nature, science, or the universe
-- A thought-provoking philosophical question or insight  
-- A clever joke or witty observation
-- An interesting "did you know" about history, culture, or technology
-- A mindfulness/presence reminder
-- A weird but true fact
-- A creative "what if" scenario
-
-Be creative and varied. Make each one genuinely interesting and shareable.
-
-Return ONLY valid JSON array:
-[
-  {
-    "type": "fact" | "philosophy" | "joke" | "did_you_know" | "mindfulness" | "weird_fact" | "what_if",
-    "title": "engaging title, max 60 chars",
-    "content": "the full content, 100-300 chars, make it memorable",
-    "highlights": [{"text": "interesting phrase to explore"}]
-  }
-]`,
-        },
-      ],
-    });
-
-    const textContent = response.content.find((c) => c.type === "text");
-    if (!textContent || textContent.type !== "text") return [];
-
-    let jsonStr = textContent.text;
-    const jsonMatch = jsonStr.match(/\[[\s\S]*\]/);
-    if (jsonMatch) jsonStr = jsonMatch[0];
-
-    const parsed = JSON.parse(jsonStr);
-
-    const typeLabels: Record<string, string> = {
-      fact: "🧠 AI Fact",
-      philosophy: "💭 AI Thought",
-      joke: "😄 AI Joke",
-      did_you_know: "💡 Did You Know",
-      mindfulness: "🧘 Moment",
-      weird_fact: "🤯 Weird but True",
-      what_if: "🔮 What If",
-    };
-
-    return parsed.map((t: { 
-      type: string;
-      title: string; 
-      content: string; 
-      highlights: Array<{ text: string }>;
-    }, idx: number) => ({
-      id: `ai-${Date.now()}-${idx}-${Math.random().toString(36).slice(2)}`,
-      title: t.title,
-      summary: t.content.slice(0, 150),
-      content: t.content,
-      source: typeLabels[t.type] || "🤖 AI Generated",
-      sourceUrl: "",
-      timestamp: new Date(),
-      category: "general" as TopicCategory,
-      highlights: (t.highlights || []).map((h: { text: string }, i: number) => ({
-        id: `ai-${Date.now()}-${idx}-h-${i}`,
-        text: h.text,
-        startIndex: 0,
-        endIndex: 0,
-      })),
-    }));
-  } catch (error) {
-    console.error("Error generating AI thoughts:", error);
-    return [];
-  }
+  const parsed = await completeJson("ai-thoughts", { count }, aiThoughtsSchema);
+  if (!parsed) return [];
+
+  const typeLabels: Record<string, string> = {
+    fact: "🧠 AI Fact",
+    philosophy: "💭 AI Thought",
+    joke: "😄 AI Joke",
+    did_you_know: "💡 Did You Know",
+    mindfulness: "🧘 Moment",
+    weird_fact: "🤯 Weird but True",
+    what_if: "🔮 What If",
+  };
+
+  return parsed.map((t, idx) => ({
+    id: `ai-${Date.now()}-${idx}-${Math.random().toString(36).slice(2)}`,
+    title: t.title,
+    summary: t.content.slice(0, 150),
+    content: t.content,
+    source: typeLabels[t.type] || "🤖 AI Generated",
+    sourceUrl: "",
+    timestamp: new Date(),
+    category: "general" as TopicCategory,
+    highlights: t.highlights.map((h, i) => ({
+      id: `ai-${Date.now()}-${idx}-h-${i}`,
+      text: h.text,
+      startIndex: 0,
+      endIndex: 0,
+    })),
+  }));
 }
 
 // Mock data for when APIs aren't available
@@ -462,6 +313,12 @@ export async function GET(request: Request) {
   const fresh = searchParams.get("fresh") === "true"; // Get freshest content
   const preferCategoriesParam = searchParams.get("preferCategories") || "";
   const preferCategories = preferCategoriesParam ? preferCategoriesParam.split(",") : [];
+  // "Not interested" signals: categories to play down, terms to push down, sources to drop
+  const avoidCategoriesParam = searchParams.get("avoidCategories") || "";
+  const avoidCategories = avoidCategoriesParam ? avoidCategoriesParam.split(",") : [];
+  const avoidKeywords = searchParams.getAll("avoidKeyword");
+  const hideSourcesParam = searchParams.get("hideSources") || "";
+  const hideSources = hideSourcesParam ? hideSourcesParam.split(",") : [];
   // URLs to exclude (passed from frontend to avoid repeats)
   const excludeUrlsParam = searchParams.get("excludeUrls") || "";
   const excludeUrls = excludeUrlsParam ? excludeUrlsParam.split(",") : [];
@@ -470,64 +327,83 @@ export async function GET(request: Request) {
   const userInterests = interestsParam ? interestsParam.split(",") : [];
   // User location for local news
   const userLocation = searchParams.get("location") || "";
-  // Custom user prompt (for future use in AI generation)
+  // Free-text "About You" profile - drives extra queries and reranking
   const aboutUser = searchParams.get("aboutUser") || "";
+  // Per-user RSS/Atom feeds (repeated param, URLs may contain commas)
+  const userFeeds = searchParams.getAll("feed");
+  // Topics the reader liked, read closely or turned down, as "weight:text" (repeated param)
+  const interestSamples = searchParams
+    .getAll("sample")
+    .map(parseSampleParam)
+    .filter((sample): sample is InterestSample => sample !== null);
   
   console.log("Topics API request:", { 
     count, 
     fresh, 
     preferCategories: preferCategories.length, 
+    avoidCategories: avoidCategories.length,
+    avoidKeywords: avoidKeywords.length,
+    hideSources: hideSources.length,
     excludeUrls: excludeUrls.length,
     userInterests: userInterests.length,
     userLocation: userLocation || "none",
     hasAboutUser: !!aboutUser,
+    userFeeds: userFeeds.length,
+    interestSamples: interestSamples.length,
   });
   
   let realTopics: Topic[] = [];
   let aiTopics: Topic[] = [];
   let mode: "live" | "demo" = "demo";
-  let allResults: ValyuResult[] = [];
-  let categoryStats: Record<string, number> = {};
-
-  // Step 1: Try Valyu for real content (with category rotation)
-  if (hasValyuKey) {
-    console.log("Fetching real content from Valyu...");
-    const valyuData = await fetchFromValyu(excludeUrls, userInterests, userLocation);
-    console.log(`Valyu returned ${valyuData.results.length} results`);
-    allResults.push(...valyuData.results);
-    categoryStats = valyuData.categoryStats;
-  }
 
-  // Step 2: Try NewsAPI as backup/supplement
-  const newsResults = await fetchFromNewsAPI();
-  if (newsResults.length > 0) {
-    console.log(`NewsAPI returned ${newsResults.length} articles`);
-    allResults.push(...newsResults);
+  // Step 1: Gather real content from every enabled provider (Valyu, NewsAPI, RSS, ...)
+  // Category queries plus a couple tailored to the user's profile
+  const queries = planCategoryQueries(userInterests, userLocation, preferCategories, avoidCategories);
+  const profileQueries = await generateProfileQueries(aboutUser);
+  profileQueries.forEach((query) => queries.push({ category: "personal", query }));
+  if (profileQueries.length > 0) {
+    console.log("Profile queries:", profileQueries);
   }
-
-  // Deduplicate by title similarity
-  const seen = new Set<string>();
-  allResults = allResults.filter((r) => {
-    const key = r.title.toLowerCase().slice(0, 50);
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
+  const gathered = await gatherContent(getContentRegistry(), {
+    queries,
+    excludeUrls,
+    location: userLocation,
+    feeds: userFeeds,
   });
-
-  // Step 3: Process real content with Claude (just formatting, not inventing)
-  if (allResults.length > 0 && hasAnthropicKey) {
+  // Articles matching the user's profile go to the front of the queue
+  // Hidden sources are dropped, disliked terms sink to the back
+  const keywordRanked = rerankByProfile(
+    withoutHiddenSources(gathered.results, hideSources),
+    aboutUser,
+    avoidKeywords
+  );
+  // Then move them by similarity to what the reader liked and engaged with (the
+  // "About You" text counts as a like), keeping some of the order above, before
+  // anything is sent to Claude
+  const profileSamples = aboutUser ? [{ text: aboutUser, weight: 1 }, ...interestSamples] : interestSamples;
+  const allResults: ValyuResult[] = await rankBySimilarity(keywordRanked, profileSamples);
+  const categoryStats = gathered.categoryStats;
+  console.log("Providers returned:", gathered.providerStats);
+
+  // Generate 1-2 AI thoughts to mix in (clearly labeled) while articles are processed.
+  // Generated even with demo data to add variety
+  // (generateAIThoughts never throws - it returns [] without a key or on failure)
+  const aiCount = Math.random() > 0.5 ? 2 : 1; // 50% chance of 2
+  const aiThoughtsPromise = generateAIThoughts(aiCount);
+
+  // Step 2: Process real content with Claude (just formatting, not inventing)
+  if (allResults.length > 0 && hasModel()) {
     mode = "live";
     console.log(`Processing ${allResults.length} real articles with Claude...`);
     
-    // Shuffle and take what we need for real news
-    const shuffled = allResults.sort(() => Math.random() - 0.5);
-    const toProcess = shuffled.slice(0, count); 
+    // Results arrive shuffled, weighted by provider and reranked by profile
+    const toProcess = allResults.slice(0, count);
     
     realTopics = await processWithClaude(toProcess);
     console.log(`Successfully processed ${realTopics.length} real topics`);
   }
 
-  // Step 4: Fall back to mock data if we have no real content
+  // Step 3: Fall back to mock data if we have no real content
   if (realTopics.length === 0) {
     console.log("No real content available, using demo data");
     await new Promise((resolve) => setTimeout(resolve, 300));
@@ -535,21 +411,13 @@ export async function GET(request: Request) {
     mode = "demo";
   }
 
-  // Step 5: Generate 1-2 AI thoughts to mix in (clearly labeled)
-  // Generate even with demo data to add variety
-  if (hasAnthropicKey) {
-    try {
-      const aiCount = Math.random() > 0.5 ? 2 : 1; // 50% chance of 2
-      console.log(`Generating ${aiCount} AI thought(s)...`);
-      aiTopics = await generateAIThoughts(aiCount);
-      console.log(`Generated ${aiTopics.length} AI thought(s):`, aiTopics.map(t => t.source));
-    } catch (err) {
-      console.error("Failed to generate AI thoughts:", err);
-      // Continue without AI thoughts
-    }
+  // Step 4: Collect the AI thoughts started alongside Step 2
+  aiTopics = await aiThoughtsPromise;
+  if (aiTopics.length > 0) {
+    console.log(`Generated ${aiTopics.length} AI thought(s):`, aiTopics.map(t => t.source));
   }
 
-  // Step 6: Mix real news with AI thoughts
+  // Step 5: Mix real news with AI thoughts
   // Strategy: Real news comes first (sorted by timestamp), AI thoughts sprinkled in
   const sortedReal = realTopics.sort((a, b) => 
     new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
@@ -0,0 +1,63 @@
+"use client";
+
+import { Fragment } from "react";
+import type { Citation } from "@/types";
+
+// Superscript [n] that opens the cited source
+export function CitationMarker({ citation }: { citation: Citation }) {
+  return (
+    <a
+      href={citation.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={`${citation.title} · ${citation.source}`}
+      onClick={(e) => e.stopPropagation()}
+      className="text-[0.7em] align-super text-purple-400 hover:text-purple-300 no-underline"
+    >
+      [{citation.id}]
+    </a>
+  );
+}
+
+// Plain text with its [n] markers turned into links; unknown numbers stay as text
+export function CitedText({ text, citations }: { text: string; citations: Citation[] }) {
+  if (citations.length === 0) return <>{text}</>;
+
+  const byId = new Map(citations.map((c) => [c.id, c]));
+  const parts = text.split(/(\[\d+\])/);
+
+  return (
+    <>
+      {parts.map((part, i) => {
+        const citation = byId.get(Number(part.match(/^\[(\d+)\]$/)?.[1]));
+        return citation ? <CitationMarker key={i} citation={citation} /> : <Fragment key={i}>{part}</Fragment>;
+      })}
+    </>
+  );
+}
+
+// Numbered source list under cited text
+export function Footnotes({ citations, className = "" }: { citations: Citation[]; className?: string }) {
+  if (citations.length === 0) return null;
+
+  return (
+    <ol className={`space-y-1.5 ${className}`}>
+      {citations.map((citation) => (
+        <li key={citation.id} className="text-xs text-neutral-500">
+          <span className="text-purple-400/80 mr-2">[{citation.id}]</span>
+          <a
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:text-neutral-300 transition-colors"
+          >
+            {citation.title}
+          </a>
+          <span className="text-neutral-700">
+            {" "}· {citation.source}{citation.date ? ` · ${citation.date.slice(0, 10)}` : ""}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,13 +1,63 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
+import { Footnotes } from "./Citations";
+import { Markdown } from "./Markdown";
+import { parseCitedText } from "@/lib/citations";
+import type { ConceptStep } from "@/lib/conceptTrail";
 
 interface ConceptExplorerProps {
   isOpen: boolean;
   concept: string;
   content: string | null;
   isLoading: boolean;
+  // Content is still streaming in
+  isStreaming?: boolean;
   onClose: () => void;
+  // Explore a bold term from the explanation
+  onExplore?: (term: string) => void;
+  // Breadcrumbs: the topic, then every concept explored on the way down
+  topicTitle?: string;
+  trail?: ConceptStep[];
+  onBack?: () => void;
+  onJump?: (index: number) => void;
+}
+
+function Breadcrumbs({
+  topicTitle,
+  trail,
+  onClose,
+  onJump,
+}: {
+  topicTitle?: string;
+  trail: ConceptStep[];
+  onClose: () => void;
+  onJump?: (index: number) => void;
+}) {
+  return (
+    <nav className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-neutral-500 mb-4">
+      {topicTitle && (
+        <button onClick={onClose} className="hover:text-neutral-300 transition-colors truncate max-w-[200px]">
+          {topicTitle}
+        </button>
+      )}
+      {trail.map((step, i) => (
+        <span key={step.id} className="flex items-center gap-2">
+          {(topicTitle || i > 0) && <span className="text-neutral-700">›</span>}
+          {i === trail.length - 1 ? (
+            <span className="text-purple-400 truncate max-w-[200px]">{step.concept}</span>
+          ) : (
+            <button
+              onClick={() => onJump?.(i)}
+              className="hover:text-neutral-300 transition-colors truncate max-w-[200px]"
+            >
+              {step.concept}
+            </button>
+          )}
+        </span>
+      ))}
+    </nav>
+  );
 }
 
 export function ConceptExplorer({
@@ -15,8 +65,17 @@ export function ConceptExplorer({
   concept,
   content,
   isLoading,
+  isStreaming = false,
   onClose,
+  onExplore,
+  topicTitle,
+  trail = [],
+  onBack,
+  onJump,
 }: ConceptExplorerProps) {
+  const cited = content ? parseCitedText(content) : null;
+  const parent = trail.length > 1 ? trail[trail.length - 2] : null;
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -27,23 +86,27 @@ export function ConceptExplorer({
           transition={{ type: "spring", damping: 25, stiffness: 200 }}
           className="fixed inset-0 bg-black z-30"
         >
-          {/* Back button */}
+          {/* Back button - one level up, or out of the explorer */}
           <button
-            onClick={onClose}
+            onClick={onBack || onClose}
             className="fixed top-6 left-6 text-neutral-500 hover:text-white transition-colors flex items-center gap-2 text-sm z-40"
           >
             <span className="text-lg">←</span>
-            <span>Back</span>
+            <span className="truncate max-w-[200px]">{parent ? parent.concept : "Back"}</span>
           </button>
 
           {/* Concept header */}
           <div className="fixed top-6 right-6 text-xs text-purple-400 z-40">
-            Exploring concept
+            {trail.length > 1 ? `${trail.length} levels deep` : "Exploring concept"}
           </div>
 
-          {/* Content */}
-          <div className="h-full overflow-y-auto px-6 md:px-16 lg:px-24 py-20">
+          {/* Content - remounted per level so each one starts at the top */}
+          <div key={trail[trail.length - 1]?.id} className="h-full overflow-y-auto px-6 md:px-16 lg:px-24 py-20">
             <div className="max-w-3xl mx-auto">
+              {trail.length > 0 && (
+                <Breadcrumbs topicTitle={topicTitle} trail={trail} onClose={onClose} onJump={onJump} />
+              )}
+
               {/* Concept title */}
               <motion.h1
                 initial={{ opacity: 0, y: 20 }}
@@ -101,15 +164,17 @@ export function ConceptExplorer({
                 </motion.div>
               )}
 
-              {/* Content */}
-              {content && !isLoading && (
+              {/* Content - renders progressively while streaming */}
+              {cited && !isLoading && (
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.2 }}
-                  className="text-lg text-neutral-200 leading-relaxed whitespace-pre-wrap"
                 >
-                  {content}
+                  <div className="text-lg text-neutral-200 leading-relaxed">
+                    <Markdown text={cited.text} citations={cited.citations} onTermClick={onExplore} />
+                    {isStreaming && <StreamingCursor />}
+                  </div>
+                  {!isStreaming && <Footnotes citations={cited.citations} className="mt-8 pt-6 border-t border-neutral-800" />}
                 </motion.div>
               )}
             </div>
@@ -118,9 +183,9 @@ export function ConceptExplorer({
           {/* Escape hint */}
           <div className="fixed bottom-8 left-1/2 -translate-x-1/2 text-xs text-neutral-600 flex items-center gap-2">
             <span className="border border-neutral-700 rounded px-2 py-0.5">Esc</span>
-            <span>or</span>
+            <span>to close,</span>
             <span className="border border-neutral-700 rounded px-2 py-0.5">←</span>
-            <span>to go back</span>
+            <span>to go back a level · select text to go deeper</span>
           </div>
         </motion.div>
       )}
@@ -128,3 +193,13 @@ export function ConceptExplorer({
   );
 }
 
+
+export function StreamingCursor() {
+  return (
+    <motion.span
+      className="inline-block w-2 h-5 ml-1 align-text-bottom bg-purple-500"
+      animate={{ opacity: [1, 0, 1] }}
+      transition={{ duration: 1, repeat: Infinity }}
+    />
+  );
+}
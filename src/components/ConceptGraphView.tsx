@@ -0,0 +1,200 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { getCategory } from "@/lib/categories";
+import { recentSubgraph, layoutGraph } from "@/lib/conceptGraph";
+import type { ConceptGraph, GraphNode } from "@/types";
+
+interface ConceptGraphViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  graph: ConceptGraph;
+  onExploreConcept: (concept: string) => void;
+  onOpenTopic: (node: GraphNode) => void;
+  onClear: () => void;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 700;
+
+function nodeRadius(node: GraphNode): number {
+  return (node.kind === "topic" ? 9 : 5) + Math.min(Math.sqrt(node.visits) * 2, 10);
+}
+
+function truncate(label: string, max = 28): string {
+  return label.length > max ? `${label.slice(0, max - 1)}…` : label;
+}
+
+// Map of topics read and concepts explored from them; click a node to jump back in
+export function ConceptGraphView({
+  isOpen,
+  onClose,
+  graph,
+  onExploreConcept,
+  onOpenTopic,
+  onClear,
+}: ConceptGraphViewProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const view = useMemo(() => recentSubgraph(graph), [graph]);
+  const positions = useMemo(
+    () =>
+      isOpen
+        ? layoutGraph(
+            view.nodes.map((node) => node.id),
+            [...view.edges, ...view.coOccurrences],
+            { width: WIDTH, height: HEIGHT }
+          )
+        : {},
+    [isOpen, view]
+  );
+
+  // Hovering a node dims everything it isn't linked to
+  const linked = useMemo(() => {
+    if (!hovered) return null;
+    const ids = new Set([hovered]);
+    [...view.edges, ...view.coOccurrences].forEach(({ from, to }) => {
+      if (from === hovered) ids.add(to);
+      if (to === hovered) ids.add(from);
+    });
+    return ids;
+  }, [hovered, view]);
+
+  const dim = (...ids: string[]) => (linked && !ids.every((id) => linked.has(id)) ? 0.15 : 1);
+  const conceptCount = view.nodes.filter((node) => node.kind === "concept").length;
+
+  const handleSelect = (node: GraphNode) => {
+    if (node.kind === "concept") onExploreConcept(node.label);
+    else onOpenTopic(node);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 bg-black z-40 flex flex-col"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-800">
+            <div>
+              <h1 className="text-xl font-semibold">Your map</h1>
+              <p className="text-xs text-neutral-500 mt-1">
+                {view.nodes.length - conceptCount} topics · {conceptCount} concepts · click a node to jump back in
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              {view.nodes.length > 0 && (
+                <button onClick={onClear} className="text-xs text-neutral-600 hover:text-red-400 transition-colors">
+                  Clear
+                </button>
+              )}
+              <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors">
+                ✕
+              </button>
+            </div>
+          </div>
+
+          {view.nodes.length === 0 ? (
+            <p className="text-sm text-neutral-600 text-center py-24">
+              Explore a highlighted term or select text in a topic to start your map.
+            </p>
+          ) : (
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              preserveAspectRatio="xMidYMid meet"
+              className="flex-1 w-full"
+            >
+              {/* Concepts that keep turning up together across topics */}
+              {view.coOccurrences.map(({ from, to, shared }) => (
+                <line
+                  key={`co:${from}:${to}`}
+                  x1={positions[from]?.x}
+                  y1={positions[from]?.y}
+                  x2={positions[to]?.x}
+                  y2={positions[to]?.y}
+                  className="stroke-neutral-600"
+                  strokeWidth={Math.min(shared, 4)}
+                  strokeDasharray="2 4"
+                  opacity={dim(from, to)}
+                />
+              ))}
+
+              {view.edges.map((edge) => (
+                <line
+                  key={`${edge.kind}:${edge.from}:${edge.to}`}
+                  x1={positions[edge.from]?.x}
+                  y1={positions[edge.from]?.y}
+                  x2={positions[edge.to]?.x}
+                  y2={positions[edge.to]?.y}
+                  className={edge.kind === "explored" ? "stroke-purple-500/60" : "stroke-neutral-500/60"}
+                  strokeWidth={1 + Math.min(edge.weight, 4) * 0.5}
+                  strokeDasharray={edge.kind === "highlight" ? "6 3" : undefined}
+                  opacity={dim(edge.from, edge.to)}
+                />
+              ))}
+
+              {view.nodes.map((node) => {
+                const position = positions[node.id];
+                if (!position) return null;
+                const r = nodeRadius(node);
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x} ${position.y})`}
+                    onClick={() => handleSelect(node)}
+                    onMouseEnter={() => setHovered(node.id)}
+                    onMouseLeave={() => setHovered(null)}
+                    className="cursor-pointer"
+                    opacity={dim(node.id)}
+                  >
+                    <title>
+                      {node.label} · {node.visits} {node.visits === 1 ? "visit" : "visits"}
+                    </title>
+                    <circle
+                      r={r}
+                      fill="currentColor"
+                      className={node.kind === "topic" ? getCategory(node.category || "general").color : "text-purple-400"}
+                      fillOpacity={node.kind === "topic" ? 0.8 : 0.9}
+                    />
+                    <text
+                      y={r + 12}
+                      textAnchor="middle"
+                      className={node.kind === "topic" ? "fill-neutral-400" : "fill-neutral-200"}
+                      fontSize={node.kind === "topic" ? 11 : 12}
+                    >
+                      {truncate(node.label)}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+
+          {/* Legend */}
+          <div className="flex items-center justify-center gap-6 px-6 py-3 text-[11px] text-neutral-500 border-t border-neutral-800">
+            <span className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full bg-neutral-400" /> Topic
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-purple-400" /> Concept
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="w-5 border-t border-dashed border-neutral-500" /> Highlight
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="w-5 border-t border-purple-500" /> Explored from
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="w-5 border-t border-dotted border-neutral-600" /> Seen together
+            </span>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -2,70 +2,144 @@
 
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-
-interface UserPreferences {
-  likedCategories: Record<string, number>;
-  likedKeywords: Record<string, number>;
-  totalLikes: number;
-}
+import { INTEREST_TAGS, getCategory } from "@/lib/categories";
+import { SYNCED_EVENT, type SyncState } from "@/hooks/useSync";
+import {
+  PREFERENCES_EVENT,
+  unhideSource,
+  withPreferenceDefaults,
+  type UserPreferences,
+} from "@/lib/preferences";
 
 interface InterestsPanelProps {
   isOpen: boolean;
   onClose: () => void;
+  sync: SyncState;
+}
+
+// Sign in / out and sync status
+function AccountSection({ sync }: { sync: SyncState }) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    const error = await sync.signIn(email, password);
+    setIsSubmitting(false);
+    setSignInError(error);
+    if (!error) setPassword("");
+  };
+
+  if (sync.status === "loading") return null;
+
+  return (
+    <section>
+      <h2 className="text-sm text-neutral-500 uppercase tracking-wider mb-3">
+        🔄 Sync
+      </h2>
+      {sync.user ? (
+        <div className="space-y-2">
+          <p className="text-sm text-white">Signed in as {sync.user.email}</p>
+          <p className="text-xs text-neutral-600">
+            {sync.isSyncing
+              ? "Syncing..."
+              : sync.error
+                ? sync.error
+                : sync.lastSyncedAt
+                  ? `Last synced ${new Date(sync.lastSyncedAt).toLocaleTimeString()}`
+                  : "Not synced yet"}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={sync.syncNow}
+              disabled={sync.isSyncing}
+              className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              Sync now
+            </button>
+            <button
+              onClick={sync.signOut}
+              className="text-xs text-neutral-600 hover:text-neutral-400"
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+          className="space-y-2"
+        >
+          <p className="text-xs text-neutral-600 mb-4">
+            Sign in to keep likes and preferences in sync across devices. New emails create an account.
+          </p>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            autoComplete="email"
+            className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-2 text-sm text-white placeholder-neutral-600 focus:outline-none focus:border-purple-500"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password (8+ characters)"
+            autoComplete="current-password"
+            className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-2 text-sm text-white placeholder-neutral-600 focus:outline-none focus:border-purple-500"
+          />
+          {signInError && <p className="text-xs text-red-400">{signInError}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting || !email || !password}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? "Signing in..." : "Sign in"}
+          </button>
+        </form>
+      )}
+    </section>
+  );
 }
 
-const INTEREST_TAGS = [
-  "AI & Machine Learning",
-  "Space & Astronomy",
-  "Science & Research",
-  "Technology",
-  "Finance & Economics",
-  "Health & Wellness",
-  "Philosophy",
-  "Psychology",
-  "History",
-  "Politics",
-  "Sports",
-  "Entertainment",
-  "Climate & Environment",
-  "Art & Culture",
-  "Food & Cooking",
-  "Travel",
-  "Business",
-  "Startups",
-];
-
-export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
+export function InterestsPanel({ isOpen, onClose, sync }: InterestsPanelProps) {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
   const [customPrompt, setCustomPrompt] = useState("");
   const [location, setLocation] = useState<string | null>(null);
+  const [feeds, setFeeds] = useState<string[]>([]);
+  const [feedInput, setFeedInput] = useState("");
+  const [feedError, setFeedError] = useState<string | null>(null);
 
-  // Load preferences from localStorage
+  // Load preferences from localStorage (again after a sync merges in other devices' data)
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem("vibescroll_preferences");
-      if (saved) {
-        setPreferences(JSON.parse(saved));
-      }
-      
-      const savedTags = localStorage.getItem("vibescroll_interest_tags");
-      if (savedTags) {
-        setSelectedTags(new Set(JSON.parse(savedTags)));
-      }
-      
-      const savedPrompt = localStorage.getItem("vibescroll_custom_prompt");
-      if (savedPrompt) {
-        setCustomPrompt(savedPrompt);
-      }
-      
-      const savedLocation = localStorage.getItem("vibescroll_location");
-      if (savedLocation) {
-        setLocation(savedLocation);
+    const load = () => {
+      try {
+        const saved = localStorage.getItem("vibescroll_preferences");
+        setPreferences(saved ? withPreferenceDefaults(JSON.parse(saved)) : null);
+
+        const savedTags = localStorage.getItem("vibescroll_interest_tags");
+        setSelectedTags(new Set(savedTags ? JSON.parse(savedTags) : []));
+
+        setCustomPrompt(localStorage.getItem("vibescroll_custom_prompt") || "");
+        setLocation(localStorage.getItem("vibescroll_location"));
+
+        const savedFeeds = localStorage.getItem("vibescroll_feeds");
+        setFeeds(savedFeeds ? JSON.parse(savedFeeds) : []);
+      } catch (e) {
+        console.error("Failed to load preferences:", e);
       }
-    } catch (e) {
-      console.error("Failed to load preferences:", e);
-    }
+    };
+
+    load();
+    window.addEventListener(SYNCED_EVENT, load);
+    return () => window.removeEventListener(SYNCED_EVENT, load);
   }, [isOpen]);
 
   // Get user's location
@@ -108,11 +182,47 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
     });
   };
 
+  // Add an RSS/Atom feed URL
+  const addFeed = () => {
+    const url = feedInput.trim();
+    if (!url) return;
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error();
+    } catch {
+      setFeedError("Enter a full http(s) feed URL");
+      return;
+    }
+    if (!feeds.includes(url)) {
+      const newFeeds = [...feeds, url];
+      setFeeds(newFeeds);
+      localStorage.setItem("vibescroll_feeds", JSON.stringify(newFeeds));
+    }
+    setFeedInput("");
+    setFeedError(null);
+  };
+
+  // Remove a feed URL
+  const removeFeed = (url: string) => {
+    const newFeeds = feeds.filter((f) => f !== url);
+    setFeeds(newFeeds);
+    localStorage.setItem("vibescroll_feeds", JSON.stringify(newFeeds));
+  };
+
   // Save custom prompt
   const savePrompt = () => {
     localStorage.setItem("vibescroll_custom_prompt", customPrompt);
   };
 
+  // Bring a hidden source back
+  const handleUnhideSource = (source: string) => {
+    if (!preferences) return;
+    const updated = unhideSource(preferences, source);
+    setPreferences(updated);
+    localStorage.setItem("vibescroll_preferences", JSON.stringify(updated));
+    window.dispatchEvent(new Event(PREFERENCES_EVENT));
+  };
+
   // Get top categories from preferences
   const topCategories = preferences
     ? Object.entries(preferences.likedCategories)
@@ -127,6 +237,22 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
         .slice(0, 10)
     : [];
 
+  // What "not interested" has taught us
+  const lessCategories = preferences
+    ? Object.entries(preferences.dislikedCategories)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5)
+    : [];
+  const lessKeywords = preferences
+    ? Object.entries(preferences.dislikedKeywords)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 10)
+    : [];
+  const hiddenSources = preferences?.hiddenSources || [];
+
+  // Signals fade over time, so counts aren't whole numbers
+  const formatWeight = (weight: number) => Math.round(weight * 10) / 10;
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -149,6 +275,9 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
           </div>
 
           <div className="px-6 py-8 max-w-2xl mx-auto space-y-8">
+            {/* Account */}
+            <AccountSection sync={sync} />
+
             {/* Location */}
             <section>
               <h2 className="text-sm text-neutral-500 uppercase tracking-wider mb-3">
@@ -202,6 +331,55 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
               </div>
             </section>
 
+            {/* RSS / Atom Feeds */}
+            <section>
+              <h2 className="text-sm text-neutral-500 uppercase tracking-wider mb-3">
+                📰 Your Feeds
+              </h2>
+              <p className="text-xs text-neutral-600 mb-4">
+                Add RSS or Atom feeds from blogs and journals you follow
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="url"
+                  value={feedInput}
+                  onChange={(e) => setFeedInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addFeed();
+                    }
+                  }}
+                  placeholder="https://example.com/feed.xml"
+                  className="flex-1 bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-2 text-sm text-white placeholder-neutral-600 focus:outline-none focus:border-purple-500"
+                />
+                <button
+                  onClick={addFeed}
+                  className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+              {feedError && (
+                <p className="text-xs text-red-400 mt-2">{feedError}</p>
+              )}
+              {feeds.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                  {feeds.map((url) => (
+                    <li key={url} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-neutral-300 truncate">{url}</span>
+                      <button
+                        onClick={() => removeFeed(url)}
+                        className="text-xs text-neutral-600 hover:text-neutral-400"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
             {/* Custom Prompt */}
             <section>
               <h2 className="text-sm text-neutral-500 uppercase tracking-wider mb-3">
@@ -220,13 +398,13 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
             </section>
 
             {/* Learned Preferences */}
-            {preferences && preferences.totalLikes > 0 && (
+            {(topCategories.length > 0 || topKeywords.length > 0) && (
               <section>
                 <h2 className="text-sm text-neutral-500 uppercase tracking-wider mb-3">
                   🧠 What We&apos;ve Learned
                 </h2>
                 <p className="text-xs text-neutral-600 mb-4">
-                  Based on {preferences.totalLikes} topics you&apos;ve liked
+                  Based on {preferences?.totalLikes || 0} topics you&apos;ve liked and what you read, expand and ask about
                 </p>
 
                 {topCategories.length > 0 && (
@@ -238,7 +416,7 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
                           key={category}
                           className="px-3 py-1 bg-green-600/20 text-green-400 rounded-full text-xs"
                         >
-                          {category} ({count})
+                          {getCategory(category).label} ({formatWeight(count)})
                         </span>
                       ))}
                     </div>
@@ -254,7 +432,7 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
                           key={keyword}
                           className="px-2 py-1 bg-blue-600/20 text-blue-400 rounded text-xs"
                         >
-                          {keyword} ({count})
+                          {keyword} ({formatWeight(count)})
                         </span>
                       ))}
                     </div>
@@ -263,6 +441,69 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
               </section>
             )}
 
+            {/* Less of this */}
+            {(lessCategories.length > 0 || lessKeywords.length > 0 || hiddenSources.length > 0) && (
+              <section>
+                <h2 className="text-sm text-neutral-500 uppercase tracking-wider mb-3">
+                  🙈 Less of This
+                </h2>
+                <p className="text-xs text-neutral-600 mb-4">
+                  From topics you marked not interested - fades over a few weeks
+                </p>
+
+                {lessCategories.length > 0 && (
+                  <div className="mb-4">
+                    <p className="text-xs text-neutral-500 mb-2">Categories:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {lessCategories.map(([category, count]) => (
+                        <span
+                          key={category}
+                          className="px-3 py-1 bg-orange-600/20 text-orange-400 rounded-full text-xs"
+                        >
+                          {getCategory(category).label} ({formatWeight(count)})
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {lessKeywords.length > 0 && (
+                  <div className="mb-4">
+                    <p className="text-xs text-neutral-500 mb-2">Keywords:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {lessKeywords.map(([keyword, count]) => (
+                        <span
+                          key={keyword}
+                          className="px-2 py-1 bg-orange-600/20 text-orange-400 rounded text-xs"
+                        >
+                          {keyword} ({formatWeight(count)})
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {hiddenSources.length > 0 && (
+                  <div>
+                    <p className="text-xs text-neutral-500 mb-2">Hidden sources:</p>
+                    <ul className="space-y-2">
+                      {hiddenSources.map((source) => (
+                        <li key={source} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="text-neutral-300 truncate">{source}</span>
+                          <button
+                            onClick={() => handleUnhideSource(source)}
+                            className="text-xs text-neutral-600 hover:text-neutral-400"
+                          >
+                            Unhide
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </section>
+            )}
+
             {/* Clear Data */}
             <section className="pt-4 border-t border-neutral-800">
               <button
@@ -273,9 +514,13 @@ export function InterestsPanel({ isOpen, onClose }: InterestsPanelProps) {
                     localStorage.removeItem("vibescroll_interest_tags");
                     localStorage.removeItem("vibescroll_custom_prompt");
                     localStorage.removeItem("vibescroll_shown_urls");
+                    localStorage.removeItem("vibescroll_recent_stories");
+                    localStorage.removeItem("vibescroll_engagement");
+                    localStorage.removeItem("vibescroll_interest_samples");
                     setPreferences(null);
                     setSelectedTags(new Set());
                     setCustomPrompt("");
+                    window.dispatchEvent(new Event(PREFERENCES_EVENT));
                   }
                 }}
                 className="text-sm text-red-400 hover:text-red-300 transition-colors"
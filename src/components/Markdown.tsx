@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo } from "react";
+import { CitedText } from "./Citations";
+import { parseMarkdown, inlineText, isExploreTerm, type MarkdownInline } from "@/lib/markdown";
+import type { Citation } from "@/types";
+
+interface MarkdownProps {
+  text: string;
+  citations?: Citation[];
+  // Bold key terms become clickable when set
+  onTermClick?: (term: string) => void;
+  className?: string;
+}
+
+interface InlineProps {
+  nodes: MarkdownInline[];
+  citations: Citation[];
+  onTermClick?: (term: string) => void;
+}
+
+function Inline({ nodes, citations, onTermClick }: InlineProps) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return <CitedText key={i} text={node.text} citations={citations} />;
+          case "code":
+            return (
+              <code key={i} className="px-1 py-0.5 rounded bg-neutral-900 text-[0.9em] text-neutral-300">
+                {node.text}
+              </code>
+            );
+          case "em":
+            return (
+              <em key={i}>
+                <Inline nodes={node.children} citations={citations} onTermClick={onTermClick} />
+              </em>
+            );
+          case "link":
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="text-purple-400 hover:text-purple-300 underline underline-offset-2"
+              >
+                <Inline nodes={node.children} citations={citations} />
+              </a>
+            );
+          case "strong": {
+            const term = inlineText(node.children).replace(/\[\d+\]/g, "").trim();
+            if (onTermClick && isExploreTerm(term)) {
+              return (
+                <button
+                  key={i}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onTermClick(term);
+                  }}
+                  className="highlight-clickable bg-transparent border-none p-0 m-0 font-semibold text-inherit cursor-pointer hover:text-purple-400 transition-colors duration-150"
+                >
+                  <Inline nodes={node.children} citations={citations} />
+                </button>
+              );
+            }
+            return (
+              <strong key={i} className="font-semibold text-white">
+                <Inline nodes={node.children} citations={citations} onTermClick={onTermClick} />
+              </strong>
+            );
+          }
+        }
+      })}
+    </>
+  );
+}
+
+const HEADING_STYLES = ["text-2xl", "text-xl", "text-lg", "text-base", "text-base", "text-base"];
+
+// Renders model markdown as React elements; no raw HTML ever reaches the page
+export function Markdown({ text, citations = [], onTermClick, className = "" }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  const inline = (nodes: MarkdownInline[]) => (
+    <Inline nodes={nodes} citations={citations} onTermClick={onTermClick} />
+  );
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "heading": {
+            // The card or overlay title is the h1
+            const Heading = block.level === 1 ? "h2" : block.level === 2 ? "h3" : "h4";
+            return (
+              <Heading key={i} className={`${HEADING_STYLES[block.level - 1]} font-semibold text-white`}>
+                {inline(block.children)}
+              </Heading>
+            );
+          }
+          case "paragraph":
+            return (
+              <p key={i} className="whitespace-pre-line">
+                {inline(block.children)}
+              </p>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={i} className={`pl-5 space-y-1.5 ${block.ordered ? "list-decimal" : "list-disc"} marker:text-purple-500/70`}>
+                {block.items.map((item, j) => (
+                  <li key={j}>{inline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote key={i} className="border-l-2 border-purple-500/50 pl-4 text-neutral-400 whitespace-pre-line">
+                {inline(block.children)}
+              </blockquote>
+            );
+          case "rule":
+            return <hr key={i} className="border-neutral-800" />;
+        }
+      })}
+    </div>
+  );
+}
@@ -2,13 +2,22 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { Footnotes } from "./Citations";
+import { Markdown } from "./Markdown";
+import { StreamingCursor } from "./ConceptExplorer";
+import type { QATurn } from "@/types";
 
 interface QuestionOverlayProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (question: string) => void;
+  // The last turn's answer is still streaming in
   isLoading?: boolean;
-  answer?: string;
+  // Earlier questions and answers about this topic, oldest first
+  thread?: QATurn[];
+  onClearThread?: () => void;
+  // Explore a bold term from an answer
+  onTermClick?: (term: string) => void;
   position?: { x: number; y: number };
 }
 
@@ -17,11 +26,20 @@ export function QuestionOverlay({
   onClose,
   onSubmit,
   isLoading = false,
-  answer,
+  thread = [],
+  onClearThread,
+  onTermClick,
   position,
 }: QuestionOverlayProps) {
   const [question, setQuestion] = useState("");
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const threadRef = useRef<HTMLDivElement>(null);
+  const lastAnswer = thread[thread.length - 1]?.answer;
+
+  // Keep the newest answer in view as it streams
+  useEffect(() => {
+    if (threadRef.current) threadRef.current.scrollTop = threadRef.current.scrollHeight;
+  }, [thread.length, lastAnswer]);
 
   useEffect(() => {
     if (isOpen && inputRef.current) {
@@ -40,6 +58,7 @@ export function QuestionOverlay({
       e.preventDefault();
       if (question.trim() && !isLoading) {
         onSubmit(question.trim());
+        setQuestion("");
       }
     },
     [question, isLoading, onSubmit]
@@ -80,21 +99,67 @@ export function QuestionOverlay({
             className="fixed z-50 w-full max-w-lg"
             style={{
               left: "50%",
-              top: position ? Math.min(position.y, window.innerHeight - 300) : "40%",
+              // A thread needs the room above the input
+              top: thread.length > 0 ? "8%" : position ? Math.min(position.y, window.innerHeight - 300) : "40%",
               transform: "translateX(-50%)",
             }}
           >
             <div className="bg-neutral-900 border border-neutral-800 rounded-lg p-5 shadow-2xl">
+              {/* Thread so far - follow-ups build on it */}
+              {thread.length > 0 && (
+                <div ref={threadRef} className="max-h-[50vh] overflow-y-auto space-y-5 mb-4 pb-4 border-b border-neutral-800">
+                  {thread.map((turn, i) => {
+                    const isStreaming = isLoading && i === thread.length - 1;
+                    return (
+                      <div key={turn.askedAt}>
+                        <p className="text-sm text-white font-medium mb-2">
+                          <span className="text-purple-400 mr-2">Q</span>
+                          {turn.question}
+                        </p>
+                        {turn.answer ? (
+                          <>
+                            <div className="text-sm text-neutral-300 leading-relaxed">
+                              <Markdown text={turn.answer} citations={turn.citations} onTermClick={onTermClick} />
+                              {isStreaming && <StreamingCursor />}
+                            </div>
+                            {!isStreaming && <Footnotes citations={turn.citations} className="mt-3" />}
+                          </>
+                        ) : (
+                          <motion.p
+                            className="text-sm text-neutral-500"
+                            animate={{ opacity: [0.5, 1, 0.5] }}
+                            transition={{ duration: 1.5, repeat: Infinity }}
+                          >
+                            Searching and thinking...
+                          </motion.p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <form onSubmit={handleSubmit}>
-                <label className="block text-sm text-neutral-400 mb-2">
-                  Ask a question about this topic
-                </label>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-sm text-neutral-400">
+                    {thread.length > 0 ? "Ask a follow-up" : "Ask a question about this topic"}
+                  </label>
+                  {thread.length > 0 && onClearThread && !isLoading && (
+                    <button
+                      type="button"
+                      onClick={onClearThread}
+                      className="text-xs text-neutral-600 hover:text-neutral-300 transition-colors"
+                    >
+                      New thread
+                    </button>
+                  )}
+                </div>
                 <textarea
                   ref={inputRef}
                   value={question}
                   onChange={(e) => setQuestion(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder="What would you like to know?"
+                  placeholder={thread.length > 0 ? "Why? What happens next?" : "What would you like to know?"}
                   className="w-full bg-black border border-neutral-700 rounded-md p-3 text-white placeholder-neutral-600 focus:border-purple-500 focus:outline-none resize-none"
                   rows={2}
                   disabled={isLoading}
@@ -113,22 +178,6 @@ export function QuestionOverlay({
                   </button>
                 </div>
               </form>
-
-              {/* Answer section */}
-              <AnimatePresence>
-                {answer && (
-                  <motion.div
-                    initial={{ opacity: 0, height: 0 }}
-                    animate={{ opacity: 1, height: "auto" }}
-                    exit={{ opacity: 0, height: 0 }}
-                    className="mt-4 pt-4 border-t border-neutral-800"
-                  >
-                    <p className="text-sm text-neutral-300 leading-relaxed whitespace-pre-wrap">
-                      {answer}
-                    </p>
-                  </motion.div>
-                )}
-              </AnimatePresence>
             </div>
           </motion.div>
         </>
@@ -0,0 +1,129 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { CitationMarker, CitedText, Footnotes } from "./Citations";
+import { Markdown } from "./Markdown";
+import type { Citation, ResearchReport } from "@/types";
+
+interface ResearchViewProps {
+  report?: ResearchReport;
+  isLoading: boolean;
+}
+
+// Cited text, followed by any listed sources it doesn't already mark inline
+function Cited({ text, sources, citations }: { text: string; sources: number[]; citations: Citation[] }) {
+  const extra = citations.filter((c) => sources.includes(c.id) && !text.includes(`[${c.id}]`));
+  return (
+    <>
+      <CitedText text={text} citations={citations} />
+      {extra.map((citation) => (
+        <CitationMarker key={citation.id} citation={citation} />
+      ))}
+    </>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="text-xs text-purple-400 uppercase tracking-widest mb-3">{children}</p>
+  );
+}
+
+// Detail depth: synthesis, sub-question findings, timeline, viewpoints and sources
+export function ResearchView({ report, isLoading }: ResearchViewProps) {
+  if (isLoading || !report) {
+    return (
+      <div className="space-y-3">
+        <motion.p
+          className="text-sm text-neutral-500"
+          animate={{ opacity: [0.5, 1, 0.5] }}
+          transition={{ duration: 1.5, repeat: Infinity }}
+        >
+          Researching sub-questions and reading sources...
+        </motion.p>
+        {[1, 2, 3].map((i) => (
+          <motion.div
+            key={i}
+            className="h-4 bg-neutral-900 rounded"
+            style={{ width: `${100 - i * 15}%` }}
+            animate={{ opacity: [0.3, 0.6, 0.3] }}
+            transition={{ duration: 1.5, repeat: Infinity, delay: i * 0.1 }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-8"
+    >
+      <section>
+        <SectionTitle>Synthesis</SectionTitle>
+        <Markdown
+          text={report.synthesis}
+          citations={report.sources}
+          className="text-base text-neutral-200 leading-relaxed"
+        />
+      </section>
+
+      {report.findings.length > 0 && (
+        <section>
+          <SectionTitle>Key Questions</SectionTitle>
+          <div className="space-y-4">
+            {report.findings.map((finding) => (
+              <div key={finding.question}>
+                <p className="text-sm font-medium text-white mb-1">{finding.question}</p>
+                <p className="text-sm text-neutral-400 leading-relaxed">
+                  <Cited text={finding.answer} sources={finding.sources} citations={report.sources} />
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {report.timeline.length > 0 && (
+        <section>
+          <SectionTitle>Timeline</SectionTitle>
+          <ol className="border-l border-neutral-800 space-y-3">
+            {report.timeline.map((item, i) => (
+              <li key={`${item.date}-${i}`} className="pl-4 relative">
+                <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-purple-500/70" />
+                <span className="text-xs text-neutral-500 block">{item.date}</span>
+                <span className="text-sm text-neutral-300">
+                  <Cited text={item.event} sources={item.sources} citations={report.sources} />
+                </span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {report.viewpoints.length > 0 && (
+        <section>
+          <SectionTitle>Viewpoints</SectionTitle>
+          <div className="grid gap-3 md:grid-cols-2">
+            {report.viewpoints.map((view) => (
+              <div key={view.position} className="border border-neutral-800 rounded-lg p-4">
+                <p className="text-sm font-medium text-white mb-2">{view.position}</p>
+                <p className="text-sm text-neutral-400 leading-relaxed">
+                  <Cited text={view.argument} sources={view.sources} citations={report.sources} />
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {report.sources.length > 0 && (
+        <section>
+          <SectionTitle>Sources</SectionTitle>
+          <Footnotes citations={report.sources} />
+        </section>
+      )}
+    </motion.div>
+  );
+}
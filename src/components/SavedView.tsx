@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { getCategory } from "@/lib/categories";
+import { searchLibrary } from "@/lib/library";
+import { parseCitedText } from "@/lib/citations";
+import { Footnotes } from "./Citations";
+import { Markdown } from "./Markdown";
+import type { SavedTopic } from "@/types";
+
+interface SavedViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: SavedTopic[];
+  onArchive: (topicId: string, archived: boolean) => void;
+  onRemove: (topicId: string) => void;
+}
+
+function SavedItem({
+  item,
+  onArchive,
+  onRemove,
+}: {
+  item: SavedTopic;
+  onArchive: (topicId: string, archived: boolean) => void;
+  onRemove: (topicId: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { topic, concepts } = item;
+  const category = getCategory(topic.category);
+
+  return (
+    <li className="border border-neutral-800 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full text-left px-4 py-3 hover:bg-neutral-900 transition-colors rounded-lg"
+      >
+        <div className="flex items-center gap-2 mb-1">
+          <span className={`text-[10px] uppercase tracking-widest ${category.color}`}>
+            {category.label}
+          </span>
+          <span className="text-[10px] text-neutral-600">
+            {topic.source} · saved {new Date(item.savedAt).toLocaleDateString()}
+          </span>
+        </div>
+        <h3 className="text-white font-medium">{topic.title}</h3>
+        {!isOpen && (
+          <p className="text-sm text-neutral-500 line-clamp-2 mt-1">{topic.summary}</p>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <p className="text-sm text-neutral-300 leading-relaxed">{topic.content}</p>
+
+          {topic.expansion?.fullContent && (
+            <div>
+              <h4 className="text-xs text-neutral-500 uppercase tracking-wider mb-2">Deep dive</h4>
+              <Markdown
+                text={topic.expansion.fullContent}
+                citations={topic.expansion.citations || []}
+                className="text-sm text-neutral-400 leading-relaxed"
+              />
+              <Footnotes citations={topic.expansion.citations || []} className="mt-2" />
+            </div>
+          )}
+
+          {concepts.length > 0 && (
+            <div>
+              <h4 className="text-xs text-neutral-500 uppercase tracking-wider mb-2">Explored</h4>
+              <div className="space-y-3">
+                {concepts.map((c) => {
+                  const cited = parseCitedText(c.content);
+                  return (
+                    <details key={`${c.concept}::${c.question || ""}`} className="text-sm">
+                      <summary className="text-purple-400 cursor-pointer">
+                        {c.path && c.path.length > 0 && (
+                          <span className="text-neutral-600">{c.path.join(" › ")} › </span>
+                        )}
+                        {c.concept}
+                        {c.question && <span className="text-neutral-500"> — {c.question}</span>}
+                      </summary>
+                      <Markdown
+                        text={cited.text}
+                        citations={cited.citations}
+                        className="mt-2 text-neutral-400 leading-relaxed"
+                      />
+                      <Footnotes citations={cited.citations} className="mt-2" />
+                    </details>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-4 pt-2">
+            {topic.sourceUrl && (
+              <a
+                href={topic.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-purple-400 hover:text-purple-300"
+              >
+                Read original ↗
+              </a>
+            )}
+            <button
+              onClick={() => onArchive(topic.id, !item.archived)}
+              className="text-xs text-neutral-500 hover:text-neutral-300"
+            >
+              {item.archived ? "Unarchive" : "Archive"}
+            </button>
+            <button
+              onClick={() => onRemove(topic.id)}
+              className="text-xs text-red-400 hover:text-red-300"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+// Reading list of liked topics, with search and an archive
+export function SavedView({ isOpen, onClose, items, onArchive, onRemove }: SavedViewProps) {
+  const [query, setQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  const visible = useMemo(
+    () => searchLibrary(items, query, { archived: showArchived }),
+    [items, query, showArchived]
+  );
+  const archivedCount = items.filter((item) => item.archived).length;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ x: "100%" }}
+          animate={{ x: 0 }}
+          exit={{ x: "100%" }}
+          transition={{ type: "spring", damping: 25, stiffness: 200 }}
+          className="fixed inset-0 bg-black z-40 overflow-y-auto"
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-black/90 backdrop-blur-sm border-b border-neutral-800 px-6 py-4 z-10">
+            <div className="flex items-center justify-between mb-4">
+              <h1 className="text-xl font-semibold">Saved</h1>
+              <button
+                onClick={onClose}
+                className="text-neutral-500 hover:text-white transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search saved topics..."
+              className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-2 text-sm text-white placeholder-neutral-600 focus:outline-none focus:border-purple-500"
+            />
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => setShowArchived(false)}
+                className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                  !showArchived ? "bg-purple-600 text-white" : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                }`}
+              >
+                Saved ({items.length - archivedCount})
+              </button>
+              <button
+                onClick={() => setShowArchived(true)}
+                className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                  showArchived ? "bg-purple-600 text-white" : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                }`}
+              >
+                Archived ({archivedCount})
+              </button>
+            </div>
+          </div>
+
+          <div className="px-6 py-6 max-w-2xl mx-auto">
+            {visible.length > 0 ? (
+              <ul className="space-y-3">
+                {visible.map((item) => (
+                  <SavedItem
+                    key={item.topic.id}
+                    item={item}
+                    onArchive={onArchive}
+                    onRemove={onRemove}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-neutral-600 text-center py-12">
+                {query
+                  ? "Nothing saved matches that search."
+                  : showArchived
+                    ? "No archived topics."
+                    : "Tap the heart on a topic to save it here."}
+              </p>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
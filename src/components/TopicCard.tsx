@@ -3,14 +3,27 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { HighlightedText } from "./HighlightedText";
 import { DepthIndicator } from "./DepthIndicator";
-import type { Topic, TopicHighlight, ViewDepth } from "@/types";
+import { StreamingCursor } from "./ConceptExplorer";
+import { ResearchView } from "./ResearchView";
+import { Footnotes } from "./Citations";
+import { Markdown } from "./Markdown";
+import { getCategory } from "@/lib/categories";
+import { parseCitedText } from "@/lib/citations";
+import { topicSources } from "@/lib/stories";
+import type { ResearchReport, Topic, TopicHighlight, ViewDepth } from "@/types";
 
 interface TopicCardProps {
   topic: Topic;
   depth: ViewDepth;
   expandedContent?: string;
-  detailContent?: string;
+  // Deep dive is still streaming in
+  isExpanding?: boolean;
+  // Research report shown at the detail depth
+  research?: ResearchReport;
+  isResearching?: boolean;
   onHighlightClick: (highlight: TopicHighlight) => void;
+  // Bold terms in the deep dive
+  onTermClick?: (term: string) => void;
   isActive: boolean;
   direction?: "up" | "down";
 }
@@ -19,22 +32,17 @@ export function TopicCard({
   topic,
   depth,
   expandedContent,
-  detailContent,
+  isExpanding = false,
+  research,
+  isResearching = false,
   onHighlightClick,
+  onTermClick,
   isActive,
   direction = "down",
 }: TopicCardProps) {
-  const categoryColors: Record<string, string> = {
-    news: "text-red-400",
-    tech: "text-blue-400",
-    science: "text-green-400",
-    finance: "text-yellow-400",
-    culture: "text-pink-400",
-    politics: "text-orange-400",
-    health: "text-teal-400",
-    sports: "text-indigo-400",
-    general: "text-neutral-400",
-  };
+  const category = getCategory(topic.category);
+  const expansion = expandedContent ? parseCitedText(expandedContent) : null;
+  const otherSources = topicSources(topic).slice(1);
 
   return (
     <motion.div
@@ -59,12 +67,17 @@ export function TopicCard({
       <div className="max-w-3xl mx-auto w-full py-16">
         {/* Category & Timestamp */}
         <div className="flex items-center gap-4 mb-4">
-          <span className={`text-xs uppercase tracking-widest ${categoryColors[topic.category] || "text-neutral-400"}`}>
-            {topic.category}
+          <span className={`text-xs uppercase tracking-widest ${category.color}`}>
+            {category.label}
           </span>
           <span className="text-xs text-neutral-600">
             {formatTimeAgo(topic.timestamp)}
           </span>
+          {topic.perspectives && (
+            <span className="text-xs text-amber-400/80" title="Synthesised from several outlets - go deeper to compare them">
+              {topic.perspectives.length} perspectives
+            </span>
+          )}
         </div>
 
         {/* Title */}
@@ -95,29 +108,10 @@ export function TopicCard({
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               transition={{ duration: 0.2 }}
-            >
-              {/* Full content with clickable highlights - no deep dive yet */}
-              <div className="text-lg text-neutral-200 leading-relaxed">
-                <HighlightedText
-                  content={topic.content}
-                  highlights={topic.highlights}
-                  onHighlightClick={onHighlightClick}
-                />
-              </div>
-            </motion.div>
-          )}
-
-          {depth === "detail" && (
-            <motion.div
-              key="detail"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              transition={{ duration: 0.2 }}
               className="space-y-6"
             >
-              {/* Original content */}
-              <div className="text-lg text-neutral-300 leading-relaxed">
+              {/* Full content with clickable highlights */}
+              <div className="text-lg text-neutral-200 leading-relaxed">
                 <HighlightedText
                   content={topic.content}
                   highlights={topic.highlights}
@@ -125,8 +119,32 @@ export function TopicCard({
                 />
               </div>
               
-              {/* Deep dive research */}
-              {(expandedContent || detailContent) && (
+              {/* How each outlet framed the story (perspectives cards) */}
+              {topic.perspectives && (
+                <div className="pt-6 border-t border-neutral-800">
+                  <p className="text-xs text-amber-400 uppercase tracking-widest mb-3">
+                    Perspectives
+                  </p>
+                  <ul className="space-y-3">
+                    {topic.perspectives.map((perspective) => (
+                      <li key={perspective.url} className="text-sm text-neutral-300 leading-relaxed">
+                        <a
+                          href={perspective.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium text-white hover:text-amber-300 transition-colors"
+                        >
+                          {perspective.source}
+                        </a>
+                        {" "}- {perspective.framing}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Deep dive, streamed in */}
+              {expansion?.text && (
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -134,27 +152,64 @@ export function TopicCard({
                   className="pt-6 border-t border-neutral-800"
                 >
                   <p className="text-xs text-purple-400 uppercase tracking-widest mb-3">
-                    Deep Dive
+                    Context
                   </p>
-                  <div className="text-base text-neutral-200 leading-relaxed whitespace-pre-wrap">
-                    {detailContent || expandedContent}
+                  <div className="text-base text-neutral-200 leading-relaxed">
+                    <Markdown text={expansion.text} citations={expansion.citations} onTermClick={onTermClick} />
+                    {isExpanding && <StreamingCursor />}
                   </div>
+                  <Footnotes citations={expansion.citations} className="mt-4" />
                 </motion.div>
               )}
             </motion.div>
           )}
+
+          {depth === "detail" && (
+            <motion.div
+              key="detail"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              {/* Deep research: sub-questions, cited synthesis, timeline, viewpoints */}
+              <ResearchView report={research} isLoading={isResearching} />
+            </motion.div>
+          )}
         </AnimatePresence>
 
         {/* Source */}
-        <div className="mt-8 flex items-center justify-between">
-          <a
-            href={topic.sourceUrl}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-sm text-neutral-600 hover:text-neutral-400 transition-colors"
-          >
-            Source: {topic.source}
-          </a>
+        <div className="mt-8 flex items-center justify-between gap-4">
+          <p className="text-sm text-neutral-600">
+            <a
+              href={topic.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-neutral-400 transition-colors"
+            >
+              Source: {topic.source}
+            </a>
+            {/* Other outlets covering the same story, merged into this card */}
+            {otherSources.length > 0 && (
+              <>
+                {" "}· also{" "}
+                {otherSources.map((source, idx) => (
+                  <span key={source.url}>
+                    {idx > 0 && ", "}
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={source.title}
+                      className="hover:text-neutral-400 transition-colors"
+                    >
+                      {source.name}
+                    </a>
+                  </span>
+                ))}
+              </>
+            )}
+          </p>
           <DepthIndicator currentDepth={depth} />
         </div>
       </div>
@@ -8,11 +8,16 @@ import { LoadingState } from "./LoadingState";
 import { QuestionOverlay } from "./QuestionOverlay";
 import { ConceptExplorer } from "./ConceptExplorer";
 import { InterestsPanel } from "./InterestsPanel";
+import { SavedView } from "./SavedView";
+import { ConceptGraphView } from "./ConceptGraphView";
 import { useTopicFeed } from "@/hooks/useTopicFeed";
 import { useKeyboardNavigation } from "@/hooks/useKeyboardNavigation";
 import { useSwipeGestures } from "@/hooks/useSwipeGestures";
 import { useTextSelection } from "@/hooks/useTextSelection";
-import type { TopicHighlight } from "@/types";
+import { useSync } from "@/hooks/useSync";
+import { useLibrary } from "@/hooks/useLibrary";
+import { useConceptGraph } from "@/hooks/useConceptGraph";
+import type { GraphEdge, GraphNode, TopicHighlight } from "@/types";
 
 export function TopicFeed() {
   const {
@@ -24,35 +29,64 @@ export function TopicFeed() {
     isLoadingMore,
     error,
     expandedContent,
-    detailContent,
+    research,
+    isResearching,
     direction,
     navigate,
+    goToTopic,
     handleHighlightClick,
     resetDepth,
     refetch,
     exploreConcept,
     conceptContent,
     isExploringConcept,
+    isStreamingConcept,
+    isExpanding,
     currentConcept,
+    conceptTrail,
+    goToConcept,
+    popConcept,
     clearConceptExploration,
+    thread,
+    isAsking,
+    askQuestion,
+    clearThread,
     mode,
     likeTopic,
+    unlikeTopic,
+    dislikeTopic,
+    hideTopicSource,
     isLiked,
+    getTopicSnapshot,
   } = useTopicFeed();
 
+  // Optional account: syncs likes and preferences across devices when signed in
+  const sync = useSync();
+
+  // Saved topics - liking a topic saves it to the library
+  const { items: savedItems, save, remove, archive, isSaved } = useLibrary();
+
+  // Concept graph - every exploration is linked to its topic (or the concept it came from)
+  const { graph, record: recordExploration, clear: clearGraph } = useConceptGraph();
+
+  const explore = useCallback((concept: string, question?: string, via: GraphEdge["kind"] = "explored") => {
+    if (currentTopic) {
+      const parent = conceptTrail[conceptTrail.length - 1]?.concept;
+      recordExploration({ topic: currentTopic, concept, parent, via });
+    }
+    exploreConcept(concept, question);
+  }, [currentTopic, conceptTrail, recordExploration, exploreConcept]);
+
   // Text selection for exploring concepts
   const { selectedText, hasSelection, clearSelection } = useTextSelection();
 
-  // Question overlay state
+  // Question overlay state - the thread itself lives with the topic in useTopicFeed
   const [questionState, setQuestionState] = useState<{
     isOpen: boolean;
     position?: { x: number; y: number };
-    isLoading: boolean;
-    answer?: string;
     selectedText?: string;
   }>({
     isOpen: false,
-    isLoading: false,
   });
 
   // Selection input state - shows at bottom when text is selected
@@ -70,47 +104,51 @@ export function TopicFeed() {
   // Interests panel state
   const [showInterests, setShowInterests] = useState(false);
 
-  // Handle question submission (includes selected text context)
-  const handleQuestionSubmit = useCallback(async (question: string, selectedTextOverride?: string) => {
-    if (!currentTopic) return;
-
-    const contextText = selectedTextOverride || questionState.selectedText || selectionInput.text;
-    
-    setQuestionState((prev) => ({ ...prev, isLoading: true, isOpen: true }));
-
-    try {
-      const response = await fetch("/api/ask", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          topicId: currentTopic.id,
-          question,
-          selectedText: contextText,
-          topicContext: currentTopic.content,
-        }),
-      });
-
-      if (!response.ok) throw new Error("Failed to get answer");
-      
-      const data = await response.json();
-      
-      setQuestionState((prev) => ({
-        ...prev,
-        isLoading: false,
-        answer: data.answer,
-      }));
-    } catch {
-      setQuestionState((prev) => ({
-        ...prev,
-        isLoading: false,
-        answer: "Sorry, I couldn't find an answer to that question.",
-      }));
+  // Saved view state
+  const [showSaved, setShowSaved] = useState(false);
+
+  // Concept graph view state
+  const [showGraph, setShowGraph] = useState(false);
+
+  // Like also saves the full topic; unliking removes it from the library
+  const handleLike = useCallback((topicId: string) => {
+    if (isLiked(topicId)) {
+      remove(topicId);
+    } else {
+      const snapshot = getTopicSnapshot(topicId);
+      if (snapshot) save(snapshot);
     }
-  }, [currentTopic, questionState.selectedText, selectionInput.text]);
+    likeTopic(topicId);
+  }, [isLiked, likeTopic, getTopicSnapshot, save, remove]);
+
+  // "Not interested" takes back a like, so the topic leaves the library too
+  const handleDislike = useCallback((topicId: string) => {
+    if (isSaved(topicId)) remove(topicId);
+    dislikeTopic(topicId);
+  }, [isSaved, remove, dislikeTopic]);
+
+  const handleRemoveSaved = useCallback((topicId: string) => {
+    remove(topicId);
+    unlikeTopic(topicId);
+  }, [remove, unlikeTopic]);
+
+  // Keep a saved topic's snapshot current as its deep dive and concepts arrive
+  useEffect(() => {
+    if (!currentTopic || isExpanding || isAsking || !isSaved(currentTopic.id)) return;
+    const snapshot = getTopicSnapshot(currentTopic.id);
+    if (snapshot) save(snapshot);
+  }, [currentTopic, isExpanding, isAsking, isSaved, getTopicSnapshot, save]);
+
+  // Handle question submission (includes selected text context); follow-ups join the thread
+  const handleQuestionSubmit = useCallback((question: string) => {
+    const contextText = questionState.selectedText || selectionInput.text || undefined;
+    setQuestionState((prev) => ({ ...prev, isOpen: true }));
+    askQuestion(question, contextText);
+  }, [askQuestion, questionState.selectedText, selectionInput.text]);
 
   // Auto-show input bar when text is selected
   useEffect(() => {
-    if (hasSelection && selectedText && selectedText.length > 2 && !selectionInput.text) {
+    if (hasSelection && selectedText && selectedText.length > 2 && selectedText !== selectionInput.text) {
       // Show input bar immediately when text is selected
       const timer = setTimeout(() => {
         setSelectionInput({ text: selectedText, question: "" });
@@ -134,17 +172,16 @@ export function TopicFeed() {
   // Handle Enter key
   const handleEnter = useCallback(() => {
     if (selectionInput.text) {
-      // Selection input is active - always use explore view
+      // Selection input is active - always use explore view (a level deeper if it's open)
       const question = selectionInput.question.trim() || undefined;
-      exploreConcept(selectionInput.text, question);
-      // DON'T clear selectionInput.text here - keep it for the purple indicator at top
-      // Only clear the question input
-      setSelectionInput(prev => ({ ...prev, question: "" }));
+      explore(selectionInput.text, question);
+      // The explorer's breadcrumbs show what's being explored now
+      setSelectionInput({ text: "", question: "" });
     } else {
       // Default: go deeper (same as right arrow)
       navigate("right");
     }
-  }, [exploreConcept, navigate, selectionInput]);
+  }, [explore, navigate, selectionInput]);
 
   // Handle closing explore - also clears selection
   const handleCloseExplore = useCallback(() => {
@@ -157,16 +194,20 @@ export function TopicFeed() {
     onNavigate: navigate,
     onEnter: handleEnter,
     onEscape: () => {
-      if (showInterests) {
+      if (showGraph) {
+        setShowGraph(false);
+      } else if (showSaved) {
+        setShowSaved(false);
+      } else if (showInterests) {
         setShowInterests(false);
+      } else if (selectionInput.text) {
+        // Drop a selection first, so Esc inside the explorer doesn't close it
+        setSelectionInput({ text: "", question: "" });
       } else if (currentConcept) {
         // Close explore and clear selection
         handleCloseExplore();
-      } else if (selectionInput.text && !currentConcept) {
-        // Only clear selection if not in explore mode
-        setSelectionInput({ text: "", question: "" });
       } else if (questionState.isOpen) {
-        setQuestionState({ isOpen: false, isLoading: false });
+        setQuestionState({ isOpen: false });
       } else {
         resetDepth();
       }
@@ -179,21 +220,45 @@ export function TopicFeed() {
     onLongPress: (pos) => {
       // If text is selected, explore it; otherwise open question overlay
       if (hasSelection && selectedText) {
-        exploreConcept(selectedText);
+        explore(selectedText);
         clearSelection();
       } else {
         setQuestionState({
           isOpen: true,
           position: { x: pos.clientX, y: pos.clientY },
-          isLoading: false,
         });
       }
     },
   });
 
   const handleHighlight = useCallback((highlight: TopicHighlight) => {
+    if (currentTopic) recordExploration({ topic: currentTopic, concept: highlight.text, via: "highlight" });
     handleHighlightClick(highlight);
-  }, [handleHighlightClick]);
+  }, [currentTopic, recordExploration, handleHighlightClick]);
+
+  // Bold key terms in generated text open the concept explorer
+  const handleTermClick = useCallback((term: string) => {
+    explore(term);
+  }, [explore]);
+
+  // From an answer, the explorer replaces the question overlay
+  const handleAnswerTermClick = useCallback((term: string) => {
+    setQuestionState({ isOpen: false });
+    explore(term);
+  }, [explore]);
+
+  // Jumping back in from the graph: concepts reopen in the explorer, topics in the feed
+  const handleGraphConcept = useCallback((concept: string) => {
+    setShowGraph(false);
+    exploreConcept(concept);
+  }, [exploreConcept]);
+
+  const handleGraphTopic = useCallback((node: GraphNode) => {
+    setShowGraph(false);
+    if (node.topicId && goToTopic(node.topicId)) return;
+    // No longer in the feed - the original article is the way back
+    if (node.sourceUrl) window.open(node.sourceUrl, "_blank", "noopener,noreferrer");
+  }, [goToTopic]);
 
   if (isLoading) {
     return <LoadingState />;
@@ -259,9 +324,9 @@ export function TopicFeed() {
       {/* Heart/Like button - fixed position */}
       {currentTopic && (
         <button
-          onClick={() => likeTopic(currentTopic.id)}
+          onClick={() => handleLike(currentTopic.id)}
           className="fixed bottom-24 right-6 z-20 p-3 rounded-full bg-neutral-800/80 backdrop-blur-sm border border-neutral-700 hover:border-pink-500/50 transition-all hover:scale-110"
-          title={isLiked(currentTopic.id) ? "Unlike" : "Like this topic"}
+          title={isLiked(currentTopic.id) ? "Unlike and remove from saved" : "Like and save this topic"}
         >
           <svg 
             className={`w-6 h-6 transition-colors ${isLiked(currentTopic.id) ? 'text-pink-500 fill-pink-500' : 'text-white/50 hover:text-pink-400'}`}
@@ -274,6 +339,30 @@ export function TopicFeed() {
         </button>
       )}
 
+      {/* Less-of-this controls, stacked above the heart */}
+      {currentTopic && (
+        <>
+          <button
+            onClick={() => hideTopicSource(currentTopic.id)}
+            className="fixed bottom-[13.5rem] right-7 z-20 p-2 rounded-full bg-neutral-800/80 backdrop-blur-sm border border-neutral-700 hover:border-red-500/50 transition-all hover:scale-110"
+            title={`Hide everything from ${currentTopic.source}`}
+          >
+            <svg className="w-5 h-5 text-white/50 hover:text-red-400 transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+            </svg>
+          </button>
+          <button
+            onClick={() => handleDislike(currentTopic.id)}
+            className="fixed bottom-40 right-7 z-20 p-2 rounded-full bg-neutral-800/80 backdrop-blur-sm border border-neutral-700 hover:border-orange-500/50 transition-all hover:scale-110"
+            title="Not interested - show less like this"
+          >
+            <svg className="w-5 h-5 text-white/50 hover:text-orange-400 transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+            </svg>
+          </button>
+        </>
+      )}
+
       {/* Loading more indicator */}
       {isLoadingMore && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-10 px-3 py-1.5 bg-purple-600/80 rounded-full text-xs text-white flex items-center gap-2">
@@ -292,7 +381,7 @@ export function TopicFeed() {
             initial={{ opacity: 0, y: -20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -20 }}
-            className="fixed top-6 left-1/2 -translate-x-1/2 z-20 px-4 py-2 bg-purple-600/90 backdrop-blur-sm rounded-full text-sm flex items-center gap-2 shadow-lg"
+            className="fixed top-6 left-1/2 -translate-x-1/2 z-40 px-4 py-2 bg-purple-600/90 backdrop-blur-sm rounded-full text-sm flex items-center gap-2 shadow-lg"
           >
             <span className="text-white/70">✨</span>
             <span className="text-white font-medium truncate max-w-[300px]">
@@ -309,7 +398,7 @@ export function TopicFeed() {
             initial={{ opacity: 0, y: 50 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 50 }}
-            className="fixed bottom-0 left-0 right-0 z-30 bg-neutral-900/98 backdrop-blur-md border-t border-purple-500/30 p-4 shadow-2xl"
+            className="fixed bottom-0 left-0 right-0 z-40 bg-neutral-900/98 backdrop-blur-md border-t border-purple-500/30 p-4 shadow-2xl"
           >
             <div className="max-w-2xl mx-auto">
               <div className="flex gap-3">
@@ -358,8 +447,11 @@ export function TopicFeed() {
           topic={currentTopic}
           depth={depth}
           expandedContent={expandedContent}
-          detailContent={detailContent}
+          isExpanding={isExpanding}
+          research={research}
+          isResearching={isResearching}
           onHighlightClick={handleHighlight}
+          onTermClick={handleTermClick}
           isActive={true}
           direction={direction}
         />
@@ -371,13 +463,20 @@ export function TopicFeed() {
         concept={currentConcept || ""}
         content={conceptContent}
         isLoading={isExploringConcept}
+        isStreaming={isStreamingConcept}
         onClose={handleCloseExplore}
+        onExplore={handleTermClick}
+        topicTitle={currentTopic.title}
+        trail={conceptTrail}
+        onBack={popConcept}
+        onJump={goToConcept}
       />
 
       {/* Interests Panel */}
       <InterestsPanel
         isOpen={showInterests}
         onClose={() => setShowInterests(false)}
+        sync={sync}
       />
 
       {/* Interests button - left side */}
@@ -396,16 +495,69 @@ export function TopicFeed() {
         </svg>
       </button>
 
+      {/* Saved view */}
+      <SavedView
+        isOpen={showSaved}
+        onClose={() => setShowSaved(false)}
+        items={savedItems}
+        onArchive={archive}
+        onRemove={handleRemoveSaved}
+      />
+
+      {/* Saved button - next to interests */}
+      <button
+        onClick={() => setShowSaved(true)}
+        className="fixed top-6 left-16 z-10 p-2 hover:bg-white/10 rounded-full transition-colors group"
+        title="Saved topics"
+      >
+        <svg 
+          className="w-5 h-5 text-white/50 group-hover:text-purple-400 transition-colors"
+          fill="none" 
+          stroke="currentColor" 
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+        </svg>
+      </button>
+
+      {/* Concept graph view */}
+      <ConceptGraphView
+        isOpen={showGraph}
+        onClose={() => setShowGraph(false)}
+        graph={graph}
+        onExploreConcept={handleGraphConcept}
+        onOpenTopic={handleGraphTopic}
+        onClear={clearGraph}
+      />
+
+      {/* Graph button - next to saved */}
+      <button
+        onClick={() => setShowGraph(true)}
+        className="fixed top-6 left-26 z-10 p-2 hover:bg-white/10 rounded-full transition-colors group"
+        title="Your map of explored concepts"
+      >
+        <svg 
+          className="w-5 h-5 text-white/50 group-hover:text-purple-400 transition-colors"
+          fill="none" 
+          stroke="currentColor" 
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+        </svg>
+      </button>
+
       {/* Navigation hints */}
       <NavigationHints />
 
       {/* Question overlay */}
       <QuestionOverlay
         isOpen={questionState.isOpen}
-        onClose={() => setQuestionState({ isOpen: false, isLoading: false })}
+        onClose={() => setQuestionState({ isOpen: false })}
         onSubmit={handleQuestionSubmit}
-        isLoading={questionState.isLoading}
-        answer={questionState.answer}
+        isLoading={isAsking}
+        thread={thread}
+        onClearThread={clearThread}
+        onTermClick={handleAnswerTermClick}
         position={questionState.position}
       />
     </div>
@@ -0,0 +1,26 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { ConceptGraph } from "@/types";
+import { emptyGraph, recordExploration, type Exploration } from "@/lib/conceptGraph";
+import { createLocalStore } from "@/lib/localStore";
+
+const graphStore = createLocalStore<ConceptGraph>("vibescroll_concept_graph", emptyGraph());
+
+// Topics and the concepts explored from them, persisted in localStorage
+export function useConceptGraph() {
+  // Empty on the server and while hydrating, then the stored graph
+  const graph = useSyncExternalStore(graphStore.subscribe, graphStore.getSnapshot, graphStore.getServerSnapshot);
+
+  const record = useCallback((exploration: Exploration) => {
+    const prev = graphStore.getSnapshot();
+    const next = recordExploration(prev, exploration);
+    if (next !== prev) graphStore.set(next);
+  }, []);
+
+  const clear = useCallback(() => {
+    graphStore.set(emptyGraph());
+  }, []);
+
+  return { graph, record, clear };
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { SavedTopic } from "@/types";
+import {
+  upsertSavedTopic,
+  removeSavedTopic,
+  setArchived,
+  type TopicSnapshot,
+} from "@/lib/library";
+import { createLocalStore } from "@/lib/localStore";
+
+const NO_ITEMS: SavedTopic[] = [];
+const libraryStore = createLocalStore<SavedTopic[]>("vibescroll_library", NO_ITEMS);
+
+// Saved topics, persisted in localStorage
+export function useLibrary() {
+  // Empty on the server and while hydrating, then the stored list
+  const items = useSyncExternalStore(
+    libraryStore.subscribe,
+    libraryStore.getSnapshot,
+    libraryStore.getServerSnapshot
+  );
+
+  const update = useCallback((change: (items: SavedTopic[]) => SavedTopic[]) => {
+    const prev = libraryStore.getSnapshot();
+    const next = change(prev);
+    if (next !== prev) libraryStore.set(next);
+  }, []);
+
+  const save = useCallback((snapshot: TopicSnapshot) => {
+    update((prev) => upsertSavedTopic(prev, snapshot));
+  }, [update]);
+
+  const remove = useCallback((topicId: string) => {
+    update((prev) => removeSavedTopic(prev, topicId));
+  }, [update]);
+
+  const archive = useCallback((topicId: string, archived: boolean) => {
+    update((prev) => setArchived(prev, topicId, archived));
+  }, [update]);
+
+  const isSaved = useCallback(
+    (topicId: string) => items.some((item) => item.topic.id === topicId),
+    [items]
+  );
+
+  return { items, save, remove, archive, isSaved };
+}
+
+export type LibraryState = ReturnType<typeof useLibrary>;
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useCallback, useEffect, useSyncExternalStore } from "react";
+import { useSession, signIn, signOut } from "next-auth/react";
+import { normalizeSyncData, type SyncData } from "@/lib/sync";
+
+// What this device last received from /api/sync, per account (merge base)
+const SYNC_BASE_KEY = "vibescroll_sync_base";
+// Fired after synced data is written to localStorage so hooks can reload it
+export const SYNCED_EVENT = "vibescroll:synced";
+
+const SYNC_INTERVAL_MS = 2 * 60 * 1000;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Collect the synced records from their localStorage keys
+function readLocalSyncData(): SyncData {
+  return normalizeSyncData({
+    likes: readJson("vibescroll_likes", []),
+    preferences: readJson("vibescroll_preferences", {}),
+    interestTags: readJson("vibescroll_interest_tags", []),
+    location: localStorage.getItem("vibescroll_location") || "",
+    customPrompt: localStorage.getItem("vibescroll_custom_prompt") || "",
+    shownUrls: readJson<{ urls?: string[] }>("vibescroll_shown_urls", {}).urls || [],
+    feeds: readJson("vibescroll_feeds", []),
+  });
+}
+
+// Write merged data back in the formats the rest of the app reads
+function writeLocalSyncData(data: SyncData) {
+  localStorage.setItem("vibescroll_likes", JSON.stringify(data.likes));
+  localStorage.setItem("vibescroll_preferences", JSON.stringify(data.preferences));
+  localStorage.setItem("vibescroll_interest_tags", JSON.stringify(data.interestTags));
+  localStorage.setItem("vibescroll_feeds", JSON.stringify(data.feeds));
+  localStorage.setItem("vibescroll_shown_urls", JSON.stringify({ urls: data.shownUrls, timestamp: Date.now() }));
+  if (data.location) localStorage.setItem("vibescroll_location", data.location);
+  else localStorage.removeItem("vibescroll_location");
+  if (data.customPrompt) localStorage.setItem("vibescroll_custom_prompt", data.customPrompt);
+  else localStorage.removeItem("vibescroll_custom_prompt");
+}
+
+// Every key writeLocalSyncData fills
+const SYNCED_KEYS = [
+  "vibescroll_likes",
+  "vibescroll_preferences",
+  "vibescroll_interest_tags",
+  "vibescroll_feeds",
+  "vibescroll_shown_urls",
+  "vibescroll_location",
+  "vibescroll_custom_prompt",
+];
+
+function readBase(userId: string): SyncData | undefined {
+  const saved = readJson<{ userId?: string; data?: unknown } | null>(SYNC_BASE_KEY, null);
+  return saved?.userId === userId ? normalizeSyncData(saved.data) : undefined;
+}
+
+export type SyncOutcome = { ok: true; updatedAt: number } | { ok: false; error: string };
+
+// The sync in progress, shared so callers (and sign-out) wait for it instead of racing it
+let inFlight: Promise<SyncOutcome> | null = null;
+const inFlightListeners = new Set<() => void>();
+
+function setInFlight(sync: Promise<SyncOutcome> | null) {
+  inFlight = sync;
+  inFlightListeners.forEach((listener) => listener());
+}
+
+function subscribeInFlight(listener: () => void) {
+  inFlightListeners.add(listener);
+  return () => {
+    inFlightListeners.delete(listener);
+  };
+}
+
+// Push this device's data, merge on the server, and take the result
+async function pushAndMerge(userId: string): Promise<SyncOutcome> {
+  try {
+    const response = await fetch("/api/sync", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ data: readLocalSyncData(), base: readBase(userId) }),
+    });
+    if (!response.ok) throw new Error(`Sync failed (${response.status})`);
+
+    const { data, updatedAt } = await response.json();
+    writeLocalSyncData(data);
+    localStorage.setItem(SYNC_BASE_KEY, JSON.stringify({ userId, data }));
+    window.dispatchEvent(new Event(SYNCED_EVENT));
+    return { ok: true, updatedAt };
+  } catch (err) {
+    console.error("Sync error:", err);
+    return { ok: false, error: err instanceof Error ? err.message : "Sync failed" };
+  }
+}
+
+// One sync at a time: joins the running one if there is one
+export function syncDevice(userId: string): Promise<SyncOutcome> {
+  if (!inFlight) {
+    setInFlight(pushAndMerge(userId).finally(() => setInFlight(null)));
+  }
+  return inFlight!;
+}
+
+// Before signing out: wait for a running sync, push once more (changes made
+// since it started would otherwise be lost), and only after the server has
+// confirmed take the account's data off the device - with no merge base,
+// whoever signs in next would otherwise have it merged into theirs.
+// Local data is left alone when the push fails.
+export async function syncAndClearDevice(userId: string): Promise<SyncOutcome> {
+  if (inFlight) await inFlight;
+  const outcome = await syncDevice(userId);
+  if (outcome.ok) clearDeviceData();
+  return outcome;
+}
+
+function clearDeviceData() {
+  SYNCED_KEYS.forEach((key) => localStorage.removeItem(key));
+  localStorage.removeItem(SYNC_BASE_KEY);
+  window.dispatchEvent(new Event(SYNCED_EVENT));
+}
+
+export function useSync() {
+  const { data: session, status } = useSession();
+  const userId = session?.user?.id ?? null;
+  const isSyncing = useSyncExternalStore(subscribeInFlight, () => inFlight !== null, () => false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyOutcome = useCallback((outcome: SyncOutcome) => {
+    if (outcome.ok) {
+      setLastSyncedAt(outcome.updatedAt);
+      setError(null);
+    } else {
+      setError(outcome.error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (userId) await syncDevice(userId).then(applyOutcome);
+  }, [userId, applyOutcome]);
+
+  // Sync on sign-in, periodically, and when the tab is hidden (closing, switching apps)
+  useEffect(() => {
+    if (!userId) return;
+    syncNow();
+
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") syncNow();
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [userId, syncNow]);
+
+  // Returns an error message, or null on success
+  const signInWithEmail = useCallback(async (email: string, password: string) => {
+    const result = await signIn("credentials", { email, password, redirect: false });
+    if (!result || result.error) {
+      return "Wrong password, or the email/password isn't valid (8+ characters)";
+    }
+    return null;
+  }, []);
+
+  // Signing out clears this device only once its changes are on the server.
+  // If they can't be pushed, the reader decides: stay signed in, or sign out
+  // and lose them.
+  const signOutOfSync = useCallback(async () => {
+    if (userId) {
+      const outcome = await syncAndClearDevice(userId);
+      applyOutcome(outcome);
+      if (!outcome.ok) {
+        const discard = window.confirm(
+          `Couldn't sync your latest changes (${outcome.error}). Sign out anyway and remove them from this device?`
+        );
+        if (!discard) return;
+        clearDeviceData();
+      }
+    }
+    await signOut({ redirect: false });
+  }, [userId, applyOutcome]);
+
+  return {
+    user: session?.user ?? null,
+    status,
+    isSyncing,
+    lastSyncedAt,
+    error,
+    syncNow,
+    signIn: signInWithEmail,
+    signOut: signOutOfSync,
+  };
+}
+
+export type SyncState = ReturnType<typeof useSync>;
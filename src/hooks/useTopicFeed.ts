@@ -1,7 +1,48 @@
 "use client";
 
 import { useState, useCallback, useEffect, useRef } from "react";
-import type { Topic, ViewDepth, TopicHighlight, SwipeDirection, TopicCategory } from "@/types";
+import type { Topic, ViewDepth, TopicHighlight, SwipeDirection, ExploredConcept, QATurn, ResearchReport } from "@/types";
+import { readTextStream, isAbortError } from "@/lib/readTextStream";
+import { SYNCED_EVENT } from "@/hooks/useSync";
+import { addExploredConcept, type TopicSnapshot } from "@/lib/library";
+import {
+  PREFERENCES_EVENT,
+  applyLike,
+  applyDislike,
+  applySignal,
+  avoidedCategories,
+  avoidedKeywords,
+  decayPreferences,
+  hideSource,
+  isFromHiddenSource,
+  preferredCategories,
+  sourceKey,
+  withPreferenceDefaults,
+  type UserPreferences,
+} from "@/lib/preferences";
+import { appendEvents, engagementSignal, summarizeVisit, type EngagementEvent } from "@/lib/engagement";
+import { addSample, encodeSamples, sampleText, type StoredSample } from "@/lib/recommender/samples";
+import { mergeNewTopics, topicSignature, type StoryRecord } from "@/lib/stories";
+import { parseCitedText, withCitations } from "@/lib/citations";
+import {
+  conceptCacheKey,
+  stepTitle,
+  isOnTop,
+  pushStep,
+  updateStep,
+  truncateTrail,
+  pathTo,
+  type ConceptStep,
+} from "@/lib/conceptTrail";
+import {
+  getContentStore,
+  expansionKey,
+  conceptKey,
+  researchKey,
+  threadKey,
+  contentId,
+  type ContentKind,
+} from "@/lib/contentStore";
 
 interface UseTopicFeedOptions {
   preloadCount?: number;
@@ -15,14 +56,23 @@ interface TopicFeedState {
   isLoadingMore: boolean;
   error: string | null;
   expandedContent: Record<string, string>;
-  detailContent: Record<string, string>;
+  // Deep research reports (detail depth)
+  researchReports: Record<string, ResearchReport>;
   direction: "up" | "down";
-  // Concept exploration
-  currentConcept: string | null;
-  conceptContent: string | null;
-  isExploringConcept: boolean;
+  // Concept exploration: the breadcrumb stack, innermost concept last
+  conceptTrail: ConceptStep[];
+  // Topic whose deep dive is currently streaming
+  streamingTopicId: string | null;
+  // Topic whose research report is being put together
+  researchingTopicId: string | null;
   // Concept cache for preloading
   conceptCache: Record<string, string>;
+  // Concepts explored from each topic, kept with the topic when it's saved
+  topicConcepts: Record<string, ExploredConcept[]>;
+  // Q&A thread per topic; follow-ups carry the earlier turns
+  threads: Record<string, QATurn[]>;
+  // Topic whose latest question is being answered
+  askingTopicId: string | null;
   // API mode indicator
   mode: "live" | "demo";
   // Infinite scroll
@@ -36,19 +86,16 @@ const STORAGE_KEY = "vibescroll_feed_state";
 const SHOWN_KEY = "vibescroll_shown_urls";
 const LIKES_KEY = "vibescroll_likes";
 const PREFERENCES_KEY = "vibescroll_preferences";
+const FEEDS_KEY = "vibescroll_feeds";
+const ENGAGEMENT_KEY = "vibescroll_engagement";
+const SAMPLES_KEY = "vibescroll_interest_samples";
+const STORIES_KEY = "vibescroll_recent_stories";
 
-// Preference tracking
-interface UserPreferences {
-  likedCategories: Record<TopicCategory, number>;
-  likedKeywords: Record<string, number>;
-  totalLikes: number;
-}
-
-// Save state to localStorage
+// Save state to localStorage - deep dives live in the content store, not here
 function saveToStorage(topics: Topic[], currentIndex: number) {
   try {
     const data = {
-      topics,
+      topics: topics.map((topic) => ({ ...topic, expansion: undefined })),
       currentIndex,
       timestamp: Date.now(),
     };
@@ -79,6 +126,44 @@ function loadFromStorage(): { topics: Topic[]; currentIndex: number } | null {
   }
 }
 
+// Persist a deep dive or concept exploration (IndexedDB) - failures only cost a refetch
+function persistContent(kind: ContentKind, key: string, value: string) {
+  if (!value) return;
+  getContentStore()
+    .put(kind, key, value)
+    .catch((e) => console.error("Failed to persist content:", e));
+}
+
+// Attach a finished deep dive (as streamed, citation preamble included) to its topic
+function withExpansion(topic: Topic, raw: string): Topic {
+  const { text, citations } = parseCitedText(raw);
+  return { ...topic, expansion: { fullContent: text, additionalContext: "", relatedTopics: [], citations } };
+}
+
+// Deep dives and Q&A threads for the given topics, and every stored concept exploration
+async function loadPersistedContent(topics: Topic[]) {
+  const store = getContentStore();
+  const [expansions, concepts, threadRecords] = await Promise.all([
+    store.getAll("expansion"),
+    store.getAll("concept"),
+    store.getAll("thread"),
+  ]);
+  const ids = new Set(topics.map((t) => t.id));
+  const expandedContent: Record<string, string> = {};
+  expansions.forEach((record) => {
+    if (ids.has(contentId(record))) expandedContent[contentId(record)] = record.value;
+  });
+  const conceptCache: Record<string, string> = {};
+  concepts.forEach((record) => {
+    conceptCache[contentId(record)] = record.value;
+  });
+  const threads: Record<string, QATurn[]> = {};
+  threadRecords.forEach((record) => {
+    if (ids.has(contentId(record))) threads[contentId(record)] = JSON.parse(record.value);
+  });
+  return { expandedContent, conceptCache, threads };
+}
+
 // Get shown URLs from localStorage
 function getShownUrls(): Set<string> {
   try {
@@ -108,6 +193,38 @@ function saveShownUrls(urls: Set<string>) {
   }
 }
 
+// Signatures of recently shown stories, to catch the same story from another outlet
+function getStoryHistory(): StoryRecord[] {
+  try {
+    const saved = localStorage.getItem(STORIES_KEY);
+    if (!saved) return [];
+    const data = JSON.parse(saved);
+    // Same 24 hour window as shown URLs
+    if (Date.now() - data.timestamp > 24 * 60 * 60 * 1000) {
+      localStorage.removeItem(STORIES_KEY);
+      return [];
+    }
+    return data.stories;
+  } catch {
+    return [];
+  }
+}
+
+function rememberStories(topics: Topic[]) {
+  try {
+    const known = new Set(getStoryHistory().map((r) => r.id));
+    const records = topics
+      .filter((t) => t.sourceUrl && !known.has(t.id))
+      .map((t) => ({ id: t.id, signature: topicSignature(t) }));
+    localStorage.setItem(STORIES_KEY, JSON.stringify({
+      stories: [...getStoryHistory(), ...records].slice(-100), // Keep last 100
+      timestamp: Date.now(),
+    }));
+  } catch (e) {
+    console.error("Failed to save story history:", e);
+  }
+}
+
 // Get liked topic IDs
 function getLikedIds(): Set<string> {
   try {
@@ -128,14 +245,13 @@ function saveLikedIds(ids: Set<string>) {
   }
 }
 
-// Get user preferences
+// Get user preferences, with old signals faded
 function getPreferences(): UserPreferences {
   try {
     const saved = localStorage.getItem(PREFERENCES_KEY);
-    if (!saved) return { likedCategories: {} as Record<TopicCategory, number>, likedKeywords: {}, totalLikes: 0 };
-    return JSON.parse(saved);
+    return decayPreferences(withPreferenceDefaults(saved ? JSON.parse(saved) : {}));
   } catch {
-    return { likedCategories: {} as Record<TopicCategory, number>, likedKeywords: {}, totalLikes: 0 };
+    return withPreferenceDefaults({});
   }
 }
 
@@ -148,28 +264,100 @@ function savePreferences(prefs: UserPreferences) {
   }
 }
 
-// Update preferences when a topic is liked
-function updatePreferencesForLike(topic: Topic, prefs: UserPreferences): UserPreferences {
-  const newPrefs = { ...prefs };
-  
-  // Increment category preference
-  newPrefs.likedCategories[topic.category] = (newPrefs.likedCategories[topic.category] || 0) + 1;
-  
-  // Extract keywords from title and add to preferences
-  const keywords = topic.title.toLowerCase().split(/\s+/).filter(w => w.length > 4);
-  keywords.forEach(kw => {
-    newPrefs.likedKeywords[kw] = (newPrefs.likedKeywords[kw] || 0) + 1;
-  });
-  
-  // Also add highlighted terms as strong signals
-  topic.highlights.forEach(h => {
-    const key = h.text.toLowerCase();
-    newPrefs.likedKeywords[key] = (newPrefs.likedKeywords[key] || 0) + 3;
-  });
+// Append to the engagement event log (bounded, newest last)
+function logEngagement(events: EngagementEvent[]) {
+  try {
+    const saved = localStorage.getItem(ENGAGEMENT_KEY);
+    const log: EngagementEvent[] = saved ? JSON.parse(saved) : [];
+    localStorage.setItem(ENGAGEMENT_KEY, JSON.stringify(appendEvents(log, events)));
+  } catch (e) {
+    console.error("Failed to save engagement:", e);
+  }
+}
+
+// Topics the reader reacted to, for the server's semantic ranking
+function getInterestSamples(): StoredSample[] {
+  try {
+    const saved = localStorage.getItem(SAMPLES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Weigh a topic toward (positive) or away from (negative) the interest profile
+function recordInterestSample(topic: Topic, weight: number) {
+  try {
+    const samples = addSample(getInterestSamples(), sampleText(topic), weight);
+    localStorage.setItem(SAMPLES_KEY, JSON.stringify(samples));
+  } catch (e) {
+    console.error("Failed to save interest samples:", e);
+  }
+}
+
+// Get the user's own RSS/Atom feed URLs
+function getUserFeeds(): string[] {
+  try {
+    const saved = localStorage.getItem(FEEDS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Query params for /api/topics: repeats to skip plus everything we know about the user
+function buildTopicsParams(seenUrls: Set<string>, prefs: UserPreferences): URLSearchParams {
+  const excludeUrls = Array.from(seenUrls).slice(-100);
+  const topCategories = preferredCategories(prefs, 3);
+  const avoided = avoidedCategories(prefs);
   
-  newPrefs.totalLikes++;
+  // Get user-defined interests from localStorage
+  let userInterests: string[] = [];
+  let userLocation = "";
+  let customPrompt = "";
+  try {
+    const savedTags = localStorage.getItem("vibescroll_interest_tags");
+    if (savedTags) userInterests = JSON.parse(savedTags);
+    userLocation = localStorage.getItem("vibescroll_location") || "";
+    customPrompt = localStorage.getItem("vibescroll_custom_prompt") || "";
+  } catch (e) {
+    console.error("Failed to load user interests:", e);
+  }
   
-  return newPrefs;
+  const params = new URLSearchParams({ count: "5" });
+  if (excludeUrls.length > 0) {
+    params.set("excludeUrls", excludeUrls.join(","));
+  }
+  if (topCategories.length > 0) {
+    params.set("preferCategories", topCategories.join(","));
+  }
+  if (avoided.length > 0) {
+    params.set("avoidCategories", avoided.join(","));
+  }
+  avoidedKeywords(prefs, 8).forEach((keyword) => params.append("avoidKeyword", keyword));
+  if (prefs.hiddenSources.length > 0) {
+    params.set("hideSources", prefs.hiddenSources.join(","));
+  }
+  if (userInterests.length > 0) {
+    params.set("interests", userInterests.join(","));
+  }
+  if (userLocation) {
+    params.set("location", userLocation);
+  }
+  if (customPrompt) {
+    params.set("aboutUser", customPrompt.slice(0, 500)); // Limit size
+  }
+  getUserFeeds().forEach((url) => params.append("feed", url));
+  encodeSamples(getInterestSamples()).forEach((sample) => params.append("sample", sample));
+  return params;
+}
+
+function recordConcept(
+  topicConcepts: Record<string, ExploredConcept[]>,
+  topicId: string,
+  entry: ExploredConcept
+): Record<string, ExploredConcept[]> {
+  return { ...topicConcepts, [topicId]: addExploredConcept(topicConcepts[topicId] || [], entry) };
 }
 
 export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
@@ -181,12 +369,15 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     isLoadingMore: false,
     error: null,
     expandedContent: {},
-    detailContent: {},
+    researchReports: {},
     direction: "down",
-    currentConcept: null,
-    conceptContent: null,
-    isExploringConcept: false,
+    conceptTrail: [],
+    streamingTopicId: null,
+    researchingTopicId: null,
     conceptCache: {},
+    topicConcepts: {},
+    threads: {},
+    askingTopicId: null,
     mode: "demo",
     hasMore: true,
     likedTopicIds: new Set(),
@@ -197,6 +388,17 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
   const initializedRef = useRef(false);
   const seenUrlsRef = useRef<Set<string>>(new Set()); // Track seen URLs to avoid repeats
   const preferencesRef = useRef<UserPreferences>(getPreferences());
+  // In-flight streams, so Esc / swiping away can cancel them
+  const conceptAbortRef = useRef<Map<number, AbortController>>(new Map());
+  const conceptIdRef = useRef(0);
+  const askAbortRef = useRef<AbortController | null>(null);
+  const expandAbortRef = useRef<{ topicId: string; controller: AbortController } | null>(null);
+  const researchAbortRef = useRef<{ topicId: string; controller: AbortController } | null>(null);
+  // Topics whose research failed (or found no sources) while the detail view is open;
+  // cleared on leaving it, so coming back retries
+  const researchFailedRef = useRef<Set<string>>(new Set());
+  // The card being read right now and what the reader has done with it
+  const visitRef = useRef<{ topic: Topic; events: EngagementEvent[] } | null>(null);
   
   // Initialize liked IDs from localStorage
   useEffect(() => {
@@ -206,25 +408,128 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     setState(prev => ({ ...prev, likedTopicIds: likedIds }));
   }, []);
 
+  // Pick up likes, preferences and shown URLs merged in from other devices
+  // (or cleared on sign-out). Shown URLs are saved as they're added, so the
+  // stored set already includes this session's.
+  useEffect(() => {
+    const reload = () => {
+      preferencesRef.current = getPreferences();
+      seenUrlsRef.current = getShownUrls();
+      setState(prev => ({ ...prev, likedTopicIds: getLikedIds() }));
+    };
+    window.addEventListener(SYNCED_EVENT, reload);
+    return () => window.removeEventListener(SYNCED_EVENT, reload);
+  }, []);
+
+  // Preferences edited elsewhere (Interests panel)
+  useEffect(() => {
+    const reload = () => {
+      preferencesRef.current = getPreferences();
+    };
+    window.addEventListener(PREFERENCES_EVENT, reload);
+    return () => window.removeEventListener(PREFERENCES_EVENT, reload);
+  }, []);
+
+  const updatePreferences = useCallback((update: (prefs: UserPreferences) => UserPreferences) => {
+    preferencesRef.current = update(preferencesRef.current);
+    savePreferences(preferencesRef.current);
+  }, []);
+
+  // Unlike without touching preferences - used when a saved topic is removed from the library
+  const unlikeTopic = useCallback((topicId: string) => {
+    setState(prev => {
+      if (!prev.likedTopicIds.has(topicId)) return prev;
+      const newLikedIds = new Set(prev.likedTopicIds);
+      newLikedIds.delete(topicId);
+      saveLikedIds(newLikedIds);
+      return { ...prev, likedTopicIds: newLikedIds };
+    });
+  }, []);
+
   // Like a topic
   const likeTopic = useCallback((topicId: string) => {
     const topic = state.topics.find(t => t.id === topicId);
     if (!topic) return;
     
+    const newLikedIds = new Set(state.likedTopicIds);
+    if (newLikedIds.has(topicId)) {
+      newLikedIds.delete(topicId); // Unlike - take back what the like added
+      updatePreferences((prefs) => applyLike(prefs, topic, -1));
+      recordInterestSample(topic, -1);
+    } else {
+      newLikedIds.add(topicId); // Like
+      updatePreferences((prefs) => applyLike(prefs, topic));
+      recordInterestSample(topic, 1);
+    }
+    saveLikedIds(newLikedIds);
+    setState(prev => ({ ...prev, likedTopicIds: newLikedIds }));
+  }, [state.topics, state.likedTopicIds, updatePreferences]);
+
+  // Record something the reader did with a card during the current visit
+  const trackEngagement = useCallback((event: EngagementEvent) => {
+    logEngagement([event]);
+    if (visitRef.current?.topic.id === event.topicId) visitRef.current.events.push(event);
+  }, []);
+
+  // Leaving a card: turn the visit into a preference signal
+  const endVisit = useCallback(() => {
+    const visit = visitRef.current;
+    if (!visit) return;
+    visitRef.current = null;
+
+    const leave: EngagementEvent = { kind: "leave", topicId: visit.topic.id, at: Date.now() };
+    logEngagement([leave]);
+    const summary = summarizeVisit([...visit.events, leave]);
+    const signal = summary ? engagementSignal(summary) : 0;
+    if (signal !== 0) {
+      console.log("Engagement signal:", signal, summary);
+      updatePreferences((prefs) => applySignal(prefs, visit.topic, signal));
+      recordInterestSample(visit.topic, signal);
+    }
+  }, [updatePreferences]);
+
+  // Take topics out of the feed, keeping the reader on the card after the removed one
+  const dropTopics = useCallback((shouldDrop: (topic: Topic) => boolean) => {
     setState(prev => {
-      const newLikedIds = new Set(prev.likedTopicIds);
-      if (newLikedIds.has(topicId)) {
-        newLikedIds.delete(topicId); // Unlike
-      } else {
-        newLikedIds.add(topicId); // Like
-        // Update preferences
-        preferencesRef.current = updatePreferencesForLike(topic, preferencesRef.current);
-        savePreferences(preferencesRef.current);
-      }
-      saveLikedIds(newLikedIds);
-      return { ...prev, likedTopicIds: newLikedIds };
+      const topics = prev.topics.filter((t) => !shouldDrop(t));
+      if (topics.length === prev.topics.length) return prev;
+      const removedBefore = prev.topics.slice(0, prev.currentIndex).filter(shouldDrop).length;
+      const currentIndex = Math.max(0, Math.min(prev.currentIndex - removedBefore, topics.length - 1));
+      saveToStorage(topics, currentIndex);
+      return { ...prev, topics, currentIndex, depth: "summary", conceptTrail: [] };
     });
-  }, [state.topics]);
+  }, []);
+
+  // "Not interested": less of this category and these terms, and drop the card.
+  // A liked topic is unliked first so the two signals don't cancel out.
+  const dislikeTopic = useCallback((topicId: string) => {
+    const topic = state.topics.find(t => t.id === topicId);
+    if (!topic) return;
+
+    if (state.likedTopicIds.has(topicId)) {
+      const newLikedIds = new Set(state.likedTopicIds);
+      newLikedIds.delete(topicId);
+      saveLikedIds(newLikedIds);
+      setState(prev => ({ ...prev, likedTopicIds: newLikedIds }));
+      updatePreferences((prefs) => applyLike(prefs, topic, -1));
+      recordInterestSample(topic, -1);
+    }
+    updatePreferences((prefs) => applyDislike(prefs, topic));
+    recordInterestSample(topic, -1);
+    console.log("Not interested:", topic.title);
+    dropTopics((t) => t.id === topicId);
+  }, [state.topics, state.likedTopicIds, updatePreferences, dropTopics]);
+
+  // Never show this topic's source again, starting with the cards already loaded
+  const hideTopicSource = useCallback((topicId: string) => {
+    const topic = state.topics.find(t => t.id === topicId);
+    if (!topic) return;
+
+    const source = sourceKey(topic);
+    updatePreferences((prefs) => hideSource(prefs, source));
+    console.log("Hiding source:", source);
+    dropTopics((t) => isFromHiddenSource(t, [source]));
+  }, [state.topics, updatePreferences, dropTopics]);
 
   // Fetch initial topics or restore from localStorage
   const fetchTopics = useCallback(async (forceRefresh = false) => {
@@ -241,6 +546,25 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
           mode: "live",
         }));
         initializedRef.current = true;
+
+        // Bring back deep dives and concept explorations from the last session
+        try {
+          const persisted = await loadPersistedContent(saved.topics);
+          console.log("Restored", Object.keys(persisted.expandedContent).length, "deep dives and", Object.keys(persisted.conceptCache).length, "concepts");
+          setState((prev) => ({
+            ...prev,
+            topics: prev.topics.map((t) =>
+              persisted.expandedContent[t.id] && !t.expansion
+                ? withExpansion(t, persisted.expandedContent[t.id])
+                : t
+            ),
+            expandedContent: { ...persisted.expandedContent, ...prev.expandedContent },
+            conceptCache: { ...persisted.conceptCache, ...prev.conceptCache },
+            threads: { ...persisted.threads, ...prev.threads },
+          }));
+        } catch (e) {
+          console.error("Failed to restore persisted content:", e);
+        }
         return;
       }
     }
@@ -250,45 +574,8 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
 
     try {
       // Pass shown URLs to exclude and preferences for personalization
-      const excludeUrls = Array.from(seenUrlsRef.current).slice(-100);
-      const prefs = preferencesRef.current;
-      const topCategories = Object.entries(prefs.likedCategories)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 3)
-        .map(([cat]) => cat);
-      
-      // Get user-defined interests from localStorage
-      let userInterests: string[] = [];
-      let userLocation = "";
-      let customPrompt = "";
-      try {
-        const savedTags = localStorage.getItem("vibescroll_interest_tags");
-        if (savedTags) userInterests = JSON.parse(savedTags);
-        userLocation = localStorage.getItem("vibescroll_location") || "";
-        customPrompt = localStorage.getItem("vibescroll_custom_prompt") || "";
-      } catch (e) {
-        console.error("Failed to load user interests:", e);
-      }
-      
-      const params = new URLSearchParams({
-        count: "5",
-        fresh: "true", // Signal to get freshest content
-      });
-      if (excludeUrls.length > 0) {
-        params.set("excludeUrls", excludeUrls.join(","));
-      }
-      if (topCategories.length > 0) {
-        params.set("preferCategories", topCategories.join(","));
-      }
-      if (userInterests.length > 0) {
-        params.set("interests", userInterests.join(","));
-      }
-      if (userLocation) {
-        params.set("location", userLocation);
-      }
-      if (customPrompt) {
-        params.set("aboutUser", customPrompt.slice(0, 500)); // Limit size
-      }
+      const params = buildTopicsParams(seenUrlsRef.current, preferencesRef.current);
+      params.set("fresh", "true"); // Signal to get freshest content
       
       const response = await fetch(`/api/topics?${params.toString()}`);
       if (!response.ok) throw new Error("Failed to fetch topics");
@@ -301,10 +588,16 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
         if (t.sourceUrl) seenUrlsRef.current.add(t.sourceUrl);
       });
       saveShownUrls(seenUrlsRef.current);
+
+      // Skip stories already seen from another outlet - unless that's all there is
+      const { added, duplicates } = mergeNewTopics([], data.topics, getStoryHistory());
+      const topics: Topic[] = added.length > 0 ? added : data.topics;
+      if (duplicates > 0) console.log(`Skipped ${duplicates} story repeat(s)`);
+      rememberStories(topics);
       
       setState((prev) => ({
         ...prev,
-        topics: data.topics,
+        topics,
         currentIndex: 0,
         mode: data.mode || "demo",
         hasMore: data.hasMore !== false,
@@ -312,7 +605,7 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
       }));
       
       // Save to localStorage
-      saveToStorage(data.topics, 0);
+      saveToStorage(topics, 0);
     } catch (error) {
       setState((prev) => ({
         ...prev,
@@ -331,20 +624,7 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
 
     try {
       // Pass shown URLs to avoid repeats and preferences
-      const excludeUrls = Array.from(seenUrlsRef.current).slice(-100);
-      const prefs = preferencesRef.current;
-      const topCategories = Object.entries(prefs.likedCategories)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 3)
-        .map(([cat]) => cat);
-      
-      const params = new URLSearchParams({ count: "5" });
-      if (excludeUrls.length > 0) {
-        params.set("excludeUrls", excludeUrls.join(","));
-      }
-      if (topCategories.length > 0) {
-        params.set("preferCategories", topCategories.join(","));
-      }
+      const params = buildTopicsParams(seenUrlsRef.current, preferencesRef.current);
       
       const response = await fetch(`/api/topics?${params.toString()}`);
       if (!response.ok) throw new Error("Failed to fetch more topics");
@@ -352,28 +632,24 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
       const data = await response.json();
       console.log("Got more topics:", data.topics.length, "AI:", data.aiCount);
       
-      // Filter out duplicates by ID and title similarity
-      const existingIds = new Set(state.topics.map(t => t.id));
-      const existingTitles = new Set(state.topics.map(t => t.title.toLowerCase().slice(0, 30)));
-      const newTopics = data.topics.filter((t: Topic) => {
-        if (existingIds.has(t.id)) return false;
-        if (existingTitles.has(t.title.toLowerCase().slice(0, 30))) return false;
-        return true;
-      });
-      
-      // Track new URLs and save
-      newTopics.forEach((t: Topic) => {
+      // Track new URLs (repeats included, so they aren't fetched again) and save
+      data.topics.forEach((t: Topic) => {
         if (t.sourceUrl) seenUrlsRef.current.add(t.sourceUrl);
       });
       saveShownUrls(seenUrlsRef.current);
       
-      console.log(`Adding ${newTopics.length} new topics (filtered from ${data.topics.length})`);
       if (data.aiCount > 0) {
         console.log(`Includes ${data.aiCount} AI-generated thought(s)`);
       }
+      const history = getStoryHistory();
       
       setState((prev) => {
-        const updatedTopics = [...prev.topics, ...newTopics];
+        // Stories already on the feed gain the new outlets as sources instead of
+        // a second card; ones seen earlier today are dropped
+        const { feed, added, duplicates } = mergeNewTopics(prev.topics, data.topics, history);
+        console.log(`Adding ${added.length} new topics (${duplicates} repeat(s) of ${data.topics.length} merged or skipped)`);
+        rememberStories(added);
+        const updatedTopics = [...feed, ...added];
         // Save updated topics to localStorage
         saveToStorage(updatedTopics, prev.currentIndex);
         return {
@@ -387,7 +663,7 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
       console.error("Error loading more topics:", error);
       setState((prev) => ({ ...prev, isLoadingMore: false }));
     }
-  }, [state.isLoadingMore, state.topics]);
+  }, [state.isLoadingMore, state.topics.length, state.currentIndex]);
 
   // Build expand URL with topic data
   const buildExpandUrl = useCallback((topic: Topic) => {
@@ -407,8 +683,8 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     // Preload deep dive for current topic
     if (currentTopic && !preloadedRef.current.has(currentTopic.id)) {
       preloadedRef.current.add(currentTopic.id);
-      // Pass topic data with the request
-      fetch(buildExpandUrl(currentTopic)).catch(() => {});
+      // Pass topic data with the request (skipped when the deep dive is already stored)
+      if (!currentTopic.expansion) fetch(buildExpandUrl(currentTopic)).catch(() => {});
       
       // Preload concept explorations for highlighted terms
       currentTopic.highlights.forEach((h) => {
@@ -426,11 +702,15 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
           })
             .then((res) => res.json())
             .then((data) => {
+              if (!data.content) return;
+              // Same shape as a streamed exploration, citations included
+              const content = withCitations(data.content, data.citations || []);
+              persistContent("concept", conceptKey(conceptCacheKey(h.text)), content);
               setState((prev) => ({
                 ...prev,
                 conceptCache: {
                   ...prev.conceptCache,
-                  [h.text.toLowerCase()]: data.content,
+                  [conceptCacheKey(h.text)]: content,
                 },
               }));
             })
@@ -448,39 +728,50 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
       if (topic && !preloadedRef.current.has(topic.id)) {
         preloadedRef.current.add(topic.id);
         // Pass topic data with the request
-        fetch(buildExpandUrl(topic)).catch(() => {});
+        if (!topic.expansion) fetch(buildExpandUrl(topic)).catch(() => {});
       }
     }
   }, [state.topics, state.currentIndex, preloadCount, buildExpandUrl]);
 
-  // Explore a concept (selected text) with optional question
+  // Explore a concept (selected text) with optional question. With the explorer
+  // open, the concept is pushed on top of the current one (a level deeper).
   const exploreConcept = useCallback(async (concept: string, question?: string) => {
-    const cacheKey = question 
-      ? `${concept.toLowerCase().trim()}::${question.toLowerCase().trim()}`
-      : concept.toLowerCase().trim();
+    // Already showing (or loading) it: don't pay for an answer pushStep would drop
+    if (isOnTop(state.conceptTrail, concept, question)) return;
     const currentTopic = state.topics[state.currentIndex];
-    
-    // For questions, include the question in the displayed concept
-    const displayConcept = question ? `${concept}\n\n❓ ${question}` : concept;
+    const id = ++conceptIdRef.current;
+    if (currentTopic) {
+      trackEngagement({ kind: "explore", topicId: currentTopic.id, at: Date.now(), concept });
+    }
+    const path = pathTo(state.conceptTrail, id);
+    const cacheKey = conceptCacheKey(concept, question, path);
     
     // Check cache first (only for non-questions or exact matches)
     if (!question && state.conceptCache[cacheKey]) {
       setState((prev) => ({
         ...prev,
-        currentConcept: displayConcept,
-        conceptContent: prev.conceptCache[cacheKey],
-        isExploringConcept: false,
+        conceptTrail: pushStep(prev.conceptTrail, {
+          id,
+          concept,
+          content: prev.conceptCache[cacheKey],
+          status: "done",
+        }),
+        topicConcepts: currentTopic
+          ? recordConcept(prev.topicConcepts, currentTopic.id, { concept, path, content: prev.conceptCache[cacheKey] })
+          : prev.topicConcepts,
       }));
       return;
     }
     
     setState((prev) => ({
       ...prev,
-      currentConcept: displayConcept,
-      conceptContent: null,
-      isExploringConcept: true,
+      conceptTrail: pushStep(prev.conceptTrail, { id, concept, question, content: null, status: "loading" }),
     }));
 
+    // Outer levels keep streaming while the reader drills deeper
+    const controller = new AbortController();
+    conceptAbortRef.current.set(id, controller);
+
     try {
       const response = await fetch("/api/explore", {
         method: "POST",
@@ -488,49 +779,97 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
         body: JSON.stringify({
           concept,
           question, // Pass the question to the API
+          path,
           topicId: currentTopic?.id,
           topicContext: currentTopic?.content,
+          stream: true,
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) throw new Error("Failed to explore concept");
       
-      const data = await response.json();
+      // Render tokens as they arrive
+      const content = await readTextStream(response, (text) => {
+        if (controller.signal.aborted) return;
+        setState((prev) => ({
+          ...prev,
+          conceptTrail: updateStep(prev.conceptTrail, id, { content: text, status: "streaming" }),
+        }));
+      });
       
       setState((prev) => ({
         ...prev,
-        conceptContent: data.content,
-        isExploringConcept: false,
+        conceptTrail: updateStep(prev.conceptTrail, id, { content, status: "done" }),
         conceptCache: {
           ...prev.conceptCache,
-          [cacheKey]: data.content,
+          [cacheKey]: content,
         },
+        topicConcepts: currentTopic
+          ? recordConcept(prev.topicConcepts, currentTopic.id, { concept, question, path, content })
+          : prev.topicConcepts,
       }));
+      persistContent("concept", conceptKey(cacheKey), content);
     } catch (error) {
+      // Cancelled by Esc / navigation - the level is already gone
+      if (isAbortError(error)) return;
       console.error("Error exploring concept:", error);
       setState((prev) => ({
         ...prev,
-        conceptContent: `Unable to research "${concept}" at this time. Please try again.`,
-        isExploringConcept: false,
+        conceptTrail: updateStep(prev.conceptTrail, id, {
+          content: `Unable to research "${concept}" at this time. Please try again.`,
+          status: "done",
+        }),
       }));
+    } finally {
+      conceptAbortRef.current.delete(id);
     }
-  }, [state.topics, state.currentIndex, state.conceptCache]);
+  }, [state.topics, state.currentIndex, state.conceptCache, state.conceptTrail, trackEngagement]);
+
+  // Cancel the streams of levels that were left
+  const abortConceptSteps = useCallback((steps: ConceptStep[]) => {
+    steps.forEach((step) => {
+      conceptAbortRef.current.get(step.id)?.abort();
+      conceptAbortRef.current.delete(step.id);
+    });
+  }, []);
 
-  // Clear concept exploration
+  // Jump back to a breadcrumb, dropping the levels above it
+  const goToConcept = useCallback((index: number) => {
+    abortConceptSteps(truncateTrail(state.conceptTrail, index).removed);
+    setState((prev) => ({ ...prev, conceptTrail: truncateTrail(prev.conceptTrail, index).trail }));
+  }, [state.conceptTrail, abortConceptSteps]);
+
+  // Back one level; closes the explorer from the first one
+  const popConcept = useCallback(() => {
+    goToConcept(state.conceptTrail.length - 2);
+  }, [state.conceptTrail.length, goToConcept]);
+
+  // Clear concept exploration (cancels any streaming answers)
   const clearConceptExploration = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      currentConcept: null,
-      conceptContent: null,
-      isExploringConcept: false,
-    }));
+    conceptAbortRef.current.forEach((controller) => controller.abort());
+    conceptAbortRef.current.clear();
+    setState((prev) => ({ ...prev, conceptTrail: [] }));
+  }, []);
+
+  // Cancel a streaming deep dive and drop its partial text so it can be refetched
+  const cancelExpansion = useCallback(() => {
+    const expanding = expandAbortRef.current;
+    if (!expanding) return;
+    expanding.controller.abort();
+    expandAbortRef.current = null;
+    setState((prev) => {
+      const expandedContent = { ...prev.expandedContent };
+      delete expandedContent[expanding.topicId];
+      return { ...prev, expandedContent, streamingTopicId: null };
+    });
   }, []);
 
   // Navigate between topics
   const navigate = useCallback((direction: SwipeDirection) => {
-    // If exploring a concept, left arrow closes it
-    if (state.currentConcept && direction === "left") {
-      clearConceptExploration();
+    // If exploring a concept, left arrow goes back one level
+    if (state.conceptTrail.length > 0 && direction === "left") {
+      popConcept();
       return;
     }
 
@@ -549,8 +888,7 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
               currentIndex: newIndex,
               depth: "summary",
               direction: "down",
-              currentConcept: null,
-              conceptContent: null,
+              conceptTrail: [],
             };
           }
           return prev;
@@ -566,8 +904,7 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
               currentIndex: newIndex,
               depth: "summary",
               direction: "up",
-              currentConcept: null,
-              conceptContent: null,
+              conceptTrail: [],
             };
           }
           return prev;
@@ -594,33 +931,251 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
           return prev;
       }
     });
-  }, [state.currentConcept, clearConceptExploration]);
+  }, [state.conceptTrail.length, popConcept]);
 
-  // Expand topic content
+  // Jump straight to a topic still in the feed (e.g. from the concept graph); false if it's gone
+  const goToTopic = useCallback((topicId: string): boolean => {
+    const index = state.topics.findIndex((t) => t.id === topicId);
+    if (index === -1) return false;
+    saveToStorage(state.topics, index);
+    setState((prev) => ({
+      ...prev,
+      currentIndex: index,
+      depth: "summary",
+      direction: index < prev.currentIndex ? "up" : "down",
+      conceptTrail: [],
+    }));
+    return true;
+  }, [state.topics]);
+
+  // Expand topic content, streaming the deep dive in as it's written
   const expandTopic = useCallback(async (topicId: string) => {
     if (state.expandedContent[topicId]) return;
+    if (expandAbortRef.current?.topicId === topicId) return;
 
     // Find the topic to get its data
     const topic = state.topics.find((t) => t.id === topicId);
     if (!topic) return;
 
+    const controller = new AbortController();
+    expandAbortRef.current = { topicId, controller };
+
     try {
-      const response = await fetch(buildExpandUrl(topic));
+      // Written before (this session or a previous one) - show it without a request
+      const stored = topic.expansion
+        ? withCitations(topic.expansion.fullContent, topic.expansion.citations || [])
+        : (await getContentStore().get(expansionKey(topicId)).catch(() => undefined))?.value;
+      if (stored) {
+        if (controller.signal.aborted) return;
+        setState((prev) => ({
+          ...prev,
+          topics: prev.topics.map((t) => (t.id === topicId ? withExpansion(t, stored) : t)),
+          expandedContent: { ...prev.expandedContent, [topicId]: stored },
+        }));
+        return;
+      }
+
+      setState((prev) => ({ ...prev, streamingTopicId: topicId }));
+      const response = await fetch(`${buildExpandUrl(topic)}&stream=true`, {
+        signal: controller.signal,
+      });
       if (!response.ok) throw new Error("Failed to expand topic");
       
-      const data = await response.json();
-      
+      const fullContent = await readTextStream(response, (text) => {
+        if (controller.signal.aborted) return;
+        setState((prev) => ({
+          ...prev,
+          expandedContent: {
+            ...prev.expandedContent,
+            [topicId]: text,
+          },
+        }));
+      });
+
+      // Finished - keep it with the topic and for later sessions
+      if (!controller.signal.aborted && fullContent) {
+        persistContent("expansion", expansionKey(topicId), fullContent);
+        setState((prev) => ({
+          ...prev,
+          topics: prev.topics.map((t) => (t.id === topicId ? withExpansion(t, fullContent) : t)),
+        }));
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error expanding topic:", error);
+      }
+    } finally {
+      if (expandAbortRef.current?.controller === controller) {
+        expandAbortRef.current = null;
+        setState((prev) => ({ ...prev, streamingTopicId: null }));
+      }
+    }
+  }, [state.expandedContent, state.topics, buildExpandUrl]);
+
+  // Research report for the detail depth: sub-question searches plus a cited synthesis
+  const researchTopic = useCallback(async (topicId: string) => {
+    // Placeholder reports (failed, or no sources found) don't count as done
+    if (state.researchReports[topicId]?.sources.length) return;
+    if (researchFailedRef.current.has(topicId)) return;
+    if (researchAbortRef.current?.topicId === topicId) return;
+
+    const topic = state.topics.find((t) => t.id === topicId);
+    if (!topic) return;
+
+    const controller = new AbortController();
+    researchAbortRef.current = { topicId, controller };
+
+    try {
+      let report: ResearchReport;
+      const stored = await getContentStore().get(researchKey(topicId)).catch(() => undefined);
+      if (stored) {
+        report = JSON.parse(stored.value);
+      } else {
+        setState((prev) => {
+          // Drop the last attempt's placeholder while retrying
+          const researchReports = { ...prev.researchReports };
+          delete researchReports[topicId];
+          return { ...prev, researchReports, researchingTopicId: topicId };
+        });
+        const response = await fetch("/api/research", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ topicId, title: topic.title, content: topic.content }),
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error("Failed to research topic");
+
+        const data = await response.json();
+        report = data.report;
+        // Fallback reports (no sources) aren't worth keeping
+        if (report.sources.length > 0) {
+          persistContent("research", researchKey(topicId), JSON.stringify(report));
+        }
+      }
+
+      if (controller.signal.aborted) return;
+      if (report.sources.length === 0) researchFailedRef.current.add(topicId);
       setState((prev) => ({
         ...prev,
-        expandedContent: {
-          ...prev.expandedContent,
-          [topicId]: data.content,
+        researchReports: { ...prev.researchReports, [topicId]: report },
+      }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error researching topic:", error);
+      researchFailedRef.current.add(topicId);
+      setState((prev) => ({
+        ...prev,
+        researchReports: {
+          ...prev.researchReports,
+          [topicId]: {
+            synthesis: `Unable to research "${topic.title}" at this time. Please try again later.`,
+            findings: [],
+            timeline: [],
+            viewpoints: [],
+            sources: [],
+          },
         },
       }));
+    } finally {
+      if (researchAbortRef.current?.controller === controller) {
+        researchAbortRef.current = null;
+        setState((prev) => ({ ...prev, researchingTopicId: null }));
+      }
+    }
+  }, [state.researchReports, state.topics]);
+
+  // Stop a research request when swiping away or pressing Esc
+  const cancelResearch = useCallback(() => {
+    researchAbortRef.current?.controller.abort();
+    researchAbortRef.current = null;
+    setState((prev) => ({ ...prev, researchingTopicId: null }));
+  }, []);
+
+  // Ask about the current topic; earlier turns of its thread go along as context
+  const askQuestion = useCallback(async (question: string, selectedText?: string) => {
+    const topic = state.topics[state.currentIndex];
+    if (!topic) return;
+    trackEngagement({ kind: "question", topicId: topic.id, at: Date.now() });
+
+    const history = state.threads[topic.id] || [];
+    const turn: QATurn = { question, selectedText, answer: "", citations: [], askedAt: Date.now() };
+    // Patch this turn, or drop it (null) - unless the thread moved on
+    const setTurn = (patch: Partial<QATurn> | null) =>
+      setState((prev) => {
+        const thread = prev.threads[topic.id] || [];
+        const last = thread[thread.length - 1];
+        if (!last || last.askedAt !== turn.askedAt) return prev;
+        const rest = thread.slice(0, -1);
+        return { ...prev, threads: { ...prev.threads, [topic.id]: patch ? [...rest, { ...last, ...patch }] : rest } };
+      });
+
+    setState((prev) => ({
+      ...prev,
+      threads: { ...prev.threads, [topic.id]: [...(prev.threads[topic.id] || []), turn] },
+      askingTopicId: topic.id,
+    }));
+
+    askAbortRef.current?.abort();
+    const controller = new AbortController();
+    askAbortRef.current = controller;
+
+    try {
+      const response = await fetch("/api/ask", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          topicId: topic.id,
+          question,
+          selectedText,
+          topicContext: topic.content,
+          history: history.map(({ question, answer }) => ({ question, answer })),
+          stream: true,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) throw new Error("Failed to get answer");
+
+      // Answer streams into the last turn
+      const raw = await readTextStream(response, (text) => {
+        if (controller.signal.aborted) return;
+        const { text: answer, citations } = parseCitedText(text);
+        setTurn({ answer, citations });
+      });
+
+      const { text: answer, citations } = parseCitedText(raw);
+      setTurn({ answer, citations });
+      persistContent("thread", threadKey(topic.id), JSON.stringify([...history, { ...turn, answer, citations }]));
     } catch (error) {
-      console.error("Error expanding topic:", error);
+      // Swiped away or asked again - the unfinished turn isn't kept
+      if (isAbortError(error)) {
+        setTurn(null);
+        return;
+      }
+      console.error("Error asking question:", error);
+      setTurn({ answer: "Sorry, I couldn't find an answer to that question." });
+    } finally {
+      // A newer question owns the loading state
+      if (!askAbortRef.current || askAbortRef.current === controller) {
+        askAbortRef.current = null;
+        setState((prev) => ({ ...prev, askingTopicId: null }));
+      }
     }
-  }, [state.expandedContent, state.topics, buildExpandUrl]);
+  }, [state.topics, state.currentIndex, state.threads, trackEngagement]);
+
+  // Start the current topic's thread over
+  const clearThread = useCallback(() => {
+    const topic = state.topics[state.currentIndex];
+    if (!topic) return;
+    askAbortRef.current?.abort();
+    askAbortRef.current = null;
+    getContentStore().delete(threadKey(topic.id)).catch(() => {});
+    setState((prev) => {
+      const threads = { ...prev.threads };
+      delete threads[topic.id];
+      return { ...prev, threads, askingTopicId: null };
+    });
+  }, [state.topics, state.currentIndex]);
 
   // Handle highlight click - now also explores the concept
   const handleHighlightClick = useCallback(async (highlight: TopicHighlight) => {
@@ -628,10 +1183,12 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     exploreConcept(highlight.text);
   }, [exploreConcept]);
 
-  // Reset to summary view
+  // Reset to summary view (Esc) - also stops a streaming deep dive
   const resetDepth = useCallback(() => {
+    cancelExpansion();
+    cancelResearch();
     setState((prev) => ({ ...prev, depth: "summary" }));
-  }, []);
+  }, [cancelExpansion, cancelResearch]);
 
   // Initial load
   useEffect(() => {
@@ -645,6 +1202,41 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     }
   }, [state.currentIndex, state.topics.length, preloadTopics]);
 
+  // Swiping to another topic (or dropping this one) cancels whatever was streaming for it
+  const currentTopicId = state.topics[state.currentIndex]?.id;
+  useEffect(() => {
+    conceptAbortRef.current.forEach((controller) => controller.abort());
+    conceptAbortRef.current.clear();
+    askAbortRef.current?.abort();
+    askAbortRef.current = null;
+    cancelExpansion();
+    cancelResearch();
+  }, [currentTopicId, cancelExpansion, cancelResearch]);
+
+  // A new card starts a visit; the last one's engagement feeds the preferences.
+  // The topic object changes as its deep dive arrives, so compare ids.
+  const visitTopic = state.topics[state.currentIndex];
+  useEffect(() => {
+    if (!visitTopic || visitRef.current?.topic.id === visitTopic.id) return;
+    endVisit();
+    const view: EngagementEvent = { kind: "view", topicId: visitTopic.id, at: Date.now() };
+    visitRef.current = { topic: visitTopic, events: [view] };
+    logEngagement([view]);
+  }, [visitTopic, endVisit]);
+
+  // Closing the tab ends the visit too
+  useEffect(() => {
+    window.addEventListener("pagehide", endVisit);
+    return () => window.removeEventListener("pagehide", endVisit);
+  }, [endVisit]);
+
+  // How deep the reader went on this card
+  useEffect(() => {
+    if (currentTopicId && state.depth !== "summary") {
+      trackEngagement({ kind: "depth", topicId: currentTopicId, at: Date.now(), depth: state.depth });
+    }
+  }, [state.depth, currentTopicId, trackEngagement]);
+
   // Load more topics when approaching the end (infinite scroll)
   useEffect(() => {
     const { topics, currentIndex, hasMore, isLoadingMore } = state;
@@ -664,7 +1256,33 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     }
   }, [state.depth, state.currentIndex, state.topics, expandTopic]);
 
+  // Start deep research when the detail depth is reached; leaving it makes failed research retryable
+  useEffect(() => {
+    if (state.depth !== "detail") {
+      researchFailedRef.current.clear();
+      return;
+    }
+    const currentTopic = state.topics[state.currentIndex];
+    if (currentTopic) researchTopic(currentTopic.id);
+  }, [state.depth, state.currentIndex, state.topics, researchTopic]);
+
+  // Everything worth keeping about a topic: the card, its deep dive and explored concepts
+  const getTopicSnapshot = useCallback((topicId: string): TopicSnapshot | null => {
+    const topic = state.topics.find(t => t.id === topicId);
+    if (!topic) return null;
+    const expanded = state.streamingTopicId === topicId ? undefined : state.expandedContent[topicId];
+    return {
+      topic: expanded ? withExpansion(topic, expanded) : topic,
+      concepts: state.topicConcepts[topicId] || [],
+      // Only finished turns
+      thread: state.askingTopicId === topicId
+        ? (state.threads[topicId] || []).slice(0, -1)
+        : state.threads[topicId] || [],
+    };
+  }, [state.topics, state.expandedContent, state.streamingTopicId, state.topicConcepts, state.threads, state.askingTopicId]);
+
   const currentTopic = state.topics[state.currentIndex];
+  const conceptStep = state.conceptTrail[state.conceptTrail.length - 1];
 
   return {
     currentTopic,
@@ -675,22 +1293,39 @@ export function useTopicFeed({ preloadCount = 2 }: UseTopicFeedOptions = {}) {
     isLoadingMore: state.isLoadingMore,
     error: state.error,
     expandedContent: currentTopic ? state.expandedContent[currentTopic.id] : undefined,
-    detailContent: currentTopic ? state.detailContent[currentTopic.id] : undefined,
+    research: currentTopic ? state.researchReports[currentTopic.id] : undefined,
+    isResearching: !!currentTopic && state.researchingTopicId === currentTopic.id,
     direction: state.direction,
     navigate,
+    goToTopic,
     handleHighlightClick,
     resetDepth,
     refetch: () => fetchTopics(true), // Force refresh
     // Concept exploration
     exploreConcept,
-    conceptContent: state.conceptContent,
-    isExploringConcept: state.isExploringConcept,
-    currentConcept: state.currentConcept,
+    conceptContent: conceptStep?.content ?? null,
+    isExploringConcept: conceptStep?.status === "loading",
+    isStreamingConcept: conceptStep?.status === "streaming",
+    isExpanding: !!currentTopic && state.streamingTopicId === currentTopic.id,
+    currentConcept: conceptStep ? stepTitle(conceptStep) : null,
+    conceptTrail: state.conceptTrail,
+    goToConcept,
+    popConcept,
     clearConceptExploration,
+    // Q&A thread for the current topic
+    thread: currentTopic ? state.threads[currentTopic.id] || [] : [],
+    isAsking: !!currentTopic && state.askingTopicId === currentTopic.id,
+    askQuestion,
+    clearThread,
     // API mode
     mode: state.mode,
     // Likes
     likeTopic,
+    unlikeTopic,
+    dislikeTopic,
+    hideTopicSource,
     isLiked: (topicId: string) => state.likedTopicIds.has(topicId),
+    // Library
+    getTopicSnapshot,
   };
 }
@@ -0,0 +1,12 @@
+// Model used for every Claude call; ANTHROPIC_MODEL swaps it without a code change
+export const DEFAULT_MODEL = "claude-3-5-haiku-20241022";
+
+export function getModel(): string {
+  return process.env.ANTHROPIC_MODEL?.trim() || DEFAULT_MODEL;
+}
+
+// Valyu defaults shared by the routes' context searches
+export const SEARCH_DEFAULTS = {
+  maxPrice: 20,
+  relevanceThreshold: 0.4,
+};
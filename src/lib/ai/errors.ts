@@ -0,0 +1,18 @@
+// What went wrong with a model call, in terms a fallback decision cares about
+export type AIErrorKind = "auth" | "rate_limit" | "overloaded" | "invalid_request" | "aborted" | "unknown";
+
+// Anthropic SDK errors carry the HTTP status; aborts surface as AbortError
+// (or the SDK's APIUserAbortError)
+export function classifyAIError(error: unknown): AIErrorKind {
+  const { status, name } = (error ?? {}) as { status?: number; name?: string };
+  if (name === "AbortError" || name === "APIUserAbortError") return "aborted";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate_limit";
+  if (status === 529 || status === 503) return "overloaded";
+  if (status === 400 || status === 404 || status === 413) return "invalid_request";
+  return "unknown";
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,111 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { MessageCreateParamsNonStreaming } from "@anthropic-ai/sdk/resources/messages";
+import { getClients } from "@/lib/clients";
+import { textDeltas } from "@/lib/streaming";
+import { generateStructured, type Schema } from "@/lib/structured";
+import { getModel } from "./config";
+import { classifyAIError, errorMessage, type AIErrorKind } from "./errors";
+import { buildPrompt, type PromptArgs, type PromptName } from "./prompts";
+import { recordCall, recordError, recordTokens } from "./usage";
+
+// Server-side AI service: every Claude call goes through here, built from the
+// prompt registry, sent to the configured model, and counted per prompt
+
+export { DEFAULT_MODEL, getModel } from "./config";
+export { classifyAIError, type AIErrorKind } from "./errors";
+export { getTokenUsage, resetTokenUsage, type PromptUsage } from "./usage";
+export { buildPrompt, PROMPTS, type PriorTurn, type PromptArgs, type PromptName, type ResearchSource } from "./prompts";
+export { searchWeb, searchSources } from "./search";
+
+interface CallOptions {
+  signal?: AbortSignal;
+}
+
+export function buildRequest<N extends PromptName>(name: N, args: PromptArgs<N>): MessageCreateParamsNonStreaming {
+  const { maxTokens, system, messages } = buildPrompt(name, args);
+  return { model: getModel(), max_tokens: maxTokens, messages, ...(system && { system }) };
+}
+
+// Claude is configured (live key or offline fake)
+export function hasModel(): boolean {
+  return !!getClients().anthropic;
+}
+
+// Classify, count and log a failed call once; the caller picks the fallback
+function reportError(name: PromptName, error: unknown): AIErrorKind {
+  const kind = classifyAIError(error);
+  recordError(name, kind, errorMessage(error));
+  if (kind !== "aborted") console.error(`Claude "${name}" failed (${kind}):`, errorMessage(error));
+  return kind;
+}
+
+function responseText(response: Anthropic.Message): string {
+  const textContent = response.content.find((c) => c.type === "text");
+  return textContent && textContent.type === "text" ? textContent.text : "";
+}
+
+// Plain-text completion; "" without a client or when the call fails
+export async function complete<N extends PromptName>(
+  name: N,
+  args: PromptArgs<N>,
+  { signal }: CallOptions = {}
+): Promise<string> {
+  const { anthropic } = getClients();
+  if (!anthropic) return "";
+
+  recordCall(name);
+  try {
+    const response = await anthropic.messages.create(buildRequest(name, args), { signal });
+    recordTokens(name, response.usage);
+    return responseText(response);
+  } catch (error) {
+    reportError(name, error);
+    return "";
+  }
+}
+
+// Schema-checked JSON (with one repair retry); null without a client, on
+// invalid output or when the call fails
+export async function completeJson<N extends PromptName, T>(
+  name: N,
+  args: PromptArgs<N>,
+  schema: Schema<T>,
+  { signal }: CallOptions = {}
+): Promise<T | null> {
+  const { anthropic } = getClients();
+  if (!anthropic) return null;
+
+  recordCall(name);
+  try {
+    return await generateStructured(anthropic, {
+      name,
+      schema,
+      signal,
+      request: buildRequest(name, args),
+      onResponse: (response) => recordTokens(name, response.usage),
+    });
+  } catch (error) {
+    reportError(name, error);
+    return null;
+  }
+}
+
+// Text as it's generated. Failures are reported and rethrown, so a stream cut
+// off part-way is never cached as if it were complete.
+export async function* streamText<N extends PromptName>(
+  name: N,
+  args: PromptArgs<N>,
+  { signal }: CallOptions = {}
+): AsyncGenerator<string> {
+  const { anthropic } = getClients();
+  if (!anthropic) return;
+
+  recordCall(name);
+  try {
+    const stream = anthropic.messages.stream(buildRequest(name, args), { signal });
+    yield* textDeltas(stream, (counts) => recordTokens(name, counts));
+  } catch (error) {
+    reportError(name, error);
+    throw error;
+  }
+}
@@ -0,0 +1,364 @@
+import type { MessageParam } from "@anthropic-ai/sdk/resources/messages";
+import { CATEGORY_IDS } from "@/lib/categories";
+import { CITE_INSTRUCTION, formatSourcesForPrompt, type CitedSource } from "@/lib/citations";
+import type { ValyuResult } from "@/lib/providers";
+
+// Every prompt the app sends, by name. The name doubles as the bucket for
+// token usage and structured-output metrics. The offline fake in lib/offline
+// recognises prompts by their wording, so keep the two in step.
+
+export interface PromptSpec {
+  maxTokens: number;
+  system?: string;
+  messages: MessageParam[];
+}
+
+const user = (content: string): MessageParam[] => [{ role: "user", content }];
+
+// --- Topics ---
+
+const articleContent = (result: ValyuResult) =>
+  typeof result.content === "string" ? result.content : JSON.stringify(result.content);
+
+const categoryHint = (result: ValyuResult) =>
+  result.category && result.category !== "personal"
+    ? `Found while searching the "${result.category}" category.\n`
+    : "";
+
+const TOPIC_FIELDS = `  "title": "compelling title, max 80 chars",
+  "summary": "2-3 sentence summary, max 200 chars",
+  "content": "main content rewritten clearly, max 600 chars",
+  "category": "one of: ${CATEGORY_IDS.join(", ")}",
+  "highlights": [
+    {"text": "exact interesting phrase from content that users would want to explore", "reason": "why interesting"}
+  ]`;
+
+function processedTopic({ article }: { article: ValyuResult }): PromptSpec {
+  return {
+    maxTokens: 1024,
+    messages: user(`Analyze this article and provide a JSON response:
+
+Title: ${article.title}
+Content: ${articleContent(article)?.slice(0, 3000)}
+${categoryHint(article)}
+Return ONLY valid JSON:
+{
+${TOPIC_FIELDS}
+}
+
+Include 3-5 highlights - phrases that invite deeper exploration.`),
+  };
+}
+
+// Several articles in one call - fewer round trips, larger response
+function processedTopicBatch({ articles }: { articles: ValyuResult[] }): PromptSpec {
+  const listed = articles
+    .map((result, idx) => `Article ${idx + 1}
+Title: ${result.title}
+Content: ${articleContent(result)?.slice(0, 2000)}
+${categoryHint(result)}`)
+    .join("\n---\n");
+
+  return {
+    maxTokens: 1024 * articles.length,
+    messages: user(`Analyze each of these ${articles.length} articles.
+
+${listed}
+Return ONLY a valid JSON array with one object per article:
+[
+  {
+  "article": 1,
+${TOPIC_FIELDS}
+  }
+]
+
+Include 3-5 highlights per article - phrases that invite deeper exploration.`),
+  };
+}
+
+// One story from several outlets: a synthesis plus how each source framed it.
+// The first article leads; the rest came in as its alsoReportedBy.
+function storyPerspectives({ articles }: { articles: ValyuResult[] }): PromptSpec {
+  const listed = articles
+    .map((result, idx) => `Source ${idx + 1}: ${result.source}
+Title: ${result.title}
+Content: ${articleContent(result)?.slice(0, 1500)}`)
+    .join("\n---\n");
+
+  return {
+    maxTokens: 1536,
+    messages: user(`These ${articles.length} articles from different outlets cover the same story.
+
+${listed}
+${categoryHint(articles[0])}
+Return ONLY valid JSON:
+{
+${TOPIC_FIELDS},
+  "perspectives": [
+    {"source": 1, "framing": "how this outlet framed the story - its angle, emphasis and tone, max 200 chars"}
+  ]
+}
+
+Write the title, summary and content once for the story as a whole, drawing on every source and noting where they disagree.
+Give one perspective per source, numbered as above. Include 3-5 highlights.`),
+  };
+}
+
+function aiThoughts({ count }: { count: number }): PromptSpec {
+  return {
+    maxTokens: 2000,
+    messages: user(`You are creating content for a knowledge discovery app. Generate ${count} pieces of content.
+
+YOU DECIDE what type each one should be. Mix it up! Options include:
+- A fascinating fact about nature, science, or the universe
+- A thought-provoking philosophical question or insight
+- A clever joke or witty observation
+- An interesting "did you know" about history, culture, or technology
+- A mindfulness/presence reminder
+- A weird but true fact
+- A creative "what if" scenario
+
+Be creative and varied. Make each one genuinely interesting and shareable.
+
+Return ONLY valid JSON array:
+[
+  {
+    "type": "fact" | "philosophy" | "joke" | "did_you_know" | "mindfulness" | "weird_fact" | "what_if",
+    "title": "engaging title, max 60 chars",
+    "content": "the full content, 100-300 chars, make it memorable",
+    "highlights": [{"text": "interesting phrase to explore"}]
+  }
+]`),
+  };
+}
+
+function profileQueries({ aboutUser }: { aboutUser: string }): PromptSpec {
+  return {
+    maxTokens: 200,
+    messages: user(`A reader describes themselves like this:
+
+"${aboutUser.slice(0, 500)}"
+
+Suggest 3 short web search queries (1-4 words each) for recent news articles this reader would find interesting. Be specific to their interests, not generic.
+
+Return ONLY a JSON array of strings.`),
+  };
+}
+
+// --- Expand (Full Story) ---
+
+function expand({ title, content, sources }: { title: string; content: string; sources: CitedSource[] }): PromptSpec {
+  return {
+    maxTokens: 1500,
+    messages: user(`Expand on this topic with more depth, context, and analysis.
+
+Topic: ${title}
+Original content: ${content}
+${sources.length > 0 ? `Additional research:\n${formatSourcesForPrompt(sources)}\n\n${CITE_INSTRUCTION}\n` : ""}
+
+Provide a comprehensive expansion (3-4 paragraphs) that:
+- Adds depth and nuance to the original
+- Includes relevant background and context
+- Explains implications and significance
+- Remains engaging and accessible
+
+Write directly, no preamble. Use **bold** for key terms.`),
+  };
+}
+
+// A single highlighted phrase, in the context it appeared in
+function explainHighlight({ highlight, context }: { highlight: string; context: string }): PromptSpec {
+  return {
+    maxTokens: 600,
+    messages: user(`Explain this specific aspect: "${highlight}"
+
+${context ? `Context it appeared in: ${context}` : ""}
+
+Provide a focused explanation in 2-3 paragraphs. Be informative and engaging.`),
+  };
+}
+
+// --- Explore ---
+
+interface ExplainArgs {
+  concept: string;
+  context?: string;
+  sources: CitedSource[];
+  question?: string;
+  // Concepts the reader drilled down through to get here
+  path: string[];
+}
+
+function explain({ concept, context, sources, question, path }: ExplainArgs): PromptSpec {
+  const isQuestion = !!question;
+
+  const system = isQuestion
+    ? `You are an expert who answers questions clearly and thoroughly.
+Your answers should be:
+- Direct and informative
+- Well-structured with clear sections
+- Include practical examples when helpful
+- About 300-500 words
+
+Format with markdown: use **bold** for key terms, bullet points for lists.`
+    : `You are an expert educator who explains concepts clearly and engagingly.
+Your explanations should be:
+- Informative but accessible
+- Well-structured with clear sections
+- Include practical examples when helpful
+- About 300-500 words
+
+Format with markdown: use **bold** for key terms, bullet points for lists.`;
+
+  let prompt = isQuestion
+    ? `The user selected this text: "${concept}"\n\nTheir question about it: "${question}"`
+    : `Explain the concept: "${concept}"`;
+
+  if (context) {
+    prompt += `\n\nThis appeared in the context of: ${context.slice(0, 500)}`;
+  }
+
+  // Nested exploration: the reader drilled down from these concepts
+  if (path.length > 0) {
+    prompt += `\n\nThe reader got here by exploring: ${path.join(" → ")} → ${concept}. Explain it as it relates to ${path[path.length - 1]}.`;
+  }
+
+  if (sources.length > 0) {
+    prompt += `\n\nHere is recent information to incorporate:\n${formatSourcesForPrompt(sources)}\n\n${CITE_INSTRUCTION}`;
+  }
+
+  prompt += isQuestion
+    ? `\n\nAnswer the question directly and comprehensively. Start with the answer, no preamble.`
+    : `\n\nProvide a clear, comprehensive explanation. Start directly with the explanation, no preamble.`;
+
+  return { maxTokens: 1000, system, messages: user(prompt) };
+}
+
+// --- Ask ---
+
+// An earlier turn of a question thread
+export interface PriorTurn {
+  question: string;
+  answer: string;
+}
+
+interface AskArgs {
+  question: string;
+  topicContext?: string;
+  selectedText?: string;
+  sources: CitedSource[];
+  history: PriorTurn[];
+}
+
+// Prior turns as alternating messages, then the new question with its context and research
+function ask({ question, topicContext, selectedText, sources, history }: AskArgs): PromptSpec {
+  const prior = history.flatMap((turn): MessageParam[] => [
+    { role: "user", content: turn.question },
+    { role: "assistant", content: turn.answer },
+  ]);
+
+  return {
+    maxTokens: 800,
+    messages: [
+      ...prior,
+      ...user(`Answer this question based on the provided context.
+
+Question: ${question}
+${selectedText ? `\nThe user is asking specifically about this text: "${selectedText}"` : ""}
+${history.length > 0 ? "\nThis is a follow-up to the conversation above; read it in that light (\"why?\" means why about the last answer).\n" : ""}
+${topicContext ? `Topic context:\n${topicContext}` : ""}
+${sources.length > 0 ? `Additional research:\n${formatSourcesForPrompt(sources)}\n\n${CITE_INSTRUCTION}` : ""}
+
+Provide a clear, direct answer. If information is uncertain, acknowledge it. Be helpful and informative.`),
+    ],
+  };
+}
+
+// --- Research (Deep Dive) ---
+
+// A numbered source plus the sub-question it was found for
+export interface ResearchSource extends CitedSource {
+  question: string;
+}
+
+function researchPlan({ title, content }: { title: string; content: string }): PromptSpec {
+  return {
+    maxTokens: 400,
+    messages: user(`Break this topic into 3 research sub-questions.
+
+Topic: ${title}
+Summary: ${content.slice(0, 1500)}
+
+Cover what happened and how we got here, why it matters, and where people disagree.
+Each question should work as a standalone web search.
+
+Return ONLY valid JSON:
+{
+  "subQuestions": ["question 1", "question 2", "question 3"]
+}`),
+  };
+}
+
+function formatResearchSources(sources: ResearchSource[]): string {
+  return sources
+    .map(
+      (s) =>
+        `[${s.id}] ${s.title} (${[s.source, s.date].filter(Boolean).join(", ")})\nFound for: ${s.question}\n${s.content}`
+    )
+    .join("\n\n");
+}
+
+interface ResearchReportArgs {
+  title: string;
+  content: string;
+  questions: string[];
+  sources: ResearchSource[];
+}
+
+function researchReport({ title, content, questions, sources }: ResearchReportArgs): PromptSpec {
+  return {
+    maxTokens: 2500,
+    messages: user(`Write a research report on this topic using ONLY the numbered sources below.
+
+Topic: ${title}
+Summary: ${content.slice(0, 1500)}
+
+Sub-questions:
+${questions.map((q, i) => `${i + 1}. ${q}`).join("\n")}
+
+Sources:
+${formatResearchSources(sources)}
+
+Return ONLY valid JSON:
+{
+  "synthesis": "3-4 paragraphs that answer the sub-questions together, citing sources inline like [1] or [2][3]",
+  "findings": [{"question": "a sub-question", "answer": "2-3 sentences with [n] citations", "sources": [1]}],
+  "timeline": [{"date": "a date or period", "event": "what happened", "sources": [2]}],
+  "viewpoints": [{"position": "short label", "argument": "the case for this view", "sources": [3]}]
+}
+
+Give at least two opposing viewpoints. Leave the timeline empty if the sources give no dates.
+Only cite numbers from the list above.`),
+  };
+}
+
+export const PROMPTS = {
+  "processed-topic": processedTopic,
+  "processed-topic-batch": processedTopicBatch,
+  "story-perspectives": storyPerspectives,
+  "ai-thoughts": aiThoughts,
+  "profile-queries": profileQueries,
+  expand,
+  "explain-highlight": explainHighlight,
+  explain,
+  ask,
+  "research-plan": researchPlan,
+  "research-report": researchReport,
+} satisfies Record<string, (args: never) => PromptSpec>;
+
+export type PromptName = keyof typeof PROMPTS;
+export type PromptArgs<N extends PromptName> = Parameters<(typeof PROMPTS)[N]>[0];
+
+export function buildPrompt<N extends PromptName>(name: N, args: PromptArgs<N>): PromptSpec {
+  return (PROMPTS[name] as (args: PromptArgs<N>) => PromptSpec)(args);
+}
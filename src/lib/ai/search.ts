@@ -0,0 +1,26 @@
+import type { SearchResult } from "valyu-js";
+import { getClients } from "@/lib/clients";
+import { toCitedSources, type CitedSource } from "@/lib/citations";
+import { SEARCH_DEFAULTS } from "./config";
+
+// Valyu search for grounding a prompt; [] without a key or on failure
+export async function searchWeb(query: string, maxResults: number): Promise<SearchResult[]> {
+  const { valyu } = getClients();
+  if (!valyu) return [];
+
+  try {
+    const response = await valyu.search(query, { maxNumResults: maxResults, ...SEARCH_DEFAULTS });
+    return response.results || [];
+  } catch (err) {
+    console.error("Valyu search error:", err);
+    return [];
+  }
+}
+
+// Same, numbered for citing
+export async function searchSources(
+  query: string,
+  { maxResults = 5, max, contentLength }: { maxResults?: number; max?: number; contentLength?: number } = {}
+): Promise<CitedSource[]> {
+  return toCitedSources(await searchWeb(query, maxResults), { max, contentLength });
+}
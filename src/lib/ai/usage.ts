@@ -0,0 +1,57 @@
+import type { AIErrorKind } from "./errors";
+
+export interface PromptUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Failed calls by kind (rate limits, auth, aborts, ...)
+  errors: Partial<Record<AIErrorKind, number>>;
+  lastError?: string;
+}
+
+// Token counts as the SDK reports them; streams report input and output separately
+export interface TokenCounts {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+}
+
+// Per-prompt counters, shared across route bundles like the structured metrics
+const globalForUsage = globalThis as unknown as {
+  vibescrollTokenUsage?: Record<string, PromptUsage>;
+};
+
+function usageFor(prompt: string): PromptUsage {
+  const all = (globalForUsage.vibescrollTokenUsage ??= {});
+  return (all[prompt] ??= { calls: 0, inputTokens: 0, outputTokens: 0, errors: {} });
+}
+
+export function recordCall(prompt: string) {
+  usageFor(prompt).calls++;
+}
+
+export function recordTokens(prompt: string, counts: TokenCounts | null | undefined) {
+  if (!counts) return;
+  const usage = usageFor(prompt);
+  usage.inputTokens += counts.input_tokens || 0;
+  usage.outputTokens += counts.output_tokens || 0;
+}
+
+export function recordError(prompt: string, kind: AIErrorKind, message: string) {
+  const usage = usageFor(prompt);
+  usage.errors[kind] = (usage.errors[kind] || 0) + 1;
+  usage.lastError = message;
+}
+
+export function getTokenUsage(): { prompts: Record<string, PromptUsage>; inputTokens: number; outputTokens: number } {
+  const prompts = { ...(globalForUsage.vibescrollTokenUsage || {}) };
+  const all = Object.values(prompts);
+  return {
+    prompts,
+    inputTokens: all.reduce((sum, u) => sum + u.inputTokens, 0),
+    outputTokens: all.reduce((sum, u) => sum + u.outputTokens, 0),
+  };
+}
+
+export function resetTokenUsage() {
+  globalForUsage.vibescrollTokenUsage = {};
+}
@@ -0,0 +1,82 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { getServerSession, type NextAuthOptions } from "next-auth";
+import CredentialsProvider from "next-auth/providers/credentials";
+import { getUserStore } from "@/lib/users";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(":");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Email + password. Signing in with an unknown email creates the account,
+// so sync works locally without any mail server or OAuth app.
+export async function authorizeCredentials(
+  email: string | undefined,
+  password: string | undefined
+): Promise<{ id: string; email: string } | null> {
+  if (!email || !password) return null;
+  const normalized = normalizeEmail(email);
+  if (!/^[^\s@]+@[^\s@]+$/.test(normalized) || password.length < MIN_PASSWORD_LENGTH) return null;
+
+  const store = getUserStore();
+  const existing = await store.findByEmail(normalized);
+  if (existing) {
+    return (await verifyPassword(password, existing.passwordHash))
+      ? { id: existing.id, email: existing.email }
+      : null;
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await store.createUser(normalized, passwordHash);
+  // Another sign-in created the account first: this one is just a sign-in
+  if (user.passwordHash !== passwordHash) {
+    return (await verifyPassword(password, user.passwordHash)) ? { id: user.id, email: user.email } : null;
+  }
+  console.log("Created account:", user.id);
+  return { id: user.id, email: user.email };
+}
+
+export const authOptions: NextAuthOptions = {
+  session: { strategy: "jwt" },
+  secret: process.env.NEXTAUTH_SECRET,
+  providers: [
+    CredentialsProvider({
+      name: "Email",
+      credentials: {
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" },
+      },
+      authorize: (credentials) => authorizeCredentials(credentials?.email, credentials?.password),
+    }),
+  ],
+  callbacks: {
+    session({ session, token }) {
+      if (session.user && token.sub) session.user.id = token.sub;
+      return session;
+    },
+  },
+};
+
+// Signed-in user's id for route handlers, or null when logged out
+export async function getSessionUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.id ?? null;
+}
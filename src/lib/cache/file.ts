@@ -0,0 +1,72 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { CacheBackend, CacheEntry } from "./types";
+
+// One JSON file per entry; survives restarts and is shared by every worker
+// on the same disk. Oldest files (by mtime) are pruned past maxEntries.
+export function createFileBackend(dir: string, maxEntries: number): CacheBackend {
+  const fileFor = (key: string) => path.join(dir, `${key}.json`);
+  let ready: Promise<unknown> | null = null;
+
+  function ensureDir() {
+    if (!ready) ready = fs.mkdir(dir, { recursive: true });
+    return ready;
+  }
+
+  async function listFiles(): Promise<string[]> {
+    await ensureDir();
+    const names = await fs.readdir(dir);
+    return names.filter((n) => n.endsWith(".json"));
+  }
+
+  async function prune() {
+    const names = await listFiles();
+    if (names.length <= maxEntries) return;
+
+    const stats = await Promise.all(
+      names.map(async (name) => {
+        const stat = await fs.stat(path.join(dir, name)).catch(() => null);
+        return { name, mtime: stat?.mtimeMs ?? 0 };
+      })
+    );
+    stats.sort((a, b) => a.mtime - b.mtime);
+    await Promise.all(
+      stats
+        .slice(0, stats.length - maxEntries)
+        .map(({ name }) => fs.rm(path.join(dir, name), { force: true }))
+    );
+  }
+
+  return {
+    async get(key) {
+      try {
+        const raw = await fs.readFile(fileFor(key), "utf8");
+        // Touch so pruning treats this as recently used
+        const now = new Date();
+        fs.utimes(fileFor(key), now, now).catch(() => {});
+        return JSON.parse(raw) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async set(key, entry) {
+      await ensureDir();
+      await fs.writeFile(fileFor(key), JSON.stringify(entry), "utf8");
+      await prune();
+    },
+
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+
+    async clear() {
+      const names = await listFiles();
+      await Promise.all(names.map((name) => fs.rm(path.join(dir, name), { force: true })));
+    },
+
+    async size() {
+      return (await listFiles()).length;
+    },
+  };
+}
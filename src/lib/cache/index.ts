@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import path from "path";
+import { createMemoryBackend } from "./memory";
+import { createFileBackend } from "./file";
+import { singleChunk } from "@/lib/streaming";
+import type { CacheBackend, CacheKeyParts, CacheStatus } from "./types";
+
+export { createMemoryBackend } from "./memory";
+export { createFileBackend } from "./file";
+export type * from "./types";
+
+const DEFAULT_TTL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+export interface LLMCacheOptions {
+  backend: CacheBackend;
+  ttlMs: number;
+  now?: () => number;
+}
+
+export type LLMCache = ReturnType<typeof createLLMCache>;
+
+// Lowercase, trim and collapse whitespace so trivially different requests share a key
+function normalise(value: string | undefined): string {
+  return (value || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function buildCacheKey({ route, topic, concept, question }: CacheKeyParts): string {
+  const raw = [route, topic, concept, question].map(normalise).join("\u0000");
+  return createHash("sha256").update(raw).digest("hex");
+}
+
+export function createLLMCache({ backend, ttlMs, now = Date.now }: LLMCacheOptions) {
+  async function get(parts: CacheKeyParts): Promise<string | undefined> {
+    const key = buildCacheKey(parts);
+    const entry = await backend.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now()) {
+      await backend.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async function set(parts: CacheKeyParts, value: string) {
+    const createdAt = now();
+    await backend.set(buildCacheKey(parts), { value, createdAt, expiresAt: createdAt + ttlMs });
+  }
+
+  // Return the cached value or compute, store and return it.
+  // Empty results (failed model calls) are never cached.
+  async function wrap(
+    parts: CacheKeyParts,
+    compute: () => Promise<string>
+  ): Promise<{ value: string; cache: CacheStatus }> {
+    try {
+      const cached = await get(parts);
+      if (cached !== undefined) return { value: cached, cache: "hit" };
+    } catch (err) {
+      console.error("LLM cache read error:", err);
+    }
+
+    const value = await compute();
+    if (value) {
+      await set(parts, value).catch((err) => console.error("LLM cache write error:", err));
+    }
+    return { value, cache: "miss" };
+  }
+
+  return { get, set, wrap, backend };
+}
+
+// Share one cache per process, even across separately bundled route modules
+const globalForCache = globalThis as unknown as { vibescrollLLMCache?: LLMCache | null };
+
+function createConfiguredCache(): LLMCache | null {
+  const backendName = (process.env.LLM_CACHE_BACKEND || "memory").toLowerCase();
+  if (backendName === "off" || backendName === "none") return null;
+
+  const ttlMs = parseInt(process.env.LLM_CACHE_TTL_MS || "", 10) || DEFAULT_TTL_MS;
+  const maxEntries = parseInt(process.env.LLM_CACHE_MAX_ENTRIES || "", 10) || DEFAULT_MAX_ENTRIES;
+
+  const backend = backendName === "file"
+    ? createFileBackend(process.env.LLM_CACHE_DIR || path.join(process.cwd(), ".cache", "llm"), maxEntries)
+    : createMemoryBackend(maxEntries);
+
+  console.log("LLM cache:", { backend: backendName, ttlMs, maxEntries });
+  return createLLMCache({ backend, ttlMs });
+}
+
+// Configured from LLM_CACHE_BACKEND (memory | file | off), LLM_CACHE_TTL_MS,
+// LLM_CACHE_MAX_ENTRIES and LLM_CACHE_DIR
+export function getLLMCache(): LLMCache | null {
+  if (globalForCache.vibescrollLLMCache === undefined) {
+    globalForCache.vibescrollLLMCache = createConfiguredCache();
+  }
+  return globalForCache.vibescrollLLMCache;
+}
+
+export function setLLMCache(cache: LLMCache | null) {
+  globalForCache.vibescrollLLMCache = cache;
+}
+
+// Run compute through the shared cache, or straight through when it's off
+export async function cachedCompletion(
+  parts: CacheKeyParts,
+  compute: () => Promise<string>
+): Promise<{ value: string; cache: CacheStatus }> {
+  const cache = getLLMCache();
+  if (!cache) return { value: await compute(), cache: "off" };
+  return cache.wrap(parts, compute);
+}
+
+// Forward chunks and store the full text once the stream finishes.
+// A stream cancelled part-way never reaches the store.
+async function* storeWhenComplete(
+  chunks: AsyncIterable<string>,
+  store: (text: string) => Promise<void>
+): AsyncGenerator<string> {
+  let text = "";
+  for await (const chunk of chunks) {
+    text += chunk;
+    yield chunk;
+  }
+  if (text) {
+    await store(text).catch((err) => console.error("LLM cache write error:", err));
+  }
+}
+
+// Streaming counterpart of cachedCompletion - hits come back as a single chunk
+export async function cachedStream(
+  parts: CacheKeyParts,
+  produce: () => AsyncIterable<string>
+): Promise<{ chunks: AsyncIterable<string>; cache: CacheStatus }> {
+  const cache = getLLMCache();
+  if (!cache) return { chunks: produce(), cache: "off" };
+
+  try {
+    const cached = await cache.get(parts);
+    if (cached !== undefined) return { chunks: singleChunk(cached), cache: "hit" };
+  } catch (err) {
+    console.error("LLM cache read error:", err);
+  }
+
+  return {
+    chunks: storeWhenComplete(produce(), (text) => cache.set(parts, text)),
+    cache: "miss",
+  };
+}
@@ -0,0 +1,39 @@
+import type { CacheBackend, CacheEntry } from "./types";
+
+// In-process LRU - Map iteration order doubles as recency order
+export function createMemoryBackend(maxEntries: number): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async clear() {
+      entries.clear();
+    },
+
+    async size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+export interface CacheEntry {
+  value: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Storage behind the LLM cache - entries are keyed by a hash of the request
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+export type CacheStatus = "hit" | "miss" | "off";
+
+export interface CacheKeyParts {
+  route: string;
+  topic?: string;
+  concept?: string;
+  question?: string;
+}
@@ -0,0 +1,148 @@
+import type { TopicCategory } from "@/types";
+
+export interface CategoryDefinition {
+  id: TopicCategory;
+  label: string;
+  // Tailwind text colour class for the category label
+  color: string;
+  // Simple single/double word search queries (empty = never searched directly)
+  queries: string[];
+  // Interest tags (InterestsPanel) that boost this category
+  interestTags: string[];
+  // Other names the model tends to use for this category
+  aliases: string[];
+}
+
+// Single source of truth for categories: search planning, the Claude prompt's
+// allowed values, interest tags and card colours all come from here
+const DEFINITIONS: Record<TopicCategory, Omit<CategoryDefinition, "id">> = {
+  news: {
+    label: "News",
+    color: "text-red-400",
+    queries: [],
+    interestTags: [],
+    aliases: ["world", "breaking", "current events"],
+  },
+  tech: {
+    label: "Tech",
+    color: "text-blue-400",
+    queries: ["AI", "technology", "software"],
+    interestTags: ["AI & Machine Learning", "Technology"],
+    aliases: ["technology", "ai", "computing", "software"],
+  },
+  science: {
+    label: "Science",
+    color: "text-green-400",
+    queries: ["science", "research", "discovery"],
+    interestTags: ["Science & Research", "Psychology"],
+    aliases: ["research", "biology", "physics", "chemistry"],
+  },
+  space: {
+    label: "Space",
+    color: "text-violet-400",
+    queries: ["NASA", "space", "rocket"],
+    interestTags: ["Space & Astronomy"],
+    aliases: ["astronomy", "astrophysics", "nasa"],
+  },
+  finance: {
+    label: "Finance",
+    color: "text-yellow-400",
+    queries: ["stocks", "economy", "markets"],
+    interestTags: ["Finance & Economics"],
+    aliases: ["economy", "economics", "markets"],
+  },
+  business: {
+    label: "Business",
+    color: "text-cyan-400",
+    queries: ["business", "company", "startup"],
+    interestTags: ["Business", "Startups"],
+    aliases: ["startups", "companies", "industry"],
+  },
+  politics: {
+    label: "Politics",
+    color: "text-orange-400",
+    queries: ["politics", "congress", "government"],
+    interestTags: ["Politics"],
+    aliases: ["government", "policy", "elections"],
+  },
+  health: {
+    label: "Health",
+    color: "text-teal-400",
+    queries: ["health", "medicine", "doctor"],
+    interestTags: ["Health & Wellness"],
+    aliases: ["medicine", "wellness", "medical"],
+  },
+  environment: {
+    label: "Environment",
+    color: "text-lime-400",
+    queries: ["climate", "energy", "environment"],
+    interestTags: ["Climate & Environment"],
+    aliases: ["climate", "energy", "nature"],
+  },
+  sports: {
+    label: "Sports",
+    color: "text-indigo-400",
+    queries: ["sports", "football", "basketball"],
+    interestTags: ["Sports"],
+    aliases: ["sport"],
+  },
+  entertainment: {
+    label: "Entertainment",
+    color: "text-fuchsia-400",
+    queries: ["movies", "music", "celebrity"],
+    interestTags: ["Entertainment"],
+    aliases: ["movies", "music", "film", "tv", "celebrity"],
+  },
+  culture: {
+    label: "Culture",
+    color: "text-pink-400",
+    queries: ["culture", "trending", "viral"],
+    interestTags: ["Art & Culture", "Philosophy", "History", "Food & Cooking", "Travel"],
+    aliases: ["art", "arts", "lifestyle", "history", "philosophy"],
+  },
+  general: {
+    label: "General",
+    color: "text-neutral-400",
+    queries: [],
+    interestTags: [],
+    aliases: ["other", "misc"],
+  },
+};
+
+export const CATEGORIES: CategoryDefinition[] = (
+  Object.entries(DEFINITIONS) as Array<[TopicCategory, Omit<CategoryDefinition, "id">]>
+).map(([id, def]) => ({ id, ...def }));
+
+export const CATEGORY_IDS: TopicCategory[] = CATEGORIES.map((c) => c.id);
+
+// Categories with search queries - what /api/topics rotates through
+export const SEARCHABLE_CATEGORIES = CATEGORIES.filter((c) => c.queries.length > 0);
+
+// Every interest tag, in category order
+export const INTEREST_TAGS: string[] = CATEGORIES.flatMap((c) => c.interestTags);
+
+export function isTopicCategory(value: unknown): value is TopicCategory {
+  return typeof value === "string" && value in DEFINITIONS;
+}
+
+export function getCategory(id: string): CategoryDefinition {
+  return isTopicCategory(id) ? { id, ...DEFINITIONS[id] } : { id: "general", ...DEFINITIONS.general };
+}
+
+// Map free-form model output onto a known category (ids, labels, aliases),
+// falling back to the category the article was found under, then "general"
+export function coerceCategory(value: unknown, fallback?: string): TopicCategory {
+  if (typeof value === "string") {
+    const normalised = value.toLowerCase().trim();
+    if (isTopicCategory(normalised)) return normalised;
+    const match = CATEGORIES.find(
+      (c) => c.label.toLowerCase() === normalised || c.aliases.includes(normalised)
+    );
+    if (match) return match.id;
+  }
+  return isTopicCategory(fallback) ? fallback : "general";
+}
+
+export function categoriesForInterest(tag: string): TopicCategory[] {
+  return CATEGORIES.filter((c) => c.interestTags.includes(tag)).map((c) => c.id);
+}
@@ -0,0 +1,76 @@
+import type { SearchResult } from "valyu-js";
+import type { Citation } from "@/types";
+
+// A numbered search result plus the text the model gets to read
+export interface CitedSource extends Citation {
+  content: string;
+}
+
+export const CITE_INSTRUCTION =
+  "Cite the numbered sources inline with markers like [1] or [2][3] right after the claims they support. Only cite numbers from the list.";
+
+// Number search results for citing, dropping repeated URLs
+export function toCitedSources(
+  results: SearchResult[],
+  { max = 10, contentLength = 800 }: { max?: number; contentLength?: number } = {}
+): CitedSource[] {
+  const seen = new Set<string>();
+  const sources: CitedSource[] = [];
+  for (const result of results) {
+    if (!result.url || seen.has(result.url) || sources.length >= max) continue;
+    seen.add(result.url);
+    const content = typeof result.content === "string" ? result.content : JSON.stringify(result.content);
+    sources.push({
+      id: sources.length + 1,
+      title: result.title,
+      url: result.url,
+      source: result.source || new URL(result.url).hostname,
+      date: (result.publication_date || result.date)?.slice(0, 10),
+      content: content?.slice(0, contentLength) || "",
+    });
+  }
+  return sources;
+}
+
+// "[1] Title (source, date)" followed by the source text
+export function formatSourcesForPrompt(sources: CitedSource[]): string {
+  return sources
+    .map((s) => `[${s.id}] ${s.title} (${[s.source, s.date].filter(Boolean).join(", ")})\n${s.content}`)
+    .join("\n\n");
+}
+
+export function toCitations(sources: CitedSource[]): Citation[] {
+  return sources.map(({ id, title, url, source, date }) => ({ id, title, url, source, date }));
+}
+
+// Drop [n] markers that don't point at a known citation
+export function removeInvalidMarkers(text: string, citations: Citation[]): string {
+  const ids = new Set(citations.map((c) => c.id));
+  return text
+    .replace(/\[(\d+)\]/g, (marker, n) => (ids.has(Number(n)) ? marker : ""))
+    .replace(/ +([.,;:])/g, "$1");
+}
+
+// Streams and cached values carry their citations in a preamble ahead of the
+// text: \u001e[...json...]\u001e. Plain text without one has no citations.
+const SEPARATOR = "\u001e";
+
+export function citationsPreamble(citations: Citation[]): string {
+  return citations.length > 0 ? `${SEPARATOR}${JSON.stringify(citations)}${SEPARATOR}` : "";
+}
+
+export function withCitations(text: string, citations: Citation[]): string {
+  return text ? citationsPreamble(citations) + text : text;
+}
+
+export function parseCitedText(raw: string): { text: string; citations: Citation[] } {
+  if (!raw.startsWith(SEPARATOR)) return { text: raw, citations: [] };
+  const end = raw.indexOf(SEPARATOR, 1);
+  // Preamble still streaming in
+  if (end === -1) return { text: "", citations: [] };
+  try {
+    return { text: raw.slice(end + 1), citations: JSON.parse(raw.slice(1, end)) };
+  } catch {
+    return { text: raw.slice(end + 1), citations: [] };
+  }
+}
@@ -0,0 +1,58 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { Valyu } from "valyu-js";
+import { createOfflineAnthropic, createOfflineValyu } from "@/lib/offline";
+
+// The slice of the Valyu client the app uses
+export type SearchClient = Pick<Valyu, "search">;
+
+export interface Clients {
+  anthropic: Anthropic | null;
+  valyu: SearchClient | null;
+  // Backed by local fixtures instead of the real APIs
+  offline: boolean;
+}
+
+let clients: Clients | null = null;
+
+// VIBESCROLL_OFFLINE=true swaps both APIs for deterministic local fakes
+export function isOfflineMode(): boolean {
+  const value = process.env.VIBESCROLL_OFFLINE?.toLowerCase();
+  return value === "true" || value === "1";
+}
+
+function createClients(): Clients {
+  if (isOfflineMode()) {
+    const delay = parseInt(process.env.VIBESCROLL_OFFLINE_STREAM_DELAY_MS || "", 10);
+    return {
+      anthropic: createOfflineAnthropic(isNaN(delay) ? {} : { streamDelayMs: delay }),
+      valyu: createOfflineValyu(),
+      offline: true,
+    };
+  }
+
+  return {
+    anthropic: process.env.ANTHROPIC_API_KEY
+      ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+      : null,
+    valyu: process.env.VALYU_API_KEY ? new Valyu(process.env.VALYU_API_KEY) : null,
+    offline: false,
+  };
+}
+
+// Shared clients for every route; null entries mean "use the demo fallback"
+export function getClients(): Clients {
+  if (!clients) {
+    clients = createClients();
+    console.log("API clients:", {
+      mode: clients.offline ? "offline" : "live",
+      anthropic: !!clients.anthropic,
+      valyu: !!clients.valyu,
+    });
+  }
+  return clients;
+}
+
+// Swap the shared clients (tests, custom setups); null re-reads the environment
+export function setClients(next: Clients | null) {
+  clients = next;
+}
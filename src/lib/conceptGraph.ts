@@ -0,0 +1,228 @@
+import type { ConceptGraph, GraphEdge, GraphNode, Topic } from "@/types";
+
+// Personal concept graph - pure helpers, storage lives in useConceptGraph
+
+// Oldest nodes (by last visit) are dropped beyond this
+export const MAX_GRAPH_NODES = 400;
+
+export function emptyGraph(): ConceptGraph {
+  return { nodes: {}, edges: {} };
+}
+
+export function topicNodeId(topicId: string): string {
+  return `topic:${topicId}`;
+}
+
+export function conceptNodeId(concept: string): string {
+  return `concept:${concept.toLowerCase().trim().replace(/\s+/g, " ")}`;
+}
+
+function edgeId(from: string, to: string, kind: GraphEdge["kind"]): string {
+  return `${kind}:${from}->${to}`;
+}
+
+export interface Exploration {
+  topic: Pick<Topic, "id" | "title" | "category" | "sourceUrl">;
+  concept: string;
+  // Concept whose explanation this was reached from (nested exploration)
+  parent?: string;
+  via: GraphEdge["kind"];
+}
+
+// Add an exploration: the topic and concept nodes, and the edge between them
+export function recordExploration(
+  graph: ConceptGraph,
+  { topic, concept, parent, via }: Exploration,
+  now: number = Date.now()
+): ConceptGraph {
+  const label = concept.trim();
+  if (!label) return graph;
+
+  const nodes = { ...graph.nodes };
+  const edges = { ...graph.edges };
+
+  const topicId = topicNodeId(topic.id);
+  nodes[topicId] = {
+    ...nodes[topicId],
+    id: topicId,
+    kind: "topic",
+    label: topic.title,
+    category: topic.category,
+    topicId: topic.id,
+    sourceUrl: topic.sourceUrl,
+    visits: (nodes[topicId]?.visits || 0) + 1,
+    firstSeen: nodes[topicId]?.firstSeen || now,
+    lastSeen: now,
+  };
+
+  const conceptId = conceptNodeId(label);
+  const existing = nodes[conceptId];
+  nodes[conceptId] = {
+    id: conceptId,
+    kind: "concept",
+    label: existing?.label || label,
+    topicIds: [...new Set([...(existing?.topicIds || []), topic.id])],
+    visits: (existing?.visits || 0) + 1,
+    firstSeen: existing?.firstSeen || now,
+    lastSeen: now,
+  };
+
+  // Drilled down from another concept, or straight from the topic
+  let from = topicId;
+  if (parent && conceptNodeId(parent) !== conceptId) {
+    from = conceptNodeId(parent);
+    nodes[from] = nodes[from] || {
+      id: from,
+      kind: "concept",
+      label: parent.trim(),
+      topicIds: [topic.id],
+      visits: 1,
+      firstSeen: now,
+      lastSeen: now,
+    };
+  }
+
+  const id = edgeId(from, conceptId, via);
+  edges[id] = { from, to: conceptId, kind: via, weight: (edges[id]?.weight || 0) + 1, lastSeen: now };
+
+  return pruneGraph({ nodes, edges });
+}
+
+// Keep the most recently visited nodes and the edges between them
+export function pruneGraph(graph: ConceptGraph, maxNodes: number = MAX_GRAPH_NODES): ConceptGraph {
+  const nodes = Object.values(graph.nodes);
+  if (nodes.length <= maxNodes) return graph;
+
+  const kept = new Set(
+    nodes
+      .sort((a, b) => b.lastSeen - a.lastSeen)
+      .slice(0, maxNodes)
+      .map((node) => node.id)
+  );
+  return {
+    nodes: Object.fromEntries(Object.entries(graph.nodes).filter(([id]) => kept.has(id))),
+    edges: Object.fromEntries(
+      Object.entries(graph.edges).filter(([, edge]) => kept.has(edge.from) && kept.has(edge.to))
+    ),
+  };
+}
+
+export interface CoOccurrence {
+  from: string;
+  to: string;
+  // Topics both concepts were explored in
+  shared: number;
+}
+
+// Concepts that keep turning up together, across at least minShared topics
+export function coOccurrences(graph: ConceptGraph, minShared = 2): CoOccurrence[] {
+  const concepts = Object.values(graph.nodes).filter((node) => (node.topicIds?.length || 0) >= minShared);
+  const pairs: CoOccurrence[] = [];
+
+  for (let i = 0; i < concepts.length; i++) {
+    const topics = new Set(concepts[i].topicIds);
+    for (let j = i + 1; j < concepts.length; j++) {
+      const shared = (concepts[j].topicIds || []).filter((id) => topics.has(id)).length;
+      if (shared >= minShared) pairs.push({ from: concepts[i].id, to: concepts[j].id, shared });
+    }
+  }
+  return pairs;
+}
+
+export interface GraphView {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  coOccurrences: CoOccurrence[];
+}
+
+// The most recent part of the graph, small enough to draw
+export function recentSubgraph(graph: ConceptGraph, limit = 60): GraphView {
+  const nodes = Object.values(graph.nodes)
+    .sort((a, b) => b.lastSeen - a.lastSeen)
+    .slice(0, limit);
+  const ids = new Set(nodes.map((node) => node.id));
+  const within = (link: { from: string; to: string }) => ids.has(link.from) && ids.has(link.to);
+
+  return {
+    nodes,
+    edges: Object.values(graph.edges).filter(within),
+    coOccurrences: coOccurrences(graph).filter(within),
+  };
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Stable pseudo-random start point per node, so the same graph always lays out the same way
+function seedPoint(id: string, width: number, height: number): Point {
+  let hash = 2166136261;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  const a = (hash >>> 0) / 4294967296;
+  const b = (Math.imul(hash, 2654435761) >>> 0) / 4294967296;
+  return { x: width * (0.1 + 0.8 * a), y: height * (0.1 + 0.8 * b) };
+}
+
+// Force-directed layout (Fruchterman-Reingold): linked nodes pull together, all nodes push apart
+export function layoutGraph(
+  nodeIds: string[],
+  links: { from: string; to: string }[],
+  { width = 1000, height = 700, iterations = 200 }: { width?: number; height?: number; iterations?: number } = {}
+): Record<string, Point> {
+  const positions: Record<string, Point> = {};
+  nodeIds.forEach((id) => (positions[id] = seedPoint(id, width, height)));
+  if (nodeIds.length < 2) {
+    nodeIds.forEach((id) => (positions[id] = { x: width / 2, y: height / 2 }));
+    return positions;
+  }
+
+  const k = Math.sqrt((width * height) / nodeIds.length) * 0.6;
+  const valid = links.filter((link) => positions[link.from] && positions[link.to] && link.from !== link.to);
+  let temperature = width / 10;
+
+  for (let step = 0; step < iterations; step++) {
+    const moves: Record<string, Point> = {};
+    nodeIds.forEach((id) => (moves[id] = { x: 0, y: 0 }));
+
+    for (let i = 0; i < nodeIds.length; i++) {
+      for (let j = i + 1; j < nodeIds.length; j++) {
+        const a = positions[nodeIds[i]];
+        const b = positions[nodeIds[j]];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / distance;
+        moves[nodeIds[i]].x += (dx / distance) * force;
+        moves[nodeIds[i]].y += (dy / distance) * force;
+        moves[nodeIds[j]].x -= (dx / distance) * force;
+        moves[nodeIds[j]].y -= (dy / distance) * force;
+      }
+    }
+
+    for (const { from, to } of valid) {
+      const dx = positions[from].x - positions[to].x;
+      const dy = positions[from].y - positions[to].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / k;
+      moves[from].x -= (dx / distance) * force;
+      moves[from].y -= (dy / distance) * force;
+      moves[to].x += (dx / distance) * force;
+      moves[to].y += (dy / distance) * force;
+    }
+
+    for (const id of nodeIds) {
+      const { x, y } = moves[id];
+      const length = Math.max(Math.hypot(x, y), 0.01);
+      const p = positions[id];
+      p.x = Math.min(width - 40, Math.max(40, p.x + (x / length) * Math.min(length, temperature)));
+      p.y = Math.min(height - 30, Math.max(30, p.y + (y / length) * Math.min(length, temperature)));
+    }
+    temperature *= 0.97;
+  }
+
+  return positions;
+}
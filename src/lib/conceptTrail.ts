@@ -0,0 +1,53 @@
+// Nested concept exploration: each explored term sits on a stack, so the
+// explorer can drill down, pop back one level, or jump to any breadcrumb.
+
+export type ConceptStatus = "loading" | "streaming" | "done";
+
+export interface ConceptStep {
+  id: number;
+  concept: string;
+  question?: string;
+  content: string | null;
+  status: ConceptStatus;
+}
+
+// Shared by the in-memory concept cache and the persisted content store. The
+// path above a nested concept changes its answer, so it's part of the key.
+export function conceptCacheKey(concept: string, question?: string, path: string[] = []): string {
+  const trail = [...path, concept].map((c) => c.toLowerCase().trim()).join(" → ");
+  return question ? `${trail}::${question.toLowerCase().trim()}` : trail;
+}
+
+// Title shown in the explorer; questions are shown under the concept
+export function stepTitle(step: ConceptStep): string {
+  return step.question ? `${step.concept}\n\n❓ ${step.question}` : step.concept;
+}
+
+// The concept (and question) is the innermost level already
+export function isOnTop(trail: ConceptStep[], concept: string, question?: string): boolean {
+  const top = trail[trail.length - 1];
+  return !!top && conceptCacheKey(top.concept, top.question) === conceptCacheKey(concept, question);
+}
+
+// Add a level, unless it's the one already on top
+export function pushStep(trail: ConceptStep[], step: ConceptStep): ConceptStep[] {
+  return isOnTop(trail, step.concept, step.question) ? trail : [...trail, step];
+}
+
+// Streamed tokens land on their own step, even after the reader drilled deeper
+export function updateStep(trail: ConceptStep[], id: number, patch: Partial<ConceptStep>): ConceptStep[] {
+  return trail.some((step) => step.id === id)
+    ? trail.map((step) => (step.id === id ? { ...step, ...patch } : step))
+    : trail;
+}
+
+// Keep levels 0..index; returns the dropped steps so their streams can be cancelled
+export function truncateTrail(trail: ConceptStep[], index: number): { trail: ConceptStep[]; removed: ConceptStep[] } {
+  return { trail: trail.slice(0, Math.max(index + 1, 0)), removed: trail.slice(Math.max(index + 1, 0)) };
+}
+
+// Concepts that led to the given step, outermost first
+export function pathTo(trail: ConceptStep[], id: number): string[] {
+  const index = trail.findIndex((step) => step.id === id);
+  return trail.slice(0, index === -1 ? trail.length : index).map((step) => step.concept);
+}
@@ -0,0 +1,19 @@
+import type { ContentRecord, EvictionPolicy } from "./types";
+
+// Keys to drop: everything older than maxAgeMs, then the least recently
+// used records until at most maxEntries remain
+export function selectEvictions(
+  records: ContentRecord[],
+  { maxEntries, maxAgeMs }: EvictionPolicy,
+  now: number = Date.now()
+): string[] {
+  const expired = records.filter((r) => now - r.createdAt > maxAgeMs);
+  const live = records
+    .filter((r) => now - r.createdAt <= maxAgeMs)
+    .sort((a, b) => b.accessedAt - a.accessedAt);
+  return [...expired, ...live.slice(maxEntries)].map((r) => r.key);
+}
+
+export function isExpired(record: ContentRecord, { maxAgeMs }: EvictionPolicy, now: number = Date.now()) {
+  return now - record.createdAt > maxAgeMs;
+}
@@ -0,0 +1,41 @@
+import { createMemoryContentStore } from "./memory";
+import { createIndexedDbContentStore } from "./indexedDb";
+import type { ContentRecord, ContentStore, EvictionPolicy } from "./types";
+
+export { createMemoryContentStore } from "./memory";
+export { createIndexedDbContentStore } from "./indexedDb";
+export { selectEvictions } from "./eviction";
+export type * from "./types";
+
+// Generated content is kept for a week, at most 300 records
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = {
+  maxEntries: 300,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Keys for each kind of persisted content
+export const expansionKey = (topicId: string) => `expansion:${topicId}`;
+export const conceptKey = (cacheKey: string) => `concept:${cacheKey}`;
+export const researchKey = (topicId: string) => `research:${topicId}`;
+export const threadKey = (topicId: string) => `thread:${topicId}`;
+
+// The topic id / concept cache key a record was stored under
+export function contentId(record: ContentRecord): string {
+  return record.key.slice(record.kind.length + 1);
+}
+
+let contentStore: ContentStore | null = null;
+
+export function getContentStore(): ContentStore {
+  if (!contentStore) {
+    contentStore = typeof indexedDB !== "undefined"
+      ? createIndexedDbContentStore(DEFAULT_EVICTION_POLICY)
+      : createMemoryContentStore(DEFAULT_EVICTION_POLICY);
+  }
+  return contentStore;
+}
+
+// Swap the store (tests, custom setups); null goes back to the default
+export function setContentStore(store: ContentStore | null) {
+  contentStore = store;
+}
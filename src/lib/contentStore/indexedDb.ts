@@ -0,0 +1,91 @@
+import { isExpired, selectEvictions } from "./eviction";
+import type { ContentRecord, ContentStore, EvictionPolicy } from "./types";
+
+const DB_NAME = "vibescroll";
+const DB_VERSION = 1;
+const STORE_NAME = "content";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      store.createIndex("kind", "kind");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Records live in one object store keyed by `key`, with an index on `kind`
+export function createIndexedDbContentStore(
+  policy: EvictionPolicy,
+  factory: IDBFactory = indexedDB,
+  now: () => number = Date.now
+): ContentStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    if (!dbPromise) {
+      dbPromise = openDatabase(factory).catch((err) => {
+        dbPromise = null; // Let the next call try again
+        throw err;
+      });
+    }
+    const db = await dbPromise;
+    return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  }
+
+  async function prune() {
+    const records = await withStore<ContentRecord[]>("readonly", (store) => store.getAll());
+    const evict = selectEvictions(records, policy, now());
+    await Promise.all(evict.map((key) => withStore("readwrite", (store) => store.delete(key))));
+  }
+
+  return {
+    async get(key) {
+      const record = await withStore<ContentRecord | undefined>("readonly", (store) => store.get(key));
+      if (!record) return undefined;
+      if (isExpired(record, policy, now())) {
+        await withStore("readwrite", (store) => store.delete(key));
+        return undefined;
+      }
+      const touched = { ...record, accessedAt: now() };
+      await withStore("readwrite", (store) => store.put(touched));
+      return touched;
+    },
+
+    async getAll(kind) {
+      const records = await withStore<ContentRecord[]>("readonly", (store) =>
+        store.index("kind").getAll(kind)
+      );
+      return records.filter((r) => !isExpired(r, policy, now()));
+    },
+
+    async put(kind, key, value) {
+      const time = now();
+      await withStore("readwrite", (store) =>
+        store.put({ key, kind, value, createdAt: time, accessedAt: time })
+      );
+      await prune();
+    },
+
+    async delete(key) {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+
+    async clear() {
+      await withStore("readwrite", (store) => store.clear());
+    },
+  };
+}
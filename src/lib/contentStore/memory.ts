@@ -0,0 +1,40 @@
+import { isExpired, selectEvictions } from "./eviction";
+import type { ContentRecord, ContentStore, EvictionPolicy } from "./types";
+
+// Fallback when IndexedDB isn't available (server render, tests, private modes)
+export function createMemoryContentStore(policy: EvictionPolicy, now: () => number = Date.now): ContentStore {
+  const records = new Map<string, ContentRecord>();
+
+  return {
+    async get(key) {
+      const record = records.get(key);
+      if (!record) return undefined;
+      if (isExpired(record, policy, now())) {
+        records.delete(key);
+        return undefined;
+      }
+      record.accessedAt = now();
+      return record;
+    },
+
+    async getAll(kind) {
+      return Array.from(records.values()).filter(
+        (r) => r.kind === kind && !isExpired(r, policy, now())
+      );
+    },
+
+    async put(kind, key, value) {
+      const time = now();
+      records.set(key, { key, kind, value, createdAt: time, accessedAt: time });
+      selectEvictions(Array.from(records.values()), policy, time).forEach((k) => records.delete(k));
+    },
+
+    async delete(key) {
+      records.delete(key);
+    },
+
+    async clear() {
+      records.clear();
+    },
+  };
+}
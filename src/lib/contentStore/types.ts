@@ -0,0 +1,26 @@
+export type ContentKind = "expansion" | "concept" | "research" | "thread";
+
+// A generated piece of text kept in the browser between sessions
+export interface ContentRecord {
+  key: string;
+  kind: ContentKind;
+  value: string;
+  createdAt: number;
+  accessedAt: number;
+}
+
+export interface EvictionPolicy {
+  maxEntries: number;
+  maxAgeMs: number;
+}
+
+// Client-side storage for deep dives, concept explorations and research reports
+export interface ContentStore {
+  // Marks the record as recently used
+  get(key: string): Promise<ContentRecord | undefined>;
+  getAll(kind: ContentKind): Promise<ContentRecord[]>;
+  // Writes and then applies the eviction policy
+  put(kind: ContentKind, key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,75 @@
+import type { ViewDepth } from "@/types";
+
+// Implicit feedback: what the reader does with a card, logged as events and
+// boiled down per visit into a signal for the preference model. A visit runs
+// from landing on a card to leaving it.
+
+export type EngagementEvent =
+  | { kind: "view"; topicId: string; at: number }
+  | { kind: "depth"; topicId: string; at: number; depth: ViewDepth }
+  | { kind: "explore"; topicId: string; at: number; concept: string }
+  | { kind: "question"; topicId: string; at: number }
+  | { kind: "leave"; topicId: string; at: number };
+
+export interface VisitSummary {
+  topicId: string;
+  dwellMs: number;
+  depth: ViewDepth;
+  explores: number;
+  questions: number;
+}
+
+// Keep the stored log bounded, newest last
+export const MAX_LOGGED_EVENTS = 500;
+
+// Left before this without doing anything: a skip
+export const SKIP_MS = 2000;
+// Stayed at least this long: actually read it
+export const READ_MS = 15000;
+
+const DEPTH_ORDER: ViewDepth[] = ["summary", "expanded", "detail"];
+
+// Reaching the full story or the deep dive is a stronger signal than dwell
+const DEPTH_SIGNAL: Record<ViewDepth, number> = { summary: 0, expanded: 0.25, detail: 0.5 };
+const READ_SIGNAL = 0.25;
+const EXPLORE_SIGNAL = 0.15;
+const QUESTION_SIGNAL = 0.25;
+const SKIP_SIGNAL = -0.25;
+// Implicit engagement never counts for more than a like
+const MAX_SIGNAL = 1;
+
+export function appendEvents(log: EngagementEvent[], events: EngagementEvent[]): EngagementEvent[] {
+  return [...log, ...events].slice(-MAX_LOGGED_EVENTS);
+}
+
+// One visit's events (view ... leave) as dwell time, deepest level and counts
+export function summarizeVisit(events: EngagementEvent[]): VisitSummary | null {
+  const view = events.find((e) => e.kind === "view");
+  if (!view) return null;
+
+  const last = events[events.length - 1];
+  let depth: ViewDepth = "summary";
+  let explores = 0;
+  let questions = 0;
+  for (const event of events) {
+    if (event.kind === "depth" && DEPTH_ORDER.indexOf(event.depth) > DEPTH_ORDER.indexOf(depth)) depth = event.depth;
+    if (event.kind === "explore") explores++;
+    if (event.kind === "question") questions++;
+  }
+
+  return { topicId: view.topicId, dwellMs: Math.max(0, last.at - view.at), depth, explores, questions };
+}
+
+// How much a visit says about the reader's taste: negative for a quick skip,
+// positive (up to a like's worth) for reading, going deeper, exploring and asking
+export function engagementSignal(visit: VisitSummary): number {
+  const engaged = visit.depth !== "summary" || visit.explores > 0 || visit.questions > 0;
+  if (!engaged && visit.dwellMs < SKIP_MS) return SKIP_SIGNAL;
+
+  const signal =
+    (visit.dwellMs >= READ_MS ? READ_SIGNAL : 0) +
+    DEPTH_SIGNAL[visit.depth] +
+    Math.min(visit.explores, 3) * EXPLORE_SIGNAL +
+    Math.min(visit.questions, 2) * QUESTION_SIGNAL;
+  return Math.min(MAX_SIGNAL, Math.round(signal * 100) / 100);
+}
@@ -0,0 +1,88 @@
+import type { ExploredConcept, QATurn, SavedTopic, Topic } from "@/types";
+import { getCategory } from "@/lib/categories";
+import { parseCitedText } from "@/lib/citations";
+
+// Saved topics (the reading list) - pure helpers, storage lives in useLibrary
+
+export interface TopicSnapshot {
+  topic: Topic;
+  concepts: ExploredConcept[];
+  thread?: QATurn[];
+}
+
+// Add or refresh a saved topic. Re-saving keeps its savedAt and archive state.
+export function upsertSavedTopic(
+  items: SavedTopic[],
+  { topic, concepts, thread = [] }: TopicSnapshot,
+  now: number = Date.now()
+): SavedTopic[] {
+  const existing = items.find((item) => item.topic.id === topic.id);
+  if (existing) {
+    // Nothing new to keep - hand back the same list so callers can skip the write
+    if (
+      (!topic.expansion || topic.expansion.fullContent === existing.topic.expansion?.fullContent) &&
+      (concepts.length === 0 || JSON.stringify(concepts) === JSON.stringify(existing.concepts)) &&
+      (thread.length === 0 || JSON.stringify(thread) === JSON.stringify(existing.thread))
+    ) {
+      return items;
+    }
+    return items.map((item) =>
+      item === existing
+        ? {
+            ...item,
+            topic: { ...topic, expansion: topic.expansion || item.topic.expansion },
+            concepts: concepts.length > 0 ? concepts : item.concepts,
+            thread: thread.length > 0 ? thread : item.thread,
+          }
+        : item
+    );
+  }
+  return [{ topic, concepts, ...(thread.length > 0 && { thread }), savedAt: now, archived: false }, ...items];
+}
+
+// Latest answer wins for the same concept + question
+export function addExploredConcept(list: ExploredConcept[], entry: ExploredConcept): ExploredConcept[] {
+  const key = (c: ExploredConcept) => `${c.concept.toLowerCase().trim()}::${(c.question || "").toLowerCase().trim()}`;
+  return [...list.filter((c) => key(c) !== key(entry)), entry];
+}
+
+export function removeSavedTopic(items: SavedTopic[], topicId: string): SavedTopic[] {
+  return items.filter((item) => item.topic.id !== topicId);
+}
+
+export function setArchived(items: SavedTopic[], topicId: string, archived: boolean): SavedTopic[] {
+  return items.map((item) => (item.topic.id === topicId ? { ...item, archived } : item));
+}
+
+function searchableText({ topic, concepts, thread = [] }: SavedTopic): string {
+  return [
+    topic.title,
+    topic.summary,
+    topic.content,
+    topic.source,
+    getCategory(topic.category).label,
+    topic.expansion?.fullContent,
+    ...concepts.flatMap((c) => [c.concept, c.question, parseCitedText(c.content).text]),
+    ...thread.flatMap((turn) => [turn.question, turn.answer]),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+// Newest first; every word of the query has to appear somewhere in the item
+export function searchLibrary(
+  items: SavedTopic[],
+  query: string,
+  { archived = false }: { archived?: boolean } = {}
+): SavedTopic[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items
+    .filter((item) => item.archived === archived)
+    .filter((item) => {
+      if (words.length === 0) return true;
+      const text = searchableText(item);
+      return words.every((word) => text.includes(word));
+    })
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
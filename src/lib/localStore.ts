@@ -0,0 +1,62 @@
+// A JSON value in localStorage, shaped for useSyncExternalStore: the server
+// (and the hydrating first render) sees `fallback`, the client the stored
+// value, and every hook using the same store re-renders after a write.
+
+export interface LocalStore<T> {
+  subscribe(listener: () => void): () => void;
+  getSnapshot(): T;
+  getServerSnapshot(): T;
+  set(value: T): void;
+}
+
+export function createLocalStore<T>(key: string, fallback: T): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  // Parsed once per stored string, so snapshots stay referentially stable
+  let cached: { raw: string | null; value: T } | null = null;
+
+  const read = (): string | null => {
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    getSnapshot() {
+      const raw = read();
+      if (cached?.raw !== raw) {
+        let value = fallback;
+        try {
+          if (raw) value = JSON.parse(raw);
+        } catch {
+          // Corrupt entry: start over
+        }
+        cached = { raw, value };
+      }
+      return cached!.value;
+    },
+
+    getServerSnapshot() {
+      return fallback;
+    },
+
+    set(value) {
+      try {
+        const raw = JSON.stringify(value);
+        localStorage.setItem(key, raw);
+        cached = { raw, value };
+      } catch (e) {
+        // Storage full or unavailable: keep the value for this session anyway
+        console.error(`Failed to save ${key}:`, e);
+        cached = { raw: read(), value };
+      }
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
@@ -0,0 +1,131 @@
+// Small markdown parser for model output. It only knows the subset the prompts
+// ask for (headings, lists, quotes, bold/italic/code, links) and produces plain
+// data, so nothing the model writes is ever rendered as HTML.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "rule" };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+•]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+// Links only to the web; anything else (javascript:, data:) stays as text
+export function safeHref(href: string): string | null {
+  return /^https?:\/\//i.test(href.trim()) ? href.trim() : null;
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plain = "";
+  let i = 0;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: "text", text: plain });
+    plain = "";
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^`([^`]+)`/))) {
+      flush();
+      nodes.push({ type: "code", text: match[1] });
+    } else if ((match = rest.match(/^(\*\*|__)(?=\S)([\s\S]*?\S)\1/))) {
+      flush();
+      nodes.push({ type: "strong", children: parseInline(match[2]) });
+    } else if ((match = rest.match(/^([*_])(?=\S)([^*_]*?\S)\1(?![*_])/)) && !/\w/.test(text[i - 1] || "")) {
+      flush();
+      nodes.push({ type: "em", children: parseInline(match[2]) });
+    } else if ((match = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/))) {
+      const href = safeHref(match[2]);
+      if (!href) {
+        plain += match[1];
+      } else {
+        flush();
+        nodes.push({ type: "link", href, children: parseInline(match[1]) });
+      }
+    } else {
+      // Unclosed markers (e.g. mid-stream) are kept as literal text
+      plain += text[i];
+      i++;
+      continue;
+    }
+    i += match[0].length;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+    if (list) blocks.push({ type: "list", ordered: list.ordered, items: list.items.map(parseInline) });
+    if (quote.length) blocks.push({ type: "quote", children: parseInline(quote.join("\n")) });
+    paragraph = [];
+    list = null;
+    quote = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    let match: RegExpMatchArray | null;
+
+    if (!line.trim()) {
+      flush();
+    } else if ((match = line.match(HEADING))) {
+      flush();
+      blocks.push({ type: "heading", level: match[1].length, children: parseInline(match[2].replace(/\s+#+\s*$/, "")) });
+    } else if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: "rule" });
+    } else if ((match = line.match(BULLET) || line.match(NUMBERED))) {
+      const ordered = !BULLET.test(line);
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(match[1]);
+    } else if ((match = line.match(QUOTE))) {
+      if (!quote.length) flush();
+      quote.push(match[1]);
+    } else if (list && /^\s+/.test(line)) {
+      // Indented continuation of the last item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list || quote.length) flush();
+      paragraph.push(line);
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+export function inlineText(nodes: MarkdownInline[]): string {
+  return nodes.map((node) => ("children" in node ? inlineText(node.children) : node.text)).join("");
+}
+
+// Bold text worth exploring: a short term, not a label like "**Why it matters:**"
+export function isExploreTerm(text: string): boolean {
+  const term = text.replace(/\[\d+\]/g, "").trim();
+  return term.length > 1 && term.length <= 60 && term.split(/\s+/).length <= 6 && !/[:?!.]$/.test(term);
+}
@@ -0,0 +1,310 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
+import type {
+  MessageCreateParamsNonStreaming,
+  MessageParam,
+  RawMessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages";
+import { FIXTURE_THOUGHTS } from "./fixtures";
+import { hashString, keyPhrases, keywords, leadSentences, sentences } from "./text";
+
+// Streaming and non-streaming calls are answered the same way
+type Params = Pick<MessageCreateParamsNonStreaming, "messages">;
+
+function messageText(message: MessageParam | undefined): string {
+  if (!message) return "";
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((block) => (block.type === "text" ? block.text : "")).join("\n");
+}
+
+// --- Article processing (topics) ---
+
+interface ArticleInput {
+  title: string;
+  content: string;
+  category?: string;
+}
+
+function parseArticle(block: string): ArticleInput | null {
+  const title = block.match(/^(?:Article )?Title: (.*)$/im)?.[1]?.trim();
+  const content = block.match(/^(?:Article )?Content: ([\s\S]*?)(?:\n\n|\nFound while searching|\nReturn ONLY|$)/im)?.[1];
+  if (!title || !content) return null;
+  return {
+    title,
+    content: content.trim(),
+    category: block.match(/Found while searching the "([\w-]+)" category/)?.[1],
+  };
+}
+
+function summariseArticle({ title, content, category }: ArticleInput) {
+  const body = leadSentences(content, 600);
+  return {
+    title: title.slice(0, 80),
+    summary: leadSentences(content, 200),
+    content: body,
+    category: category || "general",
+    highlights: keyPhrases(body, 4).map((text) => ({ text, reason: "Key term in the article" })),
+  };
+}
+
+function processArticles(prompt: string): string {
+  if (/Analyze each of these \d+ articles/.test(prompt)) {
+    const body = prompt.split(/\nReturn ONLY/)[0];
+    const topics = body
+      .split(/\n---\n/)
+      .map((block) => ({ number: Number(block.match(/Article (\d+)/)?.[1]), article: parseArticle(block) }))
+      .filter(({ number, article }) => number && article)
+      .map(({ number, article }) => ({ article: number, ...summariseArticle(article!) }));
+    return JSON.stringify(topics, null, 2);
+  }
+
+  const article = parseArticle(prompt);
+  return JSON.stringify(article ? summariseArticle(article) : {}, null, 2);
+}
+
+// One story from several outlets: the lead article's card plus each source's opening as its framing
+function storyPerspectives(prompt: string): string {
+  const body = prompt.split(/\nReturn ONLY/)[0];
+  const sources = body
+    .split(/\n---\n/)
+    .map((block) => {
+      const heading = block.match(/Source (\d+): (.*)/);
+      return { number: Number(heading?.[1]), name: heading?.[2]?.trim(), article: parseArticle(block) };
+    })
+    .filter(({ number, article }) => number && article);
+  if (sources.length === 0) return "{}";
+
+  return JSON.stringify(
+    {
+      ...summariseArticle(sources[0].article!),
+      perspectives: sources.map(({ number, name, article }) => ({
+        source: number,
+        framing: `${name} leads with "${article!.title}": ${leadSentences(article!.content, 120)}`.slice(0, 200),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// --- Other JSON prompts ---
+
+function aiThoughts(prompt: string, offset: number): string {
+  const count = parseInt(prompt.match(/Generate (\d+) pieces/)?.[1] || "2", 10);
+  const thoughts = Array.from({ length: count }, (_, i) => {
+    const thought = FIXTURE_THOUGHTS[(offset + i) % FIXTURE_THOUGHTS.length];
+    return { ...thought, highlights: thought.highlights.map((text) => ({ text })) };
+  });
+  return JSON.stringify(thoughts, null, 2);
+}
+
+function profileQueries(prompt: string): string {
+  const profile = prompt.match(/"([\s\S]*?)"/)?.[1] || "";
+  const terms = [...new Set(keywords(profile).filter((word) => word.length >= 5))];
+  return JSON.stringify(terms.slice(0, 3));
+}
+
+// --- Research (/api/research) ---
+
+function researchPlan(prompt: string): string {
+  const topic = prompt.match(/^Topic: (.+)$/m)?.[1]?.trim() || "this topic";
+  return JSON.stringify(
+    { subQuestions: [`What happened with ${topic}?`, `Why does ${topic} matter?`, `Who disagrees about ${topic}?`] },
+    null,
+    2
+  );
+}
+
+interface PromptSource {
+  id: number;
+  title: string;
+  date?: string;
+  sentences: string[];
+}
+
+// "[n] Title (source, date)\nFound for: ...\ncontent" blocks from the report prompt
+function promptSources(prompt: string): PromptSource[] {
+  const section = prompt.split(/\nSources:\n/)[1]?.split(/\nReturn ONLY/)[0] || "";
+  return section
+    .split(/\n\n(?=\[\d+\] )/)
+    .map((block): PromptSource | null => {
+      const [header = "", , ...body] = block.trim().split("\n");
+      const match = header.match(/^\[(\d+)\] (.*) \((.*)\)$/);
+      if (!match) return null;
+      const date = match[3].split(", ").find((part) => /^\d{4}-\d{2}-\d{2}/.test(part));
+      return { id: Number(match[1]), title: match[2], date: date?.slice(0, 10), sentences: sentences(body.join(" ")) };
+    })
+    .filter((source): source is PromptSource => !!source && source.sentences.length > 0);
+}
+
+function researchReport(prompt: string): string {
+  const listed = prompt.split(/\nSub-questions:\n/)[1]?.split(/\n\nSources:/)[0] || "";
+  const questions = [...listed.matchAll(/^\d+\. (.+)$/gm)].map((m) => m[1]);
+  const sources = promptSources(prompt);
+  if (sources.length === 0) return JSON.stringify({ synthesis: "The offline fixtures had nothing on this." });
+
+  const at = (i: number) => sources[i % sources.length];
+  const cited = (source: PromptSource, sentence = 0) =>
+    `${source.sentences[Math.min(sentence, source.sentences.length - 1)]} [${source.id}]`;
+
+  return JSON.stringify(
+    {
+      synthesis: [
+        ...sources.slice(0, 3).map((source) => `${source.sentences.slice(0, 2).join(" ")} [${source.id}]`),
+        "_Offline mode: assembled locally from fixtures, not by Claude._",
+      ].join("\n\n"),
+      findings: questions.map((question, i) => ({ question, answer: cited(at(i)), sources: [at(i).id] })),
+      timeline: sources
+        .filter((source) => source.date)
+        .sort((a, b) => a.date!.localeCompare(b.date!))
+        .map((source) => ({ date: source.date, event: source.title, sources: [source.id] })),
+      viewpoints: [
+        { position: "The case for", argument: cited(at(0)), sources: [at(0).id] },
+        { position: "The case against", argument: cited(at(1), 1), sources: [at(1).id] },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+// --- Prose (expand, explore, ask, highlight explanations) ---
+
+const SUBJECT_PATTERNS = [
+  /Their question about it: "([^"]+)"/,
+  /Explain the concept: "([^"]+)"/,
+  /Explain this specific aspect: "([^"]+)"/,
+  /^Question: (.+)$/m,
+  /^Topic: (.+)$/m,
+];
+
+const CONTEXT_LABELS = [
+  "Original content:",
+  "Additional research:",
+  "Context it appeared in:",
+  "This appeared in the context of:",
+  "Here is recent information to incorporate:",
+  "Topic context:",
+  "The user is asking specifically about this text:",
+];
+
+function contextSentences(prompt: string): string[] {
+  const found: string[] = [];
+  for (const line of prompt.split("\n")) {
+    const label = CONTEXT_LABELS.find((l) => line.startsWith(l));
+    const text = label ? line.slice(label.length) : /^[^-].*[.!?]$/.test(line) && found.length > 0 ? line : "";
+    found.push(...sentences(text));
+  }
+  // Drop our own prompt instructions and repeats
+  return [...new Set(found)].filter((s) => !/^(Provide|Answer|Write|Use|Be|Start|Include)\b/.test(s));
+}
+
+const OPENERS = [
+  (subject: string) => `**${subject}** sits at the centre of this story.`,
+  (subject: string) => `To understand this, start with **${subject}**.`,
+  (subject: string) => `**${subject}** is easier to grasp with a little background.`,
+];
+
+function prose(prompt: string): string {
+  const subject = SUBJECT_PATTERNS.map((p) => prompt.match(p)?.[1]).find(Boolean)?.trim() || "This topic";
+  const context = contextSentences(prompt);
+  const terms = keyPhrases(context.join(" "), 3);
+  const opener = subject.endsWith("?")
+    ? `**${subject}** Short answer:`
+    : OPENERS[hashString(subject) % OPENERS.length](subject);
+
+  // Cite numbered sources the way the prompt asks, when there are any
+  const sourceIds = [...prompt.matchAll(/^\[(\d+)\] /gm)].map((m) => m[1]);
+  const cite = (i: number) => (sourceIds.length > 0 ? ` [${sourceIds[i % sourceIds.length]}]` : "");
+
+  const paragraphs = [
+    [opener, ...(context.length > 0 ? context.slice(0, 2) : ["the offline fixtures don't cover this in detail."])].join(" ") + cite(0),
+    context.length > 2
+      ? `**Background.** ${context.slice(2, 5).join(" ")}${cite(1)}`
+      : "**Background.** Offline mode only knows what's in the prompt and the local fixtures, so treat this as a placeholder for a real explanation.",
+    `**Why it matters.** ${
+      terms.length > 0
+        ? `Keep an eye on ${terms.map((t) => `**${t}**`).join(", ")} - they shape how this develops.`
+        : "Small shifts here tend to ripple outwards into related fields."
+    }`,
+    "_Offline mode: generated locally from fixtures, not by Claude._",
+  ];
+  return paragraphs.join("\n\n");
+}
+
+// --- Fake client ---
+
+export interface OfflineAnthropicOptions {
+  // Delay between streamed chunks, to feel like a real stream
+  streamDelayMs?: number;
+}
+
+// Stand-in for the Anthropic client. Answers every prompt the app sends with
+// deterministic output derived from the prompt itself (article text, concept,
+// question), so results stay consistent with the topic being read.
+export function createOfflineAnthropic({ streamDelayMs = 20 }: OfflineAnthropicOptions = {}): Anthropic {
+  let thoughtOffset = 0;
+
+  const respond = (params: Params): string => {
+    // The first user turn decides the task; repair retries reuse it
+    const prompt = messageText(params.messages.find((m) => m.role === "user"));
+
+    if (/Analyze (this article|each of these)/.test(prompt)) return processArticles(prompt);
+    if (/articles from different outlets cover the same story/.test(prompt)) return storyPerspectives(prompt);
+    if (/Generate \d+ pieces of content/.test(prompt)) {
+      const text = aiThoughts(prompt, thoughtOffset);
+      thoughtOffset += 1;
+      return text;
+    }
+    if (/Suggest 3 short web search queries/.test(prompt)) return profileQueries(prompt);
+    if (/Break this topic into \d+ research sub-questions/.test(prompt)) return researchPlan(prompt);
+    if (/Write a research report on this topic/.test(prompt)) return researchReport(prompt);
+    // Prose answers the latest turn (follow-up questions)
+    const latest = params.messages.filter((m) => m.role === "user").pop();
+    return prose(messageText(latest));
+  };
+
+  const create = async (params: MessageCreateParamsNonStreaming): Promise<Anthropic.Message> => {
+    const text = respond(params);
+    return {
+      id: `offline-${hashString(text).toString(36)}`,
+      type: "message",
+      role: "assistant",
+      model: params.model,
+      content: [{ type: "text", text, citations: null }],
+      stop_reason: "end_turn",
+      stop_sequence: null,
+      usage: {
+        input_tokens: Math.ceil(JSON.stringify(params.messages).length / 4),
+        output_tokens: Math.ceil(text.length / 4),
+        cache_creation: null,
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null,
+        server_tool_use: null,
+        service_tier: null,
+      },
+    };
+  };
+
+  // Only what lib/streaming's textDeltas uses: async iteration + abort()
+  const stream = (params: Params, options?: { signal?: AbortSignal }) => {
+    const controller = new AbortController();
+    options?.signal?.addEventListener("abort", () => controller.abort());
+    const chunks = respond(params).match(/\S+\s*/g) || [];
+
+    async function* events(): AsyncGenerator<RawMessageStreamEvent> {
+      for (const text of chunks) {
+        if (controller.signal.aborted) return;
+        if (streamDelayMs > 0) await new Promise((resolve) => setTimeout(resolve, streamDelayMs));
+        yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } };
+      }
+    }
+
+    return {
+      [Symbol.asyncIterator]: events,
+      abort: () => controller.abort(),
+    } as unknown as MessageStream;
+  };
+
+  return { messages: { create, stream } } as unknown as Anthropic;
+}
@@ -0,0 +1,175 @@
+// Fixture articles and AI thoughts served in offline mode (VIBESCROLL_OFFLINE).
+// URLs use the reserved example.org domain so nothing here resolves.
+
+export interface FixtureArticle {
+  title: string;
+  url: string;
+  source: string;
+  publication_date: string;
+  // Extra search terms beyond the title and content
+  tags: string[];
+  content: string;
+}
+
+export interface FixtureThought {
+  type: string;
+  title: string;
+  content: string;
+  highlights: string[];
+}
+
+export const FIXTURE_ARTICLES: FixtureArticle[] = [
+  {
+    title: "Surface Code Experiment Pushes Quantum Errors Below Threshold",
+    url: "https://example.org/offline/quantum-error-correction",
+    source: "Physics Today (offline)",
+    publication_date: "2026-03-02T09:00:00Z",
+    tags: ["tech", "science", "quantum", "computing", "qubits"],
+    content:
+      "A team running a 72-qubit processor showed that adding more physical qubits to a logical qubit reduced the error rate instead of increasing it. The result, known as below-threshold operation, is the milestone researchers have chased for decades. The experiment used Surface Codes, which spread one logical qubit across a grid of physical ones and detect errors without measuring the data directly. Engineers caution that millions of physical qubits may still be needed for useful workloads such as Chemistry Simulation.",
+  },
+  {
+    title: "Webb Telescope Finds Carbon Dioxide in a Distant Exoplanet Atmosphere",
+    url: "https://example.org/offline/webb-exoplanet-co2",
+    source: "Space Desk (offline)",
+    publication_date: "2026-02-18T14:30:00Z",
+    tags: ["space", "science", "astronomy", "planets", "jwst"],
+    content:
+      "The James Webb Space Telescope detected a clear carbon dioxide signature in the atmosphere of a gas giant 700 light-years away. Astronomers measured the dip in starlight as the planet crossed its star, a technique called Transmission Spectroscopy. The finding suggests the planet formed farther from its star before migrating inward. Researchers hope the same method will eventually probe smaller, rocky worlds in the Habitable Zone.",
+  },
+  {
+    title: "Central Banks Signal a Slower Path for Interest Rate Cuts",
+    url: "https://example.org/offline/central-bank-rates",
+    source: "Markets Wire (offline)",
+    publication_date: "2026-03-05T07:15:00Z",
+    tags: ["finance", "economy", "markets", "inflation", "rates"],
+    content:
+      "Several central banks indicated they will cut interest rates more gradually than markets expected. Officials pointed to Core Inflation that remains above target even as headline prices cool. Bond yields rose on the news while equity markets were mixed. Analysts say the Federal Reserve is watching wage growth and housing costs before committing to a timetable.",
+  },
+  {
+    title: "Grid-Scale Batteries Overtake Gas Peaker Plants on Cost",
+    url: "https://example.org/offline/grid-batteries",
+    source: "Energy Monitor (offline)",
+    publication_date: "2026-01-27T11:00:00Z",
+    tags: ["environment", "climate", "energy", "business", "batteries"],
+    content:
+      "Utility-scale battery projects are now cheaper to build and run than natural gas peaker plants in several markets. Falling prices for Lithium Iron Phosphate cells and better software for Frequency Regulation have changed the economics. Grid operators are using the batteries to absorb midday solar output and release it during the evening peak. Critics note that long-duration storage for multi-day weather events remains unsolved.",
+  },
+  {
+    title: "New Antibiotic Class Targets Drug-Resistant Bacteria",
+    url: "https://example.org/offline/new-antibiotic",
+    source: "Health Report (offline)",
+    publication_date: "2026-02-09T16:45:00Z",
+    tags: ["health", "science", "medicine", "bacteria", "research"],
+    content:
+      "Researchers described a new class of antibiotic that kills several bacteria resistant to existing drugs. The compound attacks the Lipopolysaccharide Transporter, a structure unique to gram-negative bacteria. Early tests in mice cleared infections that no approved antibiotic could treat. Clinical trials in humans are expected to take several years, and experts warn that Antimicrobial Resistance will keep evolving.",
+  },
+  {
+    title: "Coastal Cities Test Floating Neighbourhoods Against Sea Level Rise",
+    url: "https://example.org/offline/floating-neighbourhoods",
+    source: "Climate Journal (offline)",
+    publication_date: "2026-01-12T10:20:00Z",
+    tags: ["environment", "climate", "cities", "architecture"],
+    content:
+      "A handful of coastal cities are piloting neighbourhoods built on floating platforms that rise with the water. The homes connect to shore through flexible utility lines and share a Microgrid for power. Planners see the designs as one tool alongside sea walls and Managed Retreat. Residents report that storms feel calmer on the water than expected, though insurance remains complicated.",
+  },
+  {
+    title: "Open-Source Language Models Close the Gap on Reasoning Benchmarks",
+    url: "https://example.org/offline/open-models-reasoning",
+    source: "Tech Review (offline)",
+    publication_date: "2026-03-01T13:05:00Z",
+    tags: ["tech", "ai", "software", "business", "startups"],
+    content:
+      "Open-weight language models released this quarter scored within a few points of proprietary systems on maths and coding benchmarks. Much of the improvement came from Reinforcement Learning on verified solutions rather than larger models. Startups say the models are cheap enough to run on a single server, changing the economics of AI products. Researchers warn that Benchmark Contamination makes some headline numbers hard to trust.",
+  },
+  {
+    title: "Parliament Passes Landmark Data Privacy Overhaul",
+    url: "https://example.org/offline/data-privacy-law",
+    source: "Policy Brief (offline)",
+    publication_date: "2026-02-24T08:40:00Z",
+    tags: ["politics", "policy", "tech", "privacy", "law"],
+    content:
+      "Lawmakers approved a sweeping update to data protection rules after two years of negotiation. The law introduces a Right to Explanation for automated decisions and caps fines at four percent of global revenue. Technology firms have eighteen months to comply. Civil liberties groups welcomed the changes but said enforcement by the Data Protection Authority will decide whether the law has teeth.",
+  },
+  {
+    title: "Underdog Club Clinches Title on Final Day of the Season",
+    url: "https://example.org/offline/underdog-title",
+    source: "Sports Daily (offline)",
+    publication_date: "2026-02-28T21:10:00Z",
+    tags: ["sports", "football", "soccer", "league"],
+    content:
+      "A club promoted only three seasons ago won the league title with a stoppage-time goal on the final day. The team built its squad with a data-driven Recruitment Model that targeted undervalued players from smaller leagues. Its wage bill was less than a third of the richest clubs. Analysts compared the run to famous upsets and debated whether Financial Fair Play rules made it possible.",
+  },
+  {
+    title: "Museum Uses Machine Learning to Read Scrolls Buried by Vesuvius",
+    url: "https://example.org/offline/herculaneum-scrolls",
+    source: "Culture Desk (offline)",
+    publication_date: "2026-01-30T12:00:00Z",
+    tags: ["culture", "history", "science", "archaeology", "ai"],
+    content:
+      "Researchers have read whole passages from carbonised scrolls buried in the eruption of Mount Vesuvius. They combined high-resolution CT Scanning with machine learning models trained to spot traces of ink on the papyrus. The recovered text appears to be a philosophical work on pleasure and the senses. Scholars believe hundreds more scrolls from the Villa of the Papyri could eventually be read.",
+  },
+  {
+    title: "Streaming Platforms Bet on Live Events to Hold Subscribers",
+    url: "https://example.org/offline/streaming-live-events",
+    source: "Media Insider (offline)",
+    publication_date: "2026-02-14T18:25:00Z",
+    tags: ["entertainment", "business", "media", "television"],
+    content:
+      "Major streaming services are spending heavily on live sports and award shows to reduce subscriber churn. Executives say live events drive sign-ups in a way that library content no longer does. The strategy has pushed up the price of Broadcast Rights across several leagues. Analysts expect more bundling deals as platforms look for a path to steady profits after years of Subscriber Growth at any cost.",
+  },
+  {
+    title: "Global Shipping Reroutes as Canal Drought Persists",
+    url: "https://example.org/offline/canal-drought-shipping",
+    source: "World News (offline)",
+    publication_date: "2026-03-04T06:50:00Z",
+    tags: ["news", "business", "environment", "trade", "shipping"],
+    content:
+      "Low water levels have forced canal authorities to limit daily transits for a third month. Shipping lines are rerouting vessels around continents, adding days to journeys and raising Freight Rates. Economists warn that longer routes tie up container capacity and could nudge goods prices higher. Engineers are studying new Water Reservoirs to keep the canal running through future droughts.",
+  },
+];
+
+export const FIXTURE_THOUGHTS: FixtureThought[] = [
+  {
+    type: "weird_fact",
+    title: "Octopuses Have Three Hearts",
+    content:
+      "Two hearts pump blood through the gills and a third sends it to the rest of the body. The main heart actually stops beating when an octopus swims, which is one reason they prefer crawling.",
+    highlights: ["three hearts", "prefer crawling"],
+  },
+  {
+    type: "philosophy",
+    title: "The Ship of Theseus, Revisited",
+    content:
+      "Almost every atom in your body is replaced over a few years. If you are still you, identity must live in the pattern rather than the parts. What would it take to break the pattern?",
+    highlights: ["identity must live in the pattern"],
+  },
+  {
+    type: "did_you_know",
+    title: "Oxford Is Older Than the Aztecs",
+    content:
+      "Teaching at Oxford existed by 1096. The city of Tenochtitlan, heart of the Aztec empire, was founded in 1325. Historical timelines overlap in ways that rarely make it into textbooks.",
+    highlights: ["Tenochtitlan", "Historical timelines overlap"],
+  },
+  {
+    type: "what_if",
+    title: "What If the Moon Were Half as Far Away?",
+    content:
+      "Tides would be roughly eight times stronger, flooding coastlines twice a day. Total solar eclipses would be common and last far longer. Life on the shoreline would look very different.",
+    highlights: ["eight times stronger", "Total solar eclipses"],
+  },
+  {
+    type: "joke",
+    title: "Why Programmers Prefer Dark Mode",
+    content:
+      "Because light attracts bugs. The real reason is probably reduced glare on long evenings, but the joke has outlived several generations of text editors.",
+    highlights: ["reduced glare"],
+  },
+  {
+    type: "mindfulness",
+    title: "Notice Three Sounds",
+    content:
+      "Before scrolling on, pause and name three sounds you can hear right now. Attention anchored in the present is a small reset that takes less than ten seconds.",
+    highlights: ["Attention anchored in the present"],
+  },
+];
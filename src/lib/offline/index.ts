@@ -0,0 +1,4 @@
+export { createOfflineValyu } from "./valyu";
+export { createOfflineAnthropic, type OfflineAnthropicOptions } from "./anthropic";
+export { FIXTURE_ARTICLES, FIXTURE_THOUGHTS } from "./fixtures";
+export type { FixtureArticle, FixtureThought } from "./fixtures";
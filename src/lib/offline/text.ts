@@ -0,0 +1,60 @@
+// Small deterministic text helpers for the offline fakes
+
+// FNV-1a - stable across runs, unlike Math.random
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "about", "into", "what", "when",
+  "where", "which", "why", "how", "are", "was", "were", "has", "have", "had", "its",
+  "latest", "news", "today", "recent", "explanation", "overview", "detailed", "analysis",
+  "background", "context", "breaking", "update", "updates",
+]);
+
+export function keywords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9-]+/g) || []).filter(
+    (word) => word.length >= 3 && !STOPWORDS.has(word)
+  );
+}
+
+export function sentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 20);
+}
+
+// Whole sentences up to `max` chars (at least one, cut if needed)
+export function leadSentences(text: string, max: number): string {
+  let out = "";
+  for (const sentence of sentences(text)) {
+    const next = out ? `${out} ${sentence}` : sentence;
+    if (next.length > max) break;
+    out = next;
+  }
+  return out || text.trim().slice(0, max);
+}
+
+// Phrases from the text worth highlighting: capitalised runs first, then long words
+export function keyPhrases(text: string, max: number): string[] {
+  const phrases = new Set<string>();
+  for (const match of text.matchAll(/\b[A-Z][a-z]+(?:[ -][A-Z][a-z]+){1,2}\b/g)) {
+    phrases.add(match[0]);
+  }
+  const longWords = (text.match(/\b[a-z]{9,}\b/g) || []).sort((a, b) => b.length - a.length);
+  longWords.forEach((word) => phrases.add(word));
+  // Short texts: fall back to the longest words of any case
+  if (phrases.size === 0) {
+    (text.match(/\b[A-Za-z]{5,}\b/g) || [])
+      .sort((a, b) => b.length - a.length)
+      .forEach((word) => phrases.add(word));
+  }
+  return [...phrases].slice(0, max);
+}
@@ -0,0 +1,58 @@
+import type { SearchOptions, SearchResponse, SearchResult } from "valyu-js";
+import { FIXTURE_ARTICLES, type FixtureArticle } from "./fixtures";
+import { hashString, keywords } from "./text";
+
+function score(article: FixtureArticle, terms: string[]): number {
+  const title = article.title.toLowerCase();
+  const body = article.content.toLowerCase();
+  return terms.reduce(
+    (total, term) =>
+      total +
+      (title.includes(term) ? 3 : 0) +
+      (article.tags.includes(term) ? 2 : 0) +
+      (body.includes(term) ? 1 : 0),
+    0
+  );
+}
+
+// Stand-in for the Valyu client: ranks fixture articles against the query.
+// Every query returns something (ties broken by a hash of query + URL) so the
+// full pipeline - dedup, processing, highlights - always has input.
+export function createOfflineValyu(articles: FixtureArticle[] = FIXTURE_ARTICLES) {
+  return {
+    async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+      const terms = keywords(query);
+      const ranked = articles
+        .map((article) => ({ article, score: score(article, terms) }))
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            hashString(query + a.article.url) - hashString(query + b.article.url)
+        );
+
+      const best = ranked[0]?.score || 1;
+      const results = ranked.slice(0, options.maxNumResults ?? 10).map(
+        ({ article, score }): SearchResult => ({
+          title: article.title,
+          url: article.url,
+          content: article.content,
+          source: article.source,
+          length: article.content.length,
+          relevance_score: Math.max(0.1, score / best),
+          publication_date: article.publication_date,
+        })
+      );
+
+      return {
+        success: true,
+        tx_id: null,
+        query,
+        results,
+        results_by_source: { web: results.length, proprietary: 0 },
+        total_deduction_pcm: 0,
+        total_deduction_dollars: 0,
+        total_characters: results.reduce((sum, r) => sum + r.length, 0),
+      };
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { cachedCompletion } from "@/lib/cache";
+import { complete, hasModel } from "@/lib/ai";
+import { isFromHiddenSource } from "@/lib/preferences";
+import type { ValyuResult } from "@/lib/providers";
+
+const STOPWORDS = new Set([
+  "about", "after", "also", "and", "are", "but", "can", "for", "from", "have",
+  "into", "just", "like", "love", "more", "much", "not", "over", "prefer",
+  "really", "than", "that", "the", "their", "them", "then", "there", "these",
+  "they", "this", "very", "want", "what", "when", "which", "with", "work",
+  "would", "you", "your", "i'm", "interested", "enjoy", "things", "stuff",
+]);
+
+// Lowercased content words (3+ chars, no stopwords)
+export function profileTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9'+#-]{2,}/g) || [];
+  return Array.from(new Set(words.filter((w) => !STOPWORDS.has(w))));
+}
+
+// Weight of a category the reader marked "not interested" (vs 1 for neutral)
+const AVOIDED_WEIGHT = 0.2;
+
+// Pick `count` items: boosted ones first, the rest by weighted random sampling
+// where each preferred category's weight depends on its rank (top liked = highest)
+// and avoided ones rarely come up. Interest tags (boosted) override avoidance.
+export function pickWeightedCategories<T extends { id: string }>(
+  categories: T[],
+  {
+    count,
+    boosted = new Set<string>(),
+    preferred = [],
+    avoided = [],
+    random = Math.random,
+  }: { count: number; boosted?: Set<string>; preferred?: string[]; avoided?: string[]; random?: () => number }
+): T[] {
+  const picked = categories.filter((c) => boosted.has(c.id)).slice(0, count);
+  const pool = categories.filter((c) => !boosted.has(c.id));
+
+  const weightOf = (category: string) => {
+    const rank = preferred.indexOf(category);
+    if (rank >= 0) return 1 + 2 * (preferred.length - rank);
+    return avoided.includes(category) ? AVOIDED_WEIGHT : 1;
+  };
+
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, c) => sum + weightOf(c.id), 0);
+    let roll = random() * total;
+    let idx = pool.length - 1;
+    for (let i = 0; i < pool.length; i++) {
+      roll -= weightOf(pool[i].id);
+      if (roll < 0) {
+        idx = i;
+        break;
+      }
+    }
+    picked.push(...pool.splice(idx, 1));
+  }
+
+  return picked;
+}
+
+// Ask Claude for a few short search queries tailored to the "About You" text.
+// Cached by profile text, so it costs one call per profile edit, not per feed load.
+export async function generateProfileQueries(aboutUser: string, max: number = 2): Promise<string[]> {
+  if (!hasModel() || !aboutUser.trim()) return [];
+
+  try {
+    const { value } = await cachedCompletion(
+      { route: "profile-queries", topic: aboutUser },
+      async () => {
+        const text = await complete("profile-queries", { aboutUser });
+        const jsonMatch = text.match(/\[[\s\S]*\]/);
+        return jsonMatch ? jsonMatch[0] : "";
+      }
+    );
+    if (!value) return [];
+
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((q): q is string => typeof q === "string" && q.trim().length > 0)
+      .map((q) => q.trim().slice(0, 60))
+      .slice(0, max);
+  } catch (error) {
+    console.error("Error generating profile queries:", error);
+    return [];
+  }
+}
+
+// How well a result matches the profile terms (title matches count double)
+export function scoreAgainstProfile(result: ValyuResult, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const title = result.title.toLowerCase();
+  const body = (typeof result.content === "string" ? result.content : JSON.stringify(result.content))
+    .slice(0, 1500)
+    .toLowerCase();
+
+  return terms.reduce((score, term) => {
+    if (title.includes(term)) return score + 2;
+    if (body.includes(term)) return score + 1;
+    return score;
+  }, 0);
+}
+
+// Stable rerank: profile matches move up, articles about terms the reader marked
+// "not interested" move down, ties keep their (already shuffled) order
+export function rerankByProfile(results: ValyuResult[], aboutUser: string, avoidTerms: string[] = []): ValyuResult[] {
+  const terms = profileTerms(aboutUser);
+  const avoid = avoidTerms.map((t) => t.toLowerCase().trim()).filter(Boolean);
+  if (terms.length === 0 && avoid.length === 0) return results;
+
+  return results
+    .map((result, idx) => ({
+      result,
+      idx,
+      score: scoreAgainstProfile(result, terms) - scoreAgainstProfile(result, avoid),
+    }))
+    .sort((a, b) => b.score - a.score || a.idx - b.idx)
+    .map(({ result }) => result);
+}
+
+// Drop articles from sources the reader hid
+export function withoutHiddenSources(results: ValyuResult[], hidden: string[]): ValyuResult[] {
+  if (hidden.length === 0) return results;
+  return results.filter((result) => !isFromHiddenSource({ source: result.source, sourceUrl: result.url }, hidden));
+}
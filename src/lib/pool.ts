@@ -0,0 +1,117 @@
+// Bounded-concurrency worker pool with per-item timeouts and an overall
+// deadline. Whatever finished before the deadline is returned; the rest is
+// aborted and dropped.
+
+export interface PoolOptions {
+  // Max workers running at once
+  concurrency: number;
+  // Abort an item that runs longer than this
+  itemTimeoutMs?: number;
+  // Stop waiting and return partial results after this long
+  deadlineMs?: number;
+}
+
+export interface PoolResult<R> {
+  // Completed results, in input order
+  results: R[];
+  completed: number;
+  failed: number;
+  timedOut: number;
+  // Not finished (or not started) when the deadline hit
+  unfinished: number;
+}
+
+export type PoolWorker<T, R> = (item: T, index: number, signal: AbortSignal) => Promise<R>;
+
+const TIMEOUT_ERROR = "PoolItemTimeout";
+
+function withTimeout<R>(
+  run: (signal: AbortSignal) => Promise<R>,
+  controller: AbortController,
+  timeoutMs?: number
+): Promise<R> {
+  if (!timeoutMs) return run(controller.signal);
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      const error = new Error(`Timed out after ${timeoutMs}ms`);
+      error.name = TIMEOUT_ERROR;
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+export async function runPool<T, R>(
+  items: T[],
+  worker: PoolWorker<T, R>,
+  { concurrency, itemTimeoutMs, deadlineMs }: PoolOptions
+): Promise<PoolResult<R>> {
+  const slots: Array<{ done: true; value: R } | undefined> = new Array(items.length);
+  let next = 0;
+  let failed = 0;
+  let timedOut = 0;
+  let expired = false;
+  // Items still running, aborted when the deadline hits
+  const inFlight = new Set<AbortController>();
+
+  const runWorker = async () => {
+    while (!expired && next < items.length) {
+      const index = next++;
+      const controller = new AbortController();
+      inFlight.add(controller);
+      try {
+        const value = await withTimeout((signal) => worker(items[index], index, signal), controller, itemTimeoutMs);
+        if (!expired) slots[index] = { done: true, value };
+      } catch (error) {
+        // Aborted by the deadline: already counted as unfinished
+        if (expired) continue;
+        if (error instanceof Error && error.name === TIMEOUT_ERROR) timedOut++;
+        else failed++;
+        console.error(`Pool item ${index} failed:`, error instanceof Error ? error.message : error);
+      } finally {
+        inFlight.delete(controller);
+      }
+    }
+  };
+
+  const workers = Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker)
+  );
+
+  if (deadlineMs) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        expired = true;
+        inFlight.forEach((controller) => controller.abort());
+        resolve();
+      }, deadlineMs);
+    });
+    await Promise.race([workers, deadline]);
+    clearTimeout(timer);
+  } else {
+    await workers;
+  }
+
+  const results = slots.filter((slot) => slot?.done).map((slot) => slot!.value);
+  return {
+    results,
+    completed: results.length,
+    failed,
+    timedOut,
+    unfinished: items.length - results.length - failed - timedOut,
+  };
+}
+
+// Split items into groups of `size` (used to batch several articles per model call)
+export function chunk<T>(items: T[], size: number): T[][] {
+  const step = Math.max(1, Math.floor(size));
+  const groups: T[][] = [];
+  for (let i = 0; i < items.length; i += step) {
+    groups.push(items.slice(i, i + step));
+  }
+  return groups;
+}
@@ -0,0 +1,200 @@
+import type { Topic } from "@/types";
+
+// Taste signals kept in localStorage (and synced): likes pull the feed toward
+// a topic's category and terms, "not interested" pushes away from them, and
+// both fade with a half-life so one tap weeks ago stops steering the feed.
+
+export interface UserPreferences {
+  likedCategories: Record<string, number>;
+  likedKeywords: Record<string, number>;
+  totalLikes: number;
+  dislikedCategories: Record<string, number>;
+  dislikedKeywords: Record<string, number>;
+  // Source hostnames (or names, for sources without a URL) never to show again
+  hiddenSources: string[];
+  // When the counters were last decayed
+  decayedAt: number;
+}
+
+export const SIGNAL_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+// Signals weaker than this are forgotten
+const MIN_SIGNAL = 0.05;
+// Decaying more often than this only churns storage
+const MIN_DECAY_INTERVAL_MS = 60 * 60 * 1000;
+
+// Fired after preferences are written outside useTopicFeed (e.g. the Interests panel)
+export const PREFERENCES_EVENT = "vibescroll:preferences";
+
+export function emptyPreferences(now: number = Date.now()): UserPreferences {
+  return {
+    likedCategories: {},
+    likedKeywords: {},
+    totalLikes: 0,
+    dislikedCategories: {},
+    dislikedKeywords: {},
+    hiddenSources: [],
+    decayedAt: now,
+  };
+}
+
+// Older saves only have the like counters
+export function withPreferenceDefaults(saved: Partial<UserPreferences>, now: number = Date.now()): UserPreferences {
+  return { ...emptyPreferences(now), ...saved };
+}
+
+// How strongly a topic signals each term: title words once, highlights three times
+function topicTerms(topic: Pick<Topic, "title" | "highlights">): Record<string, number> {
+  const terms: Record<string, number> = {};
+  topic.title
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((w) => w.length > 4)
+    .forEach((w) => (terms[w] = (terms[w] || 0) + 1));
+  topic.highlights.forEach((h) => {
+    const key = h.text.toLowerCase();
+    terms[key] = (terms[key] || 0) + 3;
+  });
+  return terms;
+}
+
+// Add (or take away) a signal; counters never go below zero
+function adjust(counters: Record<string, number>, key: string, delta: number): Record<string, number> {
+  const value = Math.round(((counters[key] || 0) + delta) * 1000) / 1000;
+  const next = { ...counters, [key]: value };
+  if (value < MIN_SIGNAL) delete next[key];
+  return next;
+}
+
+function adjustAll(counters: Record<string, number>, terms: Record<string, number>, sign: number) {
+  return Object.entries(terms).reduce((acc, [key, weight]) => adjust(acc, key, sign * weight), counters);
+}
+
+// Like, or with direction -1 take back exactly what the like added
+export function applyLike(
+  prefs: UserPreferences,
+  topic: Pick<Topic, "title" | "category" | "highlights">,
+  direction: 1 | -1 = 1
+): UserPreferences {
+  return {
+    ...prefs,
+    likedCategories: adjust(prefs.likedCategories, topic.category, direction),
+    likedKeywords: adjustAll(prefs.likedKeywords, topicTerms(topic), direction),
+    totalLikes: Math.max(0, prefs.totalLikes + direction),
+  };
+}
+
+// "Not interested": the mirror image of a like
+export function applyDislike(
+  prefs: UserPreferences,
+  topic: Pick<Topic, "title" | "category" | "highlights">
+): UserPreferences {
+  return {
+    ...prefs,
+    dislikedCategories: adjust(prefs.dislikedCategories, topic.category, 1),
+    dislikedKeywords: adjustAll(prefs.dislikedKeywords, topicTerms(topic), 1),
+  };
+}
+
+// Implicit feedback (see lib/engagement): a positive weight counts toward the
+// like side, a negative one toward the dislike side; totalLikes is untouched
+export function applySignal(
+  prefs: UserPreferences,
+  topic: Pick<Topic, "title" | "category" | "highlights">,
+  weight: number
+): UserPreferences {
+  if (weight === 0) return prefs;
+  const terms = topicTerms(topic);
+  if (weight > 0) {
+    return {
+      ...prefs,
+      likedCategories: adjust(prefs.likedCategories, topic.category, weight),
+      likedKeywords: adjustAll(prefs.likedKeywords, terms, weight),
+    };
+  }
+  return {
+    ...prefs,
+    dislikedCategories: adjust(prefs.dislikedCategories, topic.category, -weight),
+    dislikedKeywords: adjustAll(prefs.dislikedKeywords, terms, -weight),
+  };
+}
+
+// What "hide source" hides: the site's hostname, or the source name when there's no link
+export function sourceKey(topic: Pick<Topic, "source" | "sourceUrl">): string {
+  try {
+    if (topic.sourceUrl) return new URL(topic.sourceUrl).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    // Fall through to the name
+  }
+  return topic.source.trim().toLowerCase();
+}
+
+export function isFromHiddenSource(topic: Pick<Topic, "source" | "sourceUrl">, hidden: string[]): boolean {
+  return hidden.length > 0 && hidden.includes(sourceKey(topic));
+}
+
+export function hideSource(prefs: UserPreferences, source: string): UserPreferences {
+  return prefs.hiddenSources.includes(source) ? prefs : { ...prefs, hiddenSources: [...prefs.hiddenSources, source] };
+}
+
+export function unhideSource(prefs: UserPreferences, source: string): UserPreferences {
+  return { ...prefs, hiddenSources: prefs.hiddenSources.filter((s) => s !== source) };
+}
+
+export function decayCounters(counters: Record<string, number>, factor: number): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(counters)) {
+    const decayed = Math.round(value * factor * 1000) / 1000;
+    if (decayed >= MIN_SIGNAL) out[key] = decayed;
+  }
+  return out;
+}
+
+// Fade every signal by how long it's been since the last decay
+export function decayPreferences(prefs: UserPreferences, now: number = Date.now()): UserPreferences {
+  const elapsed = now - (prefs.decayedAt || now);
+  if (elapsed < MIN_DECAY_INTERVAL_MS) return prefs;
+
+  const factor = Math.pow(0.5, elapsed / SIGNAL_HALF_LIFE_MS);
+  return {
+    ...prefs,
+    likedCategories: decayCounters(prefs.likedCategories, factor),
+    likedKeywords: decayCounters(prefs.likedKeywords, factor),
+    dislikedCategories: decayCounters(prefs.dislikedCategories, factor),
+    dislikedKeywords: decayCounters(prefs.dislikedKeywords, factor),
+    decayedAt: now,
+  };
+}
+
+// Likes minus dislikes, strongest first
+function netWeights(liked: Record<string, number>, disliked: Record<string, number>): [string, number][] {
+  const keys = new Set([...Object.keys(liked), ...Object.keys(disliked)]);
+  return [...keys]
+    .map((key): [string, number] => [key, (liked[key] || 0) - (disliked[key] || 0)])
+    .filter(([, weight]) => weight !== 0)
+    .sort(([, a], [, b]) => b - a);
+}
+
+// Categories to favour, best liked first
+export function preferredCategories(prefs: UserPreferences, limit = 3): string[] {
+  return netWeights(prefs.likedCategories, prefs.dislikedCategories)
+    .filter(([, weight]) => weight > 0)
+    .slice(0, limit)
+    .map(([category]) => category);
+}
+
+// Categories to play down, most disliked first
+export function avoidedCategories(prefs: UserPreferences): string[] {
+  return netWeights(prefs.likedCategories, prefs.dislikedCategories)
+    .filter(([, weight]) => weight < 0)
+    .sort(([, a], [, b]) => a - b)
+    .map(([category]) => category);
+}
+
+// Terms to push down the feed, most disliked first
+export function avoidedKeywords(prefs: UserPreferences, limit = 8): string[] {
+  return netWeights(prefs.likedKeywords, prefs.dislikedKeywords)
+    .filter(([, weight]) => weight < 0)
+    .sort(([, a], [, b]) => a - b)
+    .slice(0, limit)
+    .map(([keyword]) => keyword);
+}
@@ -0,0 +1,118 @@
+// Minimal RSS 2.0 / Atom parser - enough to pull titles, links, text and dates
+// out of real-world feeds without an XML dependency
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  content: string;
+  published?: string;
+}
+
+export interface ParsedFeed {
+  format: "rss" | "atom";
+  title: string;
+  entries: FeedEntry[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Turn a raw element body into plain text (handles CDATA and escaped HTML)
+function toPlainText(raw: string): string {
+  const unwrapped = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  const html = decodeEntities(unwrapped);
+  const stripped = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ");
+  return decodeEntities(stripped).replace(/\s+/g, " ").trim();
+}
+
+function escapeTag(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Inner text of the first <name> element in the block
+function getTag(block: string, name: string): string {
+  const tag = escapeTag(name);
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? toPlainText(match[1]) : "";
+}
+
+function getBlocks(xml: string, name: string): string[] {
+  const tag = escapeTag(name);
+  return xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, "gi")) || [];
+}
+
+function getAttr(tag: string, attr: string): string {
+  const match = tag.match(new RegExp(`\\s${attr}\\s*=\\s*["']([^"']*)["']`, "i"));
+  return match ? decodeEntities(match[1]) : "";
+}
+
+// Atom entries can have several <link>s; prefer rel="alternate" (or no rel)
+function getAtomLink(block: string): string {
+  const links = block.match(/<link\b[^>]*>/gi) || [];
+  for (const link of links) {
+    const rel = getAttr(link, "rel");
+    if (!rel || rel === "alternate") return getAttr(link, "href");
+  }
+  return links[0] ? getAttr(links[0], "href") : "";
+}
+
+function toIsoDate(value: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Text before the first item/entry - where the feed-level title lives
+function getHeader(xml: string, itemTag: string): string {
+  const idx = xml.search(new RegExp(`<${itemTag}[\\s>]`, "i"));
+  return idx >= 0 ? xml.slice(0, idx) : xml;
+}
+
+function parseRss(xml: string): ParsedFeed {
+  const entries = getBlocks(xml, "item").map((item) => ({
+    title: getTag(item, "title"),
+    link: getTag(item, "link") || getTag(item, "guid"),
+    content: getTag(item, "content:encoded") || getTag(item, "description"),
+    published: toIsoDate(getTag(item, "pubDate") || getTag(item, "dc:date")),
+  }));
+
+  return { format: "rss", title: getTag(getHeader(xml, "item"), "title"), entries };
+}
+
+function parseAtom(xml: string): ParsedFeed {
+  const entries = getBlocks(xml, "entry").map((entry) => ({
+    title: getTag(entry, "title"),
+    link: getAtomLink(entry),
+    content: getTag(entry, "content") || getTag(entry, "summary"),
+    published: toIsoDate(getTag(entry, "published") || getTag(entry, "updated")),
+  }));
+
+  return { format: "atom", title: getTag(getHeader(xml, "entry"), "title"), entries };
+}
+
+// Returns null when the document is neither RSS nor Atom
+export function parseFeed(xml: string): ParsedFeed | null {
+  if (/<feed[\s>]/i.test(xml)) return parseAtom(xml);
+  if (/<(rss|rdf:RDF)[\s>]/i.test(xml) || /<channel[\s>]/i.test(xml)) return parseRss(xml);
+  return null;
+}
@@ -0,0 +1,62 @@
+import { createProviderRegistry, type ProviderRegistry } from "./registry";
+import { valyuProvider } from "./valyu";
+import { newsApiProvider } from "./newsapi";
+import { rssProvider } from "./rss";
+import { isOfflineMode } from "@/lib/clients";
+
+export { createProviderRegistry, gatherContent, dedupeResults, mixByWeight } from "./registry";
+export { parseFeed } from "./feedParser";
+export { isAllowedFeedUrl } from "./rss";
+export type { ProviderRegistry, GatherOptions, GatherResult } from "./registry";
+export type * from "./types";
+
+let registry: ProviderRegistry | null = null;
+
+// Parse "valyu:2,newsapi:1" style env values
+function parseWeights(value: string | undefined): Record<string, number> {
+  const weights: Record<string, number> = {};
+  if (!value) return weights;
+  for (const pair of value.split(",")) {
+    const [id, weight] = pair.split(":").map((s) => s.trim());
+    const parsed = parseFloat(weight);
+    if (id && !isNaN(parsed)) weights[id] = parsed;
+  }
+  return weights;
+}
+
+function createDefaultRegistry(): ProviderRegistry {
+  const reg = createProviderRegistry();
+
+  reg.register(valyuProvider);
+  reg.register(newsApiProvider, {
+    rateLimit: { maxRequests: 100, windowMs: 24 * 60 * 60 * 1000 },
+  });
+  reg.register(rssProvider);
+
+  // CONTENT_PROVIDERS restricts which providers run (all by default).
+  // Offline mode only runs Valyu, which is backed by local fixtures.
+  const enabledIds = isOfflineMode()
+    ? ["valyu"]
+    : process.env.CONTENT_PROVIDERS?.split(",").map((s) => s.trim());
+  const weights = parseWeights(process.env.CONTENT_PROVIDER_WEIGHTS);
+
+  for (const { id } of reg.list()) {
+    reg.configure(id, {
+      ...(enabledIds ? { enabled: enabledIds.includes(id) } : {}),
+      ...(weights[id] !== undefined ? { weight: weights[id] } : {}),
+    });
+  }
+
+  return reg;
+}
+
+// Shared registry used by /api/topics
+export function getContentRegistry(): ProviderRegistry {
+  if (!registry) registry = createDefaultRegistry();
+  return registry;
+}
+
+// Swap the shared registry (tests, custom setups)
+export function setContentRegistry(next: ProviderRegistry | null) {
+  registry = next;
+}
@@ -0,0 +1,47 @@
+import type { ContentProvider, ValyuResult } from "./types";
+
+interface NewsApiArticle {
+  title: string;
+  url: string;
+  description: string;
+  content: string;
+  source: { name: string };
+  publishedAt: string;
+}
+
+// NewsAPI top headlines (free tier - 100 requests/day)
+export const newsApiProvider: ContentProvider = {
+  id: "newsapi",
+  capabilities: { search: false, headlines: true },
+
+  isAvailable() {
+    return !!process.env.NEWS_API_KEY;
+  },
+
+  async fetch(_query, { maxResults = 10 }) {
+    const newsApiKey = process.env.NEWS_API_KEY;
+    if (!newsApiKey) return [];
+
+    const response = await fetch(
+      `https://newsapi.org/v2/top-headlines?country=us&pageSize=${maxResults}&apiKey=${newsApiKey}`
+    );
+    const data = await response.json();
+
+    if (data.status !== "ok" || !data.articles) {
+      console.error("NewsAPI error:", data);
+      return [];
+    }
+
+    console.log(`NewsAPI returned ${data.articles.length} articles`);
+
+    return (data.articles as NewsApiArticle[])
+      .filter((a) => a.title && a.description)
+      .map((a): ValyuResult => ({
+        title: a.title,
+        url: a.url,
+        content: a.description + (a.content ? " " + a.content : ""),
+        source: a.source?.name || "News",
+        publication_date: a.publishedAt,
+      }));
+  },
+};
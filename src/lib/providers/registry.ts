@@ -0,0 +1,218 @@
+import type {
+  ContentProvider,
+  ProviderSettings,
+  ProviderFetchOptions,
+  CategoryQuery,
+  ValyuResult,
+} from "./types";
+import { mergeDuplicateResults } from "@/lib/stories";
+
+interface RegistryEntry {
+  provider: ContentProvider;
+  settings: ProviderSettings;
+  // Timestamps of recent fetches, for the sliding-window rate limit
+  requestLog: number[];
+}
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+  enabled: true,
+  weight: 1,
+};
+
+export type ProviderRegistry = ReturnType<typeof createProviderRegistry>;
+
+export function createProviderRegistry(now: () => number = Date.now) {
+  const entries = new Map<string, RegistryEntry>();
+
+  function register(provider: ContentProvider, settings: Partial<ProviderSettings> = {}) {
+    entries.set(provider.id, {
+      provider,
+      settings: { ...DEFAULT_SETTINGS, ...settings },
+      requestLog: [],
+    });
+  }
+
+  function unregister(id: string) {
+    entries.delete(id);
+  }
+
+  function configure(id: string, settings: Partial<ProviderSettings>) {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entry.settings = { ...entry.settings, ...settings };
+  }
+
+  function get(id: string) {
+    return entries.get(id)?.provider;
+  }
+
+  function getSettings(id: string) {
+    return entries.get(id)?.settings;
+  }
+
+  function list() {
+    return Array.from(entries.values()).map(({ provider, settings }) => ({
+      id: provider.id,
+      capabilities: provider.capabilities,
+      available: provider.isAvailable(),
+      ...settings,
+    }));
+  }
+
+  // Enabled providers that have what they need to run
+  function getActive(): ContentProvider[] {
+    return Array.from(entries.values())
+      .filter(({ provider, settings }) => settings.enabled && provider.isAvailable())
+      .map(({ provider }) => provider);
+  }
+
+  // Record a request if the provider is under its rate limit
+  function tryAcquire(id: string): boolean {
+    const entry = entries.get(id);
+    if (!entry) return false;
+
+    const limit = entry.settings.rateLimit;
+    if (!limit) return true;
+
+    const current = now();
+    entry.requestLog = entry.requestLog.filter((t) => current - t < limit.windowMs);
+    if (entry.requestLog.length >= limit.maxRequests) return false;
+
+    entry.requestLog.push(current);
+    return true;
+  }
+
+  return { register, unregister, configure, get, getSettings, list, getActive, tryAcquire };
+}
+
+export interface GatherOptions extends ProviderFetchOptions {
+  queries: CategoryQuery[];
+  excludeUrls?: string[];
+  random?: () => number;
+}
+
+export interface GatherResult {
+  results: ValyuResult[];
+  categoryStats: Record<string, number>;
+  providerStats: Record<string, number>;
+}
+
+// Fetch from every active provider, dedupe, and mix by weight
+export async function gatherContent(
+  registry: ProviderRegistry,
+  { queries, excludeUrls = [], random = Math.random, ...fetchOptions }: GatherOptions
+): Promise<GatherResult> {
+  const categoryStats: Record<string, number> = {};
+  const providerStats: Record<string, number> = {};
+  const excludeSet = new Set(excludeUrls);
+
+  const calls: Array<Promise<ValyuResult[]>> = [];
+
+  for (const provider of registry.getActive()) {
+    providerStats[provider.id] = 0;
+
+    // Headline-only providers get one call; search providers get one per query
+    const providerQueries: Array<CategoryQuery | null> = provider.capabilities.search
+      ? queries
+      : [null];
+
+    for (const q of providerQueries) {
+      if (!registry.tryAcquire(provider.id)) {
+        console.log(`Provider ${provider.id} rate limited, skipping`);
+        break;
+      }
+
+      calls.push(
+        provider
+          .fetch(q?.query || "", fetchOptions)
+          .then((results) => {
+            if (q) {
+              categoryStats[q.category] = (categoryStats[q.category] || 0) + results.length;
+            }
+            providerStats[provider.id] += results.length;
+            return results.map((r) => ({
+              ...r,
+              category: r.category || q?.category,
+              providerId: provider.id,
+            }));
+          })
+          .catch((err) => {
+            console.error(`Provider ${provider.id} error for "${q?.query || "headlines"}":`, err);
+            if (q) categoryStats[q.category] = categoryStats[q.category] || 0;
+            return [];
+          })
+      );
+    }
+  }
+
+  const all = (await Promise.all(calls)).flat();
+  const fresh = all.filter((r) => r.url && !excludeSet.has(r.url));
+  // Exact repeats first, then the same story told by different outlets
+  const deduped = mergeDuplicateResults(dedupeResults(fresh));
+
+  const weights: Record<string, number> = {};
+  for (const id of Object.keys(providerStats)) {
+    weights[id] = registry.getSettings(id)?.weight ?? 1;
+  }
+
+  return {
+    results: mixByWeight(deduped, weights, random),
+    categoryStats,
+    providerStats,
+  };
+}
+
+// Drop repeats by URL and by the first 50 chars of the lowercased title
+export function dedupeResults(results: ValyuResult[]): ValyuResult[] {
+  const seenUrls = new Set<string>();
+  const seenTitles = new Set<string>();
+
+  return results.filter((r) => {
+    if (!r.url || seenUrls.has(r.url)) return false;
+    const titleKey = r.title.toLowerCase().slice(0, 50);
+    if (seenTitles.has(titleKey)) return false;
+    seenUrls.add(r.url);
+    seenTitles.add(titleKey);
+    return true;
+  });
+}
+
+// Weighted random interleave: each slot goes to a provider with probability
+// proportional to its weight, picking a random remaining result from it
+export function mixByWeight(
+  results: ValyuResult[],
+  weights: Record<string, number>,
+  random: () => number = Math.random
+): ValyuResult[] {
+  const pools = new Map<string, ValyuResult[]>();
+  for (const r of results) {
+    const id = r.providerId || "unknown";
+    if (!pools.has(id)) pools.set(id, []);
+    pools.get(id)!.push(r);
+  }
+
+  const mixed: ValyuResult[] = [];
+  while (pools.size > 0) {
+    const ids = Array.from(pools.keys());
+    const total = ids.reduce((sum, id) => sum + Math.max(0, weights[id] ?? 1), 0);
+
+    let pickedId = ids[0];
+    if (total > 0) {
+      let roll = random() * total;
+      for (const id of ids) {
+        roll -= Math.max(0, weights[id] ?? 1);
+        if (roll < 0) {
+          pickedId = id;
+          break;
+        }
+      }
+    }
+
+    const pool = pools.get(pickedId)!;
+    const [picked] = pool.splice(Math.floor(random() * pool.length), 1);
+    mixed.push(picked);
+    if (pool.length === 0) pools.delete(pickedId);
+  }
+
+  return mixed;
+}
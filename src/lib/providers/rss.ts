@@ -0,0 +1,193 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { parseFeed } from "./feedParser";
+import type { ContentProvider, ValyuResult } from "./types";
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_FEEDS_PER_REQUEST = 10;
+const MAX_ENTRIES_PER_FEED = 5;
+const MAX_REDIRECTS = 3;
+const MAX_FEED_BYTES = 2 * 1024 * 1024;
+
+// Server-side feeds from RSS_FEEDS (comma-separated URLs)
+function getServerFeeds(): string[] {
+  return (process.env.RSS_FEEDS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// A private, loopback, link-local or otherwise non-public address
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+  if (isIP(ip) === 6) {
+    // IPv4-mapped (::ffff:127.0.0.1) is checked as the IPv4 address
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    if (ip.startsWith("::ffff:")) return true;
+    return (
+      ip === "::" ||
+      ip === "::1" ||
+      /^f[cd]/.test(ip) || // unique local, fc00::/7
+      /^fe[89ab]/.test(ip) || // link-local, fe80::/10
+      ip.startsWith("ff") // multicast
+    );
+  }
+  return false;
+}
+
+// Only public http(s) URLs - user-supplied feeds must not reach internal hosts.
+// This checks the URL as written; fetchFeed also checks what the host resolves to.
+export function isAllowedFeedUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+  const host = url.hostname.toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal")) return false;
+  return !isPrivateAddress(host);
+}
+
+// Every address the host resolves to must be public
+async function resolvesPublic(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return !isPrivateAddress(host);
+  const addresses = await lookup(host, { all: true });
+  return addresses.length > 0 && addresses.every((a) => !isPrivateAddress(a.address));
+}
+
+// Redirects are followed by hand so every hop goes through the same checks
+async function fetchPublic(feedUrl: string, signal: AbortSignal): Promise<{ response: Response; url: string } | null> {
+  let url = feedUrl;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!isAllowedFeedUrl(url) || !(await resolvesPublic(new URL(url).hostname))) {
+      console.error(`RSS: refusing non-public feed URL ${url}`);
+      return null;
+    }
+    const response = await fetch(url, {
+      headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml" },
+      redirect: "manual",
+      signal,
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return { response, url };
+    await response.body?.cancel();
+    url = new URL(location, url).toString();
+  }
+  console.error(`RSS: too many redirects for ${feedUrl}`);
+  return null;
+}
+
+// The body as text, or null once it grows past MAX_FEED_BYTES
+async function readLimited(response: Response): Promise<string | null> {
+  if (Number(response.headers.get("content-length")) > MAX_FEED_BYTES) return null;
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > MAX_FEED_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+async function fetchFeed(feedUrl: string): Promise<ValyuResult[]> {
+  // One deadline for every hop and the body
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const fetched = await fetchPublic(feedUrl, signal);
+  if (!fetched) return [];
+  const { response, url } = fetched;
+  if (!response.ok) {
+    console.error(`RSS fetch failed for ${feedUrl}: ${response.status}`);
+    return [];
+  }
+
+  const body = await readLimited(response);
+  if (body === null) {
+    console.error(`RSS: ${feedUrl} is larger than ${MAX_FEED_BYTES} bytes`);
+    return [];
+  }
+
+  const feed = parseFeed(body);
+  if (!feed) {
+    console.error(`RSS: ${feedUrl} is not an RSS or Atom feed`);
+    return [];
+  }
+
+  const source = feed.title || new URL(url).hostname;
+
+  return feed.entries
+    .filter((e) => e.title && e.link && e.content)
+    .sort((a, b) => (b.published || "").localeCompare(a.published || ""))
+    .slice(0, MAX_ENTRIES_PER_FEED)
+    .flatMap((e) => {
+      // Relative links are resolved against the feed URL; a malformed one only drops its entry,
+      // and so does a javascript:, data: or file: link that would end up as a card's href
+      let link: URL;
+      try {
+        link = new URL(e.link, url);
+      } catch {
+        return [];
+      }
+      if (link.protocol !== "http:" && link.protocol !== "https:") return [];
+      return [{ title: e.title, url: link.toString(), content: e.content, source, publication_date: e.published }];
+    });
+}
+
+// RSS 2.0 / Atom feeds, configured server-side and per user
+export const rssProvider: ContentProvider = {
+  id: "rss",
+  capabilities: { search: false, headlines: true },
+
+  // Always on - per-user feeds arrive with the request
+  isAvailable() {
+    return true;
+  },
+
+  async fetch(_query, { feeds = [] }) {
+    const feedUrls = Array.from(new Set([...getServerFeeds(), ...feeds]))
+      .filter(isAllowedFeedUrl)
+      .slice(0, MAX_FEEDS_PER_REQUEST);
+    if (feedUrls.length === 0) return [];
+
+    const perFeed = await Promise.all(
+      feedUrls.map((url) =>
+        fetchFeed(url).catch((err) => {
+          console.error(`RSS error for ${url}:`, err);
+          return [];
+        })
+      )
+    );
+
+    const results = perFeed.flat();
+    console.log(`RSS returned ${results.length} entries from ${feedUrls.length} feed(s)`);
+    return results;
+  },
+};
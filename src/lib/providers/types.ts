@@ -0,0 +1,55 @@
+// Normalised article shape shared by every content source
+export interface ValyuResult {
+  title: string;
+  url: string;
+  content: string | object | unknown[];
+  source: string;
+  relevance_score?: number;
+  publication_date?: string;
+  // Category of the query that produced this result (set by the orchestrator)
+  category?: string;
+  // Id of the provider that returned this result
+  providerId?: string;
+  // Other outlets' articles on the same story, merged into this one (with
+  // their opening, for the perspectives card)
+  alsoReportedBy?: { name: string; url: string; title: string; content: string }[];
+}
+
+export interface ContentProviderCapabilities {
+  // Accepts free-text queries (otherwise the query is ignored)
+  search: boolean;
+  // Returns top stories without needing a query
+  headlines: boolean;
+}
+
+export interface ProviderFetchOptions {
+  maxResults?: number;
+  location?: string;
+  // Per-user RSS/Atom feed URLs
+  feeds?: string[];
+}
+
+export interface ContentProvider {
+  id: string;
+  capabilities: ContentProviderCapabilities;
+  // False when the provider is missing credentials or config
+  isAvailable(): boolean;
+  fetch(query: string, options: ProviderFetchOptions): Promise<ValyuResult[]>;
+}
+
+export interface ProviderRateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface ProviderSettings {
+  enabled: boolean;
+  // Relative share of the mixed feed (0 only fills in once others run out)
+  weight: number;
+  rateLimit?: ProviderRateLimit;
+}
+
+export interface CategoryQuery {
+  category: string;
+  query: string;
+}
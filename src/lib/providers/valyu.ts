@@ -0,0 +1,36 @@
+import { getClients } from "@/lib/clients";
+import type { ContentProvider, ValyuResult } from "./types";
+
+// Valyu web/news search
+export const valyuProvider: ContentProvider = {
+  id: "valyu",
+  capabilities: { search: true, headlines: false },
+
+  isAvailable() {
+    return !!getClients().valyu;
+  },
+
+  async fetch(query, { maxResults = 10 }) {
+    const { valyu } = getClients();
+    if (!valyu) return [];
+
+    console.log(`Valyu searching: "${query}"`);
+    const response = await valyu.search(query, {
+      maxNumResults: maxResults,
+      maxPrice: 100,           // Allow higher price for better sources
+      relevanceThreshold: 0.1, // Very low threshold for more results
+    });
+
+    const results = response.results || [];
+    console.log(`Valyu "${query}" → ${results.length} results`);
+
+    return results.map((r): ValyuResult => ({
+      title: r.title,
+      url: r.url,
+      content: r.content,
+      source: r.source,
+      relevance_score: r.relevance_score,
+      publication_date: r.publication_date,
+    }));
+  },
+};
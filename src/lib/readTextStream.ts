@@ -0,0 +1,33 @@
+// Read a chunked text/plain response, reporting the accumulated text after each chunk
+export async function readTextStream(
+  response: Response,
+  onText: (text: string) => void
+): Promise<string> {
+  if (!response.body) {
+    const text = await response.text();
+    onText(text);
+    return text;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+
+  const tail = decoder.decode();
+  if (tail) {
+    text += tail;
+    onText(text);
+  }
+  return text;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
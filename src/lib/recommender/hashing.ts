@@ -0,0 +1,44 @@
+import { profileTerms } from "@/lib/personalization";
+import type { Embedder } from "./types";
+
+const DEFAULT_DIMENSIONS = 512;
+
+// FNV-1a, enough to spread features over the buckets
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Crude plural folding so "earnings" and "earning" land together
+const stem = (word: string) => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+
+// Words plus adjacent pairs: the pair is what tells "apple earnings" from "apple orchards"
+function features(text: string): string[] {
+  const words = profileTerms(text).map(stem);
+  const pairs = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+  return [...words, ...pairs];
+}
+
+// On-CPU feature hashing: no model download, deterministic, and good enough to
+// match articles that share vocabulary with what the reader liked
+export function createHashingEmbedder({ dimensions = DEFAULT_DIMENSIONS }: { dimensions?: number } = {}): Embedder {
+  function embedOne(text: string): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const feature of features(text)) {
+      const h = hash(feature);
+      // The top bit picks the sign, so collisions cancel out rather than pile up
+      vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  return {
+    name: `hashing-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
@@ -0,0 +1,50 @@
+import type { Embedder } from "./types";
+
+interface HttpEmbedderOptions {
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  url: string;
+  model: string;
+  apiKey?: string;
+  // Give up after this long; the feed is then served unranked
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_TIMEOUT_MS = 3000;
+
+// A real embedding model behind an OpenAI-compatible /embeddings endpoint
+export function createHttpEmbedder({
+  url,
+  model,
+  apiKey,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  fetchImpl = fetch,
+}: HttpEmbedderOptions): Embedder {
+  const endpoint = `${url.replace(/\/+$/, "")}/embeddings`;
+
+  return {
+    name: `http-${model}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await fetchImpl(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({ model, input: texts }),
+        // Covers reading the body too
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Embedding request failed: ${response.status}`);
+      }
+      const json = (await response.json()) as { data?: { index?: number; embedding: number[] }[] };
+      const data = [...(json.data || [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      if (data.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${data.length}`);
+      }
+      return data.map((d) => d.embedding);
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import type { ValyuResult } from "@/lib/providers";
+import { createHashingEmbedder } from "./hashing";
+import { createHttpEmbedder } from "./http";
+import type { Embedder, InterestSample } from "./types";
+
+// Similarity feed ranking: embed what the reader liked, engaged with or turned
+// down, embed the candidate articles, and move candidates by how close they
+// sit to the likes and how far from the dislikes - on top of the order they
+// arrived in (provider weights, keyword rerank), with a little randomness
+// (exploration) and a penalty for near-duplicates (diversity) so the feed
+// doesn't collapse onto one subject.
+
+export { createHashingEmbedder } from "./hashing";
+export { createHttpEmbedder } from "./http";
+export type * from "./types";
+
+const DEFAULT_EXPLORATION = 0.1;
+const DEFAULT_DIVERSITY = 0.3;
+const DEFAULT_ORDER_WEIGHT = 0.2;
+
+export interface RankOptions {
+  embedder?: Embedder;
+  // Chance that a slot goes to a random remaining article instead of the best match
+  exploration?: number;
+  // 0 = pure relevance, 1 = pure novelty against what's already been picked
+  diversity?: number;
+  // 0 = pure similarity, 1 = keep the incoming order
+  orderWeight?: number;
+  random?: () => number;
+}
+
+// Share one embedder per process, even across separately bundled route modules
+const globalForEmbedder = globalThis as unknown as { vibescrollEmbedder?: Embedder };
+
+function createConfiguredEmbedder(): Embedder {
+  const url = process.env.EMBEDDINGS_URL;
+  const embedder = url
+    ? createHttpEmbedder({
+        url,
+        model: process.env.EMBEDDINGS_MODEL || "nomic-embed-text",
+        apiKey: process.env.EMBEDDINGS_API_KEY,
+        timeoutMs: parseInt(process.env.EMBEDDINGS_TIMEOUT_MS || "", 10) || undefined,
+      })
+    : createHashingEmbedder();
+  console.log("Embedder:", embedder.name);
+  return embedder;
+}
+
+// Configured from EMBEDDINGS_URL / EMBEDDINGS_MODEL / EMBEDDINGS_API_KEY / EMBEDDINGS_TIMEOUT_MS;
+// the on-CPU hashing embedder without them
+export function getEmbedder(): Embedder {
+  if (!globalForEmbedder.vibescrollEmbedder) {
+    globalForEmbedder.vibescrollEmbedder = createConfiguredEmbedder();
+  }
+  return globalForEmbedder.vibescrollEmbedder;
+}
+
+// Swap the shared embedder (tests, custom models); undefined re-reads the environment
+export function setEmbedder(embedder: Embedder | undefined) {
+  globalForEmbedder.vibescrollEmbedder = embedder;
+}
+
+// RECOMMENDER_EXPLORATION, RECOMMENDER_DIVERSITY and RECOMMENDER_ORDER_WEIGHT, each 0-1
+export function getRankDefaults(): { exploration: number; diversity: number; orderWeight: number } {
+  const read = (value: string | undefined, fallback: number) => {
+    const n = parseFloat(value || "");
+    return isNaN(n) ? fallback : Math.min(1, Math.max(0, n));
+  };
+  return {
+    exploration: read(process.env.RECOMMENDER_EXPLORATION, DEFAULT_EXPLORATION),
+    diversity: read(process.env.RECOMMENDER_DIVERSITY, DEFAULT_DIVERSITY),
+    orderWeight: read(process.env.RECOMMENDER_ORDER_WEIGHT, DEFAULT_ORDER_WEIGHT),
+  };
+}
+
+// "weight:text", as sent by the client (see samples.ts)
+export function parseSampleParam(value: string): InterestSample | null {
+  const match = value.match(/^(-?\d+(?:\.\d+)?):([\s\S]+)$/);
+  if (!match) return null;
+  const weight = parseFloat(match[1]);
+  const text = match[2].trim();
+  return weight !== 0 && text ? { text, weight } : null;
+}
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Weighted sum of sample vectors on one side (likes or dislikes); null if none
+function centroid(vectors: number[][], weights: number[]): number[] | null {
+  if (vectors.length === 0) return null;
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  vectors.forEach((vector, i) => vector.forEach((v, d) => (sum[d] += v * weights[i])));
+  return sum;
+}
+
+const articleText = (result: ValyuResult) =>
+  `${result.title}. ${typeof result.content === "string" ? result.content : JSON.stringify(result.content)}`.slice(0, 1000);
+
+// Order results by similarity to the interest profile blended with their
+// incoming position, picking greedily with a diversity penalty (maximal
+// marginal relevance). Without samples, or if the embedder fails or times
+// out, the results come back as they were.
+export async function rankBySimilarity(
+  results: ValyuResult[],
+  samples: InterestSample[],
+  options: RankOptions = {}
+): Promise<ValyuResult[]> {
+  if (samples.length === 0 || results.length < 2) return results;
+  const { embedder = getEmbedder(), random = Math.random } = options;
+  const { exploration, diversity, orderWeight } = { ...getRankDefaults(), ...options };
+
+  let vectors: number[][];
+  try {
+    vectors = await embedder.embed([...samples.map((s) => s.text), ...results.map(articleText)]);
+  } catch (error) {
+    console.error(`Embedder "${embedder.name}" failed:`, error);
+    return results;
+  }
+  const sampleVectors = vectors.slice(0, samples.length);
+  const candidates = vectors.slice(samples.length);
+
+  const side = (keep: (weight: number) => boolean) => {
+    const picked = samples.map((s, i) => [s, sampleVectors[i]] as const).filter(([s]) => keep(s.weight));
+    return centroid(picked.map(([, v]) => v), picked.map(([s]) => Math.abs(s.weight)));
+  };
+  const liked = side((w) => w > 0);
+  const disliked = side((w) => w < 0);
+
+  // The incoming order already carries provider weights and avoided terms: the
+  // first result scores 1, the last -1, and similarity moves them from there
+  const relevance = candidates.map((vector, idx) => {
+    const similarity = (liked ? cosine(vector, liked) : 0) - (disliked ? cosine(vector, disliked) : 0);
+    const position = 1 - (2 * idx) / (candidates.length - 1);
+    return (1 - orderWeight) * similarity + orderWeight * position;
+  });
+
+  const remaining = results.map((_, i) => i);
+  const order: number[] = [];
+  while (remaining.length > 0) {
+    let choice = 0;
+    if (order.length > 0 && random() < exploration) {
+      choice = Math.floor(random() * remaining.length);
+    } else {
+      let best = -Infinity;
+      remaining.forEach((idx, pos) => {
+        const redundancy = order.length > 0 ? Math.max(...order.map((o) => cosine(candidates[idx], candidates[o]))) : 0;
+        const score = (1 - diversity) * relevance[idx] - diversity * redundancy;
+        // Ties keep the incoming order
+        if (score > best) {
+          best = score;
+          choice = pos;
+        }
+      });
+    }
+    order.push(remaining.splice(choice, 1)[0]);
+  }
+
+  return order.map((idx) => results[idx]);
+}
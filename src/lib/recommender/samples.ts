@@ -0,0 +1,51 @@
+import type { Topic } from "@/types";
+import { SIGNAL_HALF_LIFE_MS } from "@/lib/preferences";
+import type { InterestSample } from "./types";
+
+// The reader's side of the recommender, kept in localStorage: the topics they
+// liked, read closely or turned down, sent with each feed request so the
+// server can build an interest profile from them. Weights fade like the
+// preference counters.
+
+export interface StoredSample extends InterestSample {
+  // When the weight was last changed
+  at: number;
+}
+
+const MAX_STORED_SAMPLES = 40;
+// Samples sent per request - keeps the URL a sensible length
+const MAX_SENT_SAMPLES = 12;
+const MAX_SAMPLE_CHARS = 150;
+const MIN_WEIGHT = 0.05;
+
+export function sampleText(topic: Pick<Topic, "title" | "summary">): string {
+  return `${topic.title}. ${topic.summary}`.slice(0, MAX_SAMPLE_CHARS);
+}
+
+export function currentWeight(sample: StoredSample, now: number = Date.now()): number {
+  return sample.weight * Math.pow(0.5, Math.max(0, now - sample.at) / SIGNAL_HALF_LIFE_MS);
+}
+
+// Add weight to a sample (new or existing); samples that cancel out are dropped
+// and the faintest go first once the list is full
+export function addSample(samples: StoredSample[], text: string, weight: number, now: number = Date.now()): StoredSample[] {
+  const existing = samples.find((s) => s.text === text);
+  const updated = Math.round(((existing ? currentWeight(existing, now) : 0) + weight) * 1000) / 1000;
+  const rest = samples.filter((s) => s.text !== text);
+  const next = Math.abs(updated) >= MIN_WEIGHT ? [...rest, { text, weight: updated, at: now }] : rest;
+
+  return next
+    .filter((s) => Math.abs(currentWeight(s, now)) >= MIN_WEIGHT)
+    .sort((a, b) => Math.abs(currentWeight(b, now)) - Math.abs(currentWeight(a, now)))
+    .slice(0, MAX_STORED_SAMPLES);
+}
+
+// Strongest samples as "weight:text" query params
+export function encodeSamples(samples: StoredSample[], now: number = Date.now()): string[] {
+  return samples
+    .map((s) => ({ text: s.text, weight: Math.round(currentWeight(s, now) * 100) / 100 }))
+    .filter((s) => Math.abs(s.weight) >= MIN_WEIGHT)
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+    .slice(0, MAX_SENT_SAMPLES)
+    .map((s) => `${s.weight}:${s.text}`);
+}
@@ -0,0 +1,14 @@
+// Turns texts into vectors for the recommender. Vectors only need to be
+// comparable with each other, so any model works as long as it's used for
+// both the profile and the candidates.
+export interface Embedder {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Something the reader reacted to: positive weights pull the feed toward it,
+// negative ones push away
+export interface InterestSample {
+  text: string;
+  weight: number;
+}
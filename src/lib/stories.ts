@@ -0,0 +1,203 @@
+import type { Topic, TopicSource } from "@/types";
+import type { ValyuResult } from "@/lib/providers/types";
+
+// Near-duplicate story detection. Outlets rewrite each other's headlines, so
+// exact title matching misses most repeats; instead each story becomes a
+// MinHash signature of the words in its headline and opening, and two stories
+// whose signatures mostly agree (estimated Jaccard similarity) are one story.
+
+export type StorySignature = number[];
+
+// A story the reader has already been shown, kept to catch repeats later
+export interface StoryRecord {
+  id: string;
+  signature: StorySignature;
+}
+
+const NUM_HASHES = 64;
+// Share of matching word sets above which two articles count as the same story
+export const DUPLICATE_THRESHOLD = 0.5;
+// Only the opening matters - later paragraphs drift apart between outlets
+const LEAD_WORDS = 60;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "can", "her", "was", "one", "our", "out",
+  "has", "have", "had", "his", "how", "its", "may", "new", "now", "say", "says", "said", "she",
+  "that", "this", "with", "from", "they", "will", "would", "there", "their", "what", "about",
+  "which", "when", "were", "been", "into", "than", "then", "them", "after", "over", "also",
+]);
+
+const stem = (word: string) => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 2 && !STOPWORDS.has(w))
+    .map(stem);
+}
+
+export function storyFeatures(title: string, body: string): string[] {
+  return Array.from(new Set([...words(title), ...words(body).slice(0, LEAD_WORDS)]));
+}
+
+// FNV-1a for the feature, then a murmur3 finaliser per seed for the NUM_HASHES hash functions
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function mix(h: number, seed: number): number {
+  h ^= Math.imul(seed + 1, 0x9e3779b9);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// Empty for text with no usable words, which then matches nothing
+export function minhash(features: string[]): StorySignature {
+  if (features.length === 0) return [];
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const feature of features) {
+    const base = fnv1a(feature);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = mix(base, i);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+// Estimated Jaccard similarity of the two stories' word sets
+export function signatureSimilarity(a: StorySignature, b: StorySignature): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
+
+// Groups of near-duplicates as indexes, each in input order, ordered by first member
+export function clusterSignatures(signatures: StorySignature[], threshold: number = DUPLICATE_THRESHOLD): number[][] {
+  const parent = signatures.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < signatures.length; i++) {
+    for (let j = i + 1; j < signatures.length; j++) {
+      if (signatureSimilarity(signatures[i], signatures[j]) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  signatures.forEach((_, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(i);
+  });
+  return Array.from(groups.values()).sort((a, b) => a[0] - b[0]);
+}
+
+// --- Search results (server) ---
+
+// How much of each merged article is kept for the perspectives prompt
+const CLUSTER_CONTENT_CHARS = 1500;
+
+const resultBody = (result: ValyuResult) =>
+  typeof result.content === "string" ? result.content : JSON.stringify(result.content);
+
+// One result per story: the one with the most text leads, the others are
+// kept as extra sources for the card
+export function mergeDuplicateResults(results: ValyuResult[]): ValyuResult[] {
+  const signatures = results.map((r) => minhash(storyFeatures(r.title, resultBody(r))));
+
+  return clusterSignatures(signatures).map((group) => {
+    if (group.length === 1) return results[group[0]];
+    const members = group.map((i) => results[i]);
+    const lead = members.reduce((best, r) => (resultBody(r).length > resultBody(best).length ? r : best));
+    return {
+      ...lead,
+      alsoReportedBy: members
+        .filter((r) => r !== lead)
+        .map((r) => ({
+          name: r.source || new URL(r.url).hostname,
+          url: r.url,
+          title: r.title,
+          content: resultBody(r).slice(0, CLUSTER_CONTENT_CHARS),
+        })),
+    };
+  });
+}
+
+// --- Topics (client) ---
+
+export function topicSignature(topic: Pick<Topic, "title" | "summary" | "content">): StorySignature {
+  return minhash(storyFeatures(topic.title, `${topic.summary} ${topic.content}`));
+}
+
+// Every outlet behind a card, its own first
+export function topicSources(topic: Pick<Topic, "source" | "sourceUrl" | "sources">): TopicSource[] {
+  return topic.sources?.length ? topic.sources : [{ name: topic.source, url: topic.sourceUrl }];
+}
+
+function withSourcesOf(topic: Topic, duplicate: Topic): Topic {
+  const sources = topicSources(topic);
+  const known = new Set(sources.map((s) => s.url));
+  const extra = topicSources(duplicate).filter((s) => s.url && !known.has(s.url));
+  return extra.length > 0 ? { ...topic, sources: [...sources, ...extra] } : topic;
+}
+
+// Add a fetched batch to the feed. A story already on the feed gains the new
+// card's sources instead of a second card; one the reader saw earlier (in
+// `history`) is dropped. Cards without a source link (AI thoughts) pass through.
+export function mergeNewTopics(
+  feed: Topic[],
+  incoming: Topic[],
+  history: StoryRecord[] = [],
+  threshold: number = DUPLICATE_THRESHOLD
+): { feed: Topic[]; added: Topic[]; duplicates: number } {
+  const merged = [...feed];
+  const added: Topic[] = [];
+  const onFeed = new Set(feed.map((t) => t.id));
+  const signatures = new Map<string, StorySignature>();
+  const signatureOf = (topic: Topic) => {
+    if (!signatures.has(topic.id)) signatures.set(topic.id, topicSignature(topic));
+    return signatures.get(topic.id)!;
+  };
+  const sameStory = (a: Topic, b: Topic) =>
+    !!a.sourceUrl && !!b.sourceUrl && signatureSimilarity(signatureOf(a), signatureOf(b)) >= threshold;
+
+  let duplicates = 0;
+  for (const topic of incoming) {
+    const feedIdx = merged.findIndex((t) => t.id === topic.id || sameStory(t, topic));
+    if (feedIdx !== -1) {
+      merged[feedIdx] = withSourcesOf(merged[feedIdx], topic);
+      duplicates++;
+      continue;
+    }
+    const addedIdx = added.findIndex((t) => sameStory(t, topic));
+    if (addedIdx !== -1) {
+      added[addedIdx] = withSourcesOf(added[addedIdx], topic);
+      duplicates++;
+      continue;
+    }
+    const seenBefore =
+      !!topic.sourceUrl &&
+      history.some((r) => !onFeed.has(r.id) && signatureSimilarity(r.signature, signatureOf(topic)) >= threshold);
+    if (seenBefore) {
+      duplicates++;
+      continue;
+    }
+    added.push(topic);
+  }
+
+  return { feed: merged, added, duplicates };
+}
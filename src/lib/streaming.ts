@@ -0,0 +1,94 @@
+import type { MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
+
+// Yield the text deltas of a Claude message stream; stops the upstream
+// request if the consumer bails out early (client disconnected).
+// onUsage gets the input tokens at the start and the output tokens at the end.
+export async function* textDeltas(
+  stream: MessageStream,
+  onUsage?: (counts: { input_tokens?: number | null; output_tokens?: number | null }) => void
+): AsyncGenerator<string> {
+  let completed = false;
+  try {
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield event.delta.text;
+      } else if (event.type === "message_start") {
+        onUsage?.({ input_tokens: event.message.usage.input_tokens });
+      } else if (event.type === "message_delta") {
+        onUsage?.({ output_tokens: event.usage.output_tokens });
+      }
+    }
+    completed = true;
+  } finally {
+    if (!completed) stream.abort();
+  }
+}
+
+// Glue prefix onto the first chunk, so nothing is sent if the source never produces text
+export async function* withPrefix(chunks: AsyncIterable<string>, prefix: string): AsyncGenerator<string> {
+  let pending = prefix;
+  for await (const chunk of chunks) {
+    if (!chunk) continue;
+    yield pending + chunk;
+    pending = "";
+  }
+}
+
+// A single pre-computed chunk (cache hits, demo content)
+export async function* singleChunk(text: string): AsyncGenerator<string> {
+  yield text;
+}
+
+// Pass chunks through; if the source fails before producing anything, send fallback instead
+export async function* withFallback(
+  chunks: AsyncIterable<string>,
+  fallback: string
+): AsyncGenerator<string> {
+  let emitted = false;
+  try {
+    for await (const chunk of chunks) {
+      if (!chunk) continue;
+      emitted = true;
+      yield chunk;
+    }
+  } catch (error) {
+    console.error("Stream error:", error);
+  }
+  if (!emitted) yield fallback;
+}
+
+// Chunked plain-text response; cancelling the request closes the source iterator
+export function streamTextResponse(
+  chunks: AsyncIterable<string>,
+  headers: Record<string, string> = {}
+): Response {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error("Stream response error:", error);
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-cache",
+      ...headers,
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { MessageCreateParamsNonStreaming } from "@anthropic-ai/sdk/resources/messages";
+import { extractJson } from "./json";
+import type { Schema, ValidationResult } from "./schema";
+
+export * from "./schema";
+export * from "./schemas";
+export { extractJson } from "./json";
+
+export interface StructuredMetrics {
+  requests: number;
+  // Valid on the first try
+  firstTry: number;
+  // Valid after the repair retry
+  repaired: number;
+  failed: number;
+  failureRate: number;
+  lastError?: string;
+}
+
+// Per-schema counters, shared across route bundles like the LLM cache
+const globalForMetrics = globalThis as unknown as {
+  vibescrollStructuredMetrics?: Record<string, StructuredMetrics>;
+};
+
+function metricsFor(name: string): StructuredMetrics {
+  const all = (globalForMetrics.vibescrollStructuredMetrics ??= {});
+  return (all[name] ??= { requests: 0, firstTry: 0, repaired: 0, failed: 0, failureRate: 0 });
+}
+
+function record(name: string, outcome: "firstTry" | "repaired" | "failed", error?: string) {
+  const m = metricsFor(name);
+  m.requests++;
+  m[outcome]++;
+  m.failureRate = m.failed / m.requests;
+  if (error) m.lastError = error;
+}
+
+export function getStructuredMetrics(): Record<string, StructuredMetrics> {
+  return { ...(globalForMetrics.vibescrollStructuredMetrics || {}) };
+}
+
+export function resetStructuredMetrics() {
+  globalForMetrics.vibescrollStructuredMetrics = {};
+}
+
+// Parse + validate a raw model response
+export function parseStructured<T>(text: string, schema: Schema<T>): ValidationResult<T> {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { ok: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  return schema(json);
+}
+
+function responseText(response: Anthropic.Message): string {
+  const textContent = response.content.find((c) => c.type === "text");
+  return textContent && textContent.type === "text" ? textContent.text : "";
+}
+
+interface GenerateStructuredOptions<T> {
+  // Metrics bucket, e.g. "processed-topic"
+  name: string;
+  schema: Schema<T>;
+  request: MessageCreateParamsNonStreaming;
+  // Cancels in-flight model calls (e.g. a worker pool timeout)
+  signal?: AbortSignal;
+  // Sees every raw response, repair retry included (token accounting)
+  onResponse?: (response: Anthropic.Message) => void;
+}
+
+// Ask Claude for JSON and validate it. On failure, send the error back once
+// and ask for a corrected response. Returns null if both attempts fail.
+export async function generateStructured<T>(
+  anthropic: Anthropic,
+  { name, schema, request, signal, onResponse }: GenerateStructuredOptions<T>
+): Promise<T | null> {
+  const send = async (params: MessageCreateParamsNonStreaming) => {
+    const response = await anthropic.messages.create(params, { signal });
+    onResponse?.(response);
+    return responseText(response);
+  };
+
+  const first = await send(request);
+  const firstResult = parseStructured(first, schema);
+  if (firstResult.ok) {
+    record(name, "firstTry");
+    return firstResult.value;
+  }
+
+  console.log(`Structured output "${name}" invalid (${firstResult.error}), retrying once`);
+
+  const retry = await send({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: "assistant", content: first || "(empty response)" },
+      {
+        role: "user",
+        content: `That response could not be used: ${firstResult.error}. Reply with ONLY the corrected JSON, no commentary.`,
+      },
+    ],
+  });
+  const retryResult = parseStructured(retry, schema);
+  if (retryResult.ok) {
+    record(name, "repaired");
+    return retryResult.value;
+  }
+
+  record(name, "failed", retryResult.error);
+  console.error(`Structured output "${name}" failed after retry:`, retryResult.error);
+  return null;
+}
@@ -0,0 +1,52 @@
+// Pull the JSON payload out of a model response: code fences, leading prose,
+// trailing commas and text after the closing bracket are all tolerated
+
+function stripFences(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return fenced ? fenced[1] : text;
+}
+
+// Slice from the first { or [ to its matching close, ignoring brackets in strings
+function sliceBalanced(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start < 0) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{" || ch === "[") stack.push(ch === "{" ? "}" : "]");
+    else if (ch === "}" || ch === "]") {
+      if (stack.pop() !== ch) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  // Truncated output - close what's still open
+  if (inString) return null;
+  return text.slice(start) + stack.reverse().join("");
+}
+
+function removeTrailingCommas(json: string): string {
+  return json.replace(/,\s*([}\]])/g, "$1");
+}
+
+export function extractJson(text: string): unknown {
+  const candidate = sliceBalanced(stripFences(text).trim());
+  if (candidate === null) throw new Error("No JSON object or array found");
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(removeTrailingCommas(candidate));
+  }
+}
@@ -0,0 +1,86 @@
+// Tiny runtime schema helpers for model output. Validators coerce where it's
+// harmless (trimming, truncating over-long strings) and fail otherwise.
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export type Schema<T> = (value: unknown, path?: string) => ValidationResult<T>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const fail = <T>(error: string): ValidationResult<T> => ({ ok: false, error });
+
+// Cut at a word boundary where possible and mark the cut
+export function truncate(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+// `exact` strings (e.g. phrases quoted from the content) fail when over-long
+// instead of being truncated, since a cut-down quote no longer matches
+export function string({
+  min = 1,
+  max,
+  exact = false,
+}: { min?: number; max?: number; exact?: boolean } = {}): Schema<string> {
+  return (value, path = "value") => {
+    if (typeof value !== "string") return fail(`${path} must be a string`);
+    const trimmed = value.trim();
+    if (trimmed.length < min) return fail(`${path} must be at least ${min} chars`);
+    if (!max || trimmed.length <= max) return ok(trimmed);
+    return exact ? fail(`${path} must be at most ${max} chars`) : ok(truncate(trimmed, max));
+  };
+}
+
+export function number({ min, max }: { min?: number; max?: number } = {}): Schema<number> {
+  return (value, path = "value") => {
+    const n = typeof value === "string" ? Number(value) : value;
+    if (typeof n !== "number" || !Number.isFinite(n)) return fail(`${path} must be a number`);
+    if (min !== undefined && n < min) return fail(`${path} must be >= ${min}`);
+    if (max !== undefined && n > max) return fail(`${path} must be <= ${max}`);
+    return ok(n);
+  };
+}
+
+// With `dropInvalid`, items that fail are left out instead of failing the array
+export function array<T>(
+  item: Schema<T>,
+  { min = 0, max, dropInvalid = false }: { min?: number; max?: number; dropInvalid?: boolean } = {}
+): Schema<T[]> {
+  return (value, path = "value") => {
+    if (!Array.isArray(value)) return fail(`${path} must be an array`);
+    const items: T[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const result = item(value[i], `${path}[${i}]`);
+      if (result.ok) items.push(result.value);
+      else if (!dropInvalid) return result;
+    }
+    if (items.length < min) return fail(`${path} must have at least ${min} items`);
+    return ok(max ? items.slice(0, max) : items);
+  };
+}
+
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path) => (value === undefined || value === null ? ok(fallback) : schema(value, path));
+}
+
+export function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  return (value, path = "value") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(`${path} must be an object`);
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema((value as Record<string, unknown>)[key], `${path}.${key}`);
+      if (!result.ok) return result as ValidationResult<never>;
+      out[key] = result.value;
+    }
+    return ok(out as { [K in keyof Shape]: Infer<Shape[K]> });
+  };
+}
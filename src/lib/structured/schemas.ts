@@ -0,0 +1,81 @@
+import { array, number, object, optional, string, type Infer } from "./schema";
+
+// Highlights must be exact phrases from the content, so over-long ones are dropped, not cut
+const highlight = object({
+  text: string({ max: 120, exact: true }),
+  reason: optional(string(), ""),
+});
+
+const processedTopicShape = {
+  title: string({ max: 80 }),
+  summary: string({ max: 200 }),
+  content: string({ max: 600 }),
+  // Free-form here; coerced against the category registry by the caller
+  category: optional(string(), "general"),
+  highlights: optional(array(highlight, { max: 5, dropInvalid: true }), []),
+};
+
+// Article summarised for a topic card (processWithClaude)
+export const processedTopicSchema = object(processedTopicShape);
+
+export type ProcessedTopic = Infer<typeof processedTopicSchema>;
+
+// Several articles summarised in one call; `article` is the 1-based input number
+export const processedTopicBatchSchema = array(
+  object({ article: number({ min: 1 }), ...processedTopicShape }),
+  { min: 1 }
+);
+
+// Sources sent to the perspectives prompt, one perspective each
+export const MAX_PERSPECTIVES = 6;
+
+// A story covered by several outlets: one synthesised card plus how each
+// source framed it; `source` is the 1-based input number
+export const storyPerspectivesSchema = object({
+  ...processedTopicShape,
+  perspectives: array(
+    object({ source: number({ min: 1, max: MAX_PERSPECTIVES }), framing: string({ max: 200 }) }),
+    { min: 2, max: MAX_PERSPECTIVES }
+  ),
+});
+
+export type StoryPerspectives = Infer<typeof storyPerspectivesSchema>;
+
+// One AI-generated fact / thought / joke
+export const aiThoughtSchema = object({
+  type: optional(string(), "fact"),
+  title: string({ max: 60 }),
+  content: string({ max: 300 }),
+  highlights: optional(array(object({ text: string({ max: 120, exact: true }) }), { max: 5, dropInvalid: true }), []),
+});
+
+export const aiThoughtsSchema = array(aiThoughtSchema, { min: 1 });
+
+export type AIThought = Infer<typeof aiThoughtSchema>;
+
+// Sub-questions that research a topic from different angles (/api/research)
+export const researchPlanSchema = object({
+  subQuestions: array(string({ max: 160 }), { min: 2, max: 4 }),
+});
+
+// Source numbers a statement is based on, e.g. [1, 3]
+const citedSources = optional(array(number({ min: 1 }), { max: 6 }), []);
+
+export const researchReportSchema = object({
+  synthesis: string({ max: 2000 }),
+  findings: optional(
+    array(object({ question: string({ max: 160 }), answer: string({ max: 600 }), sources: citedSources }), { max: 4 }),
+    []
+  ),
+  timeline: optional(
+    array(object({ date: string({ max: 40 }), event: string({ max: 200 }), sources: citedSources }), { max: 8 }),
+    []
+  ),
+  // The prompt asks for at least two opposing views; fewer gets a repair retry
+  viewpoints: array(
+    object({ position: string({ max: 80 }), argument: string({ max: 400 }), sources: citedSources }),
+    { min: 2, max: 4 }
+  ),
+});
+
+export type ResearchReportDraft = Infer<typeof researchReportSchema>;
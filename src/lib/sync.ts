@@ -0,0 +1,212 @@
+import { SIGNAL_HALF_LIFE_MS, decayCounters } from "@/lib/preferences";
+
+// Synced user data: the localStorage records that make a feed "yours".
+// Shared by the /api/sync route and the client-side sync hook.
+
+export interface SyncPreferences {
+  likedCategories: Record<string, number>;
+  likedKeywords: Record<string, number>;
+  totalLikes: number;
+  dislikedCategories: Record<string, number>;
+  dislikedKeywords: Record<string, number>;
+  hiddenSources: string[];
+  decayedAt: number;
+}
+
+export interface SyncData {
+  likes: string[];
+  preferences: SyncPreferences;
+  interestTags: string[];
+  location: string;
+  customPrompt: string;
+  shownUrls: string[];
+  feeds: string[];
+}
+
+// Keep shown URLs bounded, like useTopicFeed does locally
+export const MAX_SYNCED_SHOWN_URLS = 200;
+
+// Bounds on what an account can store; anything past them is dropped
+export const SYNC_LIMITS = {
+  // Whole POST body, in bytes
+  bodyBytes: 256 * 1024,
+  listItems: 500,
+  feeds: 50,
+  interestTags: 50,
+  counterKeys: 500,
+  // Ids, URLs, tags, keywords
+  itemChars: 2048,
+  location: 200,
+  customPrompt: 2000,
+};
+
+export function emptySyncData(): SyncData {
+  return {
+    likes: [],
+    preferences: {
+      likedCategories: {},
+      likedKeywords: {},
+      totalLikes: 0,
+      dislikedCategories: {},
+      dislikedKeywords: {},
+      hiddenSources: [],
+      decayedAt: 0,
+    },
+    interestTags: [],
+    location: "",
+    customPrompt: "",
+    shownUrls: [],
+    feeds: [],
+  };
+}
+
+// The newest `max` strings (lists grow at the end); over-long items are dropped
+const stringList = (value: unknown, max: number = SYNC_LIMITS.listItems): string[] =>
+  Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && v.length <= SYNC_LIMITS.itemChars).slice(-max)
+    : [];
+
+const text = (value: unknown, max: number): string => (typeof value === "string" ? value.slice(0, max) : "");
+
+// The strongest SYNC_LIMITS.counterKeys counters
+const counters = (value: unknown): Record<string, number> => {
+  if (typeof value !== "object" || value === null) return {};
+  const entries = Object.entries(value).filter(
+    (entry): entry is [string, number] =>
+      entry[0].length <= SYNC_LIMITS.itemChars &&
+      typeof entry[1] === "number" &&
+      Number.isFinite(entry[1]) &&
+      entry[1] > 0
+  );
+  if (entries.length > SYNC_LIMITS.counterKeys) {
+    entries.sort(([, a], [, b]) => b - a).splice(SYNC_LIMITS.counterKeys);
+  }
+  return Object.fromEntries(entries);
+};
+
+// Coerce untrusted input (request bodies, stored files) into SyncData
+export function normalizeSyncData(value: unknown): SyncData {
+  const data = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  const prefs = (typeof data.preferences === "object" && data.preferences !== null
+    ? data.preferences
+    : {}) as Record<string, unknown>;
+
+  return {
+    likes: stringList(data.likes),
+    preferences: {
+      likedCategories: counters(prefs.likedCategories),
+      likedKeywords: counters(prefs.likedKeywords),
+      totalLikes: typeof prefs.totalLikes === "number" && prefs.totalLikes > 0 ? prefs.totalLikes : 0,
+      dislikedCategories: counters(prefs.dislikedCategories),
+      dislikedKeywords: counters(prefs.dislikedKeywords),
+      hiddenSources: stringList(prefs.hiddenSources),
+      decayedAt: typeof prefs.decayedAt === "number" && prefs.decayedAt > 0 ? prefs.decayedAt : 0,
+    },
+    interestTags: stringList(data.interestTags, SYNC_LIMITS.interestTags),
+    location: text(data.location, SYNC_LIMITS.location),
+    customPrompt: text(data.customPrompt, SYNC_LIMITS.customPrompt),
+    shownUrls: stringList(data.shownUrls, MAX_SYNCED_SHOWN_URLS),
+    feeds: stringList(data.feeds, SYNC_LIMITS.feeds),
+  };
+}
+
+// Sets: keep everything either side has, minus what either side removed since base
+function mergeList(server: string[], local: string[], base?: string[]): string[] {
+  const serverSet = new Set(server);
+  const localSet = new Set(local);
+  const baseSet = new Set(base || []);
+  const merged = [...new Set([...server, ...local])];
+  return merged.filter((item) => !baseSet.has(item) || (serverSet.has(item) && localSet.has(item)));
+}
+
+// Counters: apply both sides' changes since base; without a base take the larger
+function mergeCounters(
+  server: Record<string, number>,
+  local: Record<string, number>,
+  base?: Record<string, number>
+): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const key of new Set([...Object.keys(server), ...Object.keys(local)])) {
+    const s = server[key] || 0;
+    const l = local[key] || 0;
+    const value = base ? s + l - (base[key] || 0) : Math.max(s, l);
+    if (value > 0) out[key] = value;
+  }
+  return out;
+}
+
+// Fade counters to what they'd be if decayed at `at`. Decay isn't an edit, so
+// the server, device and base copies are brought to the same point before
+// diffing; otherwise two devices halving the same counters would each look
+// like they took away half, and the merge would wipe them out.
+function decayTo(prefs: SyncPreferences, at: number): SyncPreferences {
+  if (!prefs.decayedAt || prefs.decayedAt >= at) return prefs;
+  const factor = Math.pow(0.5, (at - prefs.decayedAt) / SIGNAL_HALF_LIFE_MS);
+  return {
+    ...prefs,
+    likedCategories: decayCounters(prefs.likedCategories, factor),
+    likedKeywords: decayCounters(prefs.likedKeywords, factor),
+    dislikedCategories: decayCounters(prefs.dislikedCategories, factor),
+    dislikedKeywords: decayCounters(prefs.dislikedKeywords, factor),
+    decayedAt: at,
+  };
+}
+
+// Scalars: whichever side changed since base; on conflict (or no base) the
+// syncing device wins unless it's empty
+function mergeScalar(server: string, local: string, base?: string): string {
+  if (base !== undefined) {
+    if (local === base) return server;
+    return local;
+  }
+  return local || server;
+}
+
+// Three-way merge of the server copy with this device's data. `base` is what
+// this device last received from the server; a device syncing for the first
+// time (e.g. signing in after using the app logged out) has none, so its data
+// is unioned with the account's.
+export function mergeSyncData(server: SyncData, local: SyncData, base?: SyncData): SyncData {
+  const decayedAt = Math.max(
+    server.preferences.decayedAt,
+    local.preferences.decayedAt,
+    base?.preferences.decayedAt ?? 0
+  );
+  const serverPrefs = decayTo(server.preferences, decayedAt);
+  const localPrefs = decayTo(local.preferences, decayedAt);
+  const basePrefs = base && decayTo(base.preferences, decayedAt);
+
+  const totalLikes = basePrefs
+    ? serverPrefs.totalLikes + localPrefs.totalLikes - basePrefs.totalLikes
+    : Math.max(serverPrefs.totalLikes, localPrefs.totalLikes);
+
+  return {
+    likes: mergeList(server.likes, local.likes, base?.likes),
+    preferences: {
+      likedCategories: mergeCounters(
+        serverPrefs.likedCategories,
+        localPrefs.likedCategories,
+        basePrefs?.likedCategories
+      ),
+      likedKeywords: mergeCounters(serverPrefs.likedKeywords, localPrefs.likedKeywords, basePrefs?.likedKeywords),
+      totalLikes: Math.max(0, totalLikes),
+      dislikedCategories: mergeCounters(
+        serverPrefs.dislikedCategories,
+        localPrefs.dislikedCategories,
+        basePrefs?.dislikedCategories
+      ),
+      dislikedKeywords: mergeCounters(
+        serverPrefs.dislikedKeywords,
+        localPrefs.dislikedKeywords,
+        basePrefs?.dislikedKeywords
+      ),
+      hiddenSources: mergeList(serverPrefs.hiddenSources, localPrefs.hiddenSources, basePrefs?.hiddenSources),
+      decayedAt,
+    },
+    interestTags: mergeList(server.interestTags, local.interestTags, base?.interestTags),
+    location: mergeScalar(server.location, local.location, base?.location),
+    customPrompt: mergeScalar(server.customPrompt, local.customPrompt, base?.customPrompt),
+    shownUrls: mergeList(server.shownUrls, local.shownUrls, base?.shownUrls).slice(-MAX_SYNCED_SHOWN_URLS),
+    feeds: mergeList(server.feeds, local.feeds, base?.feeds),
+  };
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from "fs";
+import { createHash, randomUUID } from "crypto";
+import path from "path";
+import type { StoredSyncData, UserRecord, UserStore } from "./types";
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// The whole record in a temp file of its own, ready to move into place
+async function writeTemp(file: string, value: unknown): Promise<string> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value), "utf8");
+  return tmp;
+}
+
+// Write to a temp file and rename so a crash never leaves half a record
+async function writeJson(file: string, value: unknown) {
+  await fs.rename(await writeTemp(file, value), file);
+}
+
+// Like writeJson, but only if the file doesn't exist yet. link() fails with
+// EEXIST instead of replacing, so of two concurrent writers exactly one wins.
+async function writeJsonIfAbsent(file: string, value: unknown): Promise<boolean> {
+  const tmp = await writeTemp(file, value);
+  try {
+    await fs.link(tmp, file);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw error;
+  } finally {
+    await fs.unlink(tmp).catch(() => {});
+  }
+}
+
+// JSON files on disk: users/<sha256(email)>.json and sync/<userId>.json
+export function createFileUserStore(dir: string, now: () => number = Date.now): UserStore {
+  // Sync saves for one user run one at a time, so the revision check and the
+  // write can't interleave (within this process - one server per data dir)
+  const syncQueues = new Map<string, Promise<unknown>>();
+  const queued = <T>(userId: string, task: () => Promise<T>): Promise<T> => {
+    const run = (syncQueues.get(userId) ?? Promise.resolve()).then(task);
+    // The queue only waits for settling; the caller gets the error
+    const done = run.catch(() => {});
+    syncQueues.set(userId, done);
+    done.then(() => syncQueues.get(userId) === done && syncQueues.delete(userId));
+    return run;
+  };
+
+  const userFile = (email: string) =>
+    path.join(dir, "users", `${createHash("sha256").update(email).digest("hex")}.json`);
+  const syncFile = (userId: string) => path.join(dir, "sync", `${userId.replace(/[^\w-]/g, "")}.json`);
+
+  return {
+    findByEmail(email) {
+      return readJson<UserRecord>(userFile(email));
+    },
+
+    async createUser(email, passwordHash) {
+      const user = { id: randomUUID(), email, passwordHash, createdAt: now() };
+      if (await writeJsonIfAbsent(userFile(email), user)) return user;
+      const existing = await readJson<UserRecord>(userFile(email));
+      if (!existing) throw new Error("User record exists but can't be read");
+      return existing;
+    },
+
+    getSyncData(userId) {
+      return readJson<StoredSyncData>(syncFile(userId));
+    },
+
+    saveSyncData(userId, data, expectedRevision) {
+      return queued(userId, async () => {
+        const revision = (await readJson<StoredSyncData>(syncFile(userId)))?.revision ?? 0;
+        if (revision !== expectedRevision) return null;
+        const stored = { data, updatedAt: now(), revision: revision + 1 };
+        await writeJson(syncFile(userId), stored);
+        return stored;
+      });
+    },
+  };
+}
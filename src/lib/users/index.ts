@@ -0,0 +1,30 @@
+import path from "path";
+import { createMemoryUserStore } from "./memory";
+import { createFileUserStore } from "./file";
+import type { UserStore } from "./types";
+
+export { createMemoryUserStore } from "./memory";
+export { createFileUserStore } from "./file";
+export type * from "./types";
+
+// One store per process, shared across route bundles like the LLM cache
+const globalForUsers = globalThis as unknown as { vibescrollUserStore?: UserStore };
+
+// USER_STORE=memory keeps accounts in process (lost on restart);
+// the default writes JSON files under USER_STORE_DIR (.data/users)
+function createConfiguredStore(): UserStore {
+  if (process.env.USER_STORE?.toLowerCase() === "memory") return createMemoryUserStore();
+  return createFileUserStore(process.env.USER_STORE_DIR || path.join(process.cwd(), ".data", "users"));
+}
+
+export function getUserStore(): UserStore {
+  if (!globalForUsers.vibescrollUserStore) {
+    globalForUsers.vibescrollUserStore = createConfiguredStore();
+  }
+  return globalForUsers.vibescrollUserStore;
+}
+
+// Swap the shared store (tests, custom setups)
+export function setUserStore(store: UserStore | undefined) {
+  globalForUsers.vibescrollUserStore = store;
+}
@@ -0,0 +1,34 @@
+import { randomUUID } from "crypto";
+import type { StoredSyncData, UserRecord, UserStore } from "./types";
+
+// In-process store - for tests and throwaway dev servers
+export function createMemoryUserStore(now: () => number = Date.now): UserStore {
+  const users = new Map<string, UserRecord>();
+  const syncData = new Map<string, StoredSyncData>();
+
+  return {
+    async findByEmail(email) {
+      return users.get(email);
+    },
+
+    async createUser(email, passwordHash) {
+      const existing = users.get(email);
+      if (existing) return existing;
+      const user = { id: randomUUID(), email, passwordHash, createdAt: now() };
+      users.set(email, user);
+      return user;
+    },
+
+    async getSyncData(userId) {
+      return syncData.get(userId);
+    },
+
+    async saveSyncData(userId, data, expectedRevision) {
+      const revision = syncData.get(userId)?.revision ?? 0;
+      if (revision !== expectedRevision) return null;
+      const stored = { data, updatedAt: now(), revision: revision + 1 };
+      syncData.set(userId, stored);
+      return stored;
+    },
+  };
+}
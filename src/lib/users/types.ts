@@ -0,0 +1,27 @@
+import type { SyncData } from "@/lib/sync";
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  // scrypt "salt:hash", see lib/auth
+  passwordHash: string;
+  createdAt: number;
+}
+
+export interface StoredSyncData {
+  data: SyncData;
+  updatedAt: number;
+  // Bumped on every save; 0 (or missing, in older records) before the first
+  revision: number;
+}
+
+export interface UserStore {
+  findByEmail(email: string): Promise<UserRecord | undefined>;
+  // Creates the account unless one exists for the email, in which case that one
+  // is returned untouched - two first sign-ins at once can't overwrite each other
+  createUser(email: string, passwordHash: string): Promise<UserRecord>;
+  getSyncData(userId: string): Promise<StoredSyncData | undefined>;
+  // Compare-and-swap: saves only if the stored revision is still expectedRevision,
+  // otherwise returns null so the caller can re-read and merge again
+  saveSyncData(userId: string, data: SyncData, expectedRevision: number): Promise<StoredSyncData | null>;
+}
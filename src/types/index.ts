@@ -17,23 +17,143 @@ export interface Topic {
   category: TopicCategory;
   highlights: TopicHighlight[];
   expansion?: TopicExpansion;
+  // Every outlet that covered this story, the card's own first (set when
+  // near-duplicate articles were merged into this card)
+  sources?: TopicSource[];
+  // Perspectives card: the story told once (summary and content synthesise
+  // every source) plus how each outlet framed it
+  perspectives?: TopicPerspective[];
+}
+
+export interface TopicSource {
+  name: string;
+  url: string;
+  title?: string;
+}
+
+export interface TopicPerspective {
+  source: string;
+  url: string;
+  framing: string;
 }
 
 export interface TopicExpansion {
   fullContent: string;
   additionalContext: string;
   relatedTopics: string[];
+  // Sources behind the [n] markers in fullContent
+  citations?: Citation[];
+}
+
+// A search result generated text cites with an inline [id] marker
+export interface Citation {
+  id: number;
+  title: string;
+  url: string;
+  source: string;
+  date?: string;
+}
+
+export interface ResearchFinding {
+  question: string;
+  answer: string;
+  sources: number[];
+}
+
+export interface TimelineEvent {
+  date: string;
+  event: string;
+  sources: number[];
+}
+
+export interface Viewpoint {
+  position: string;
+  argument: string;
+  sources: number[];
+}
+
+// Deep research (detail depth): sub-questions searched separately, then synthesised
+export interface ResearchReport {
+  synthesis: string;
+  findings: ResearchFinding[];
+  timeline: TimelineEvent[];
+  viewpoints: Viewpoint[];
+  sources: Citation[];
 }
 
+// A concept (or question about one) explored from a topic
+export interface ExploredConcept {
+  concept: string;
+  question?: string;
+  // Concepts explored on the way here, outermost first
+  path?: string[];
+  content: string;
+}
+
+// One question and its answer in a topic's Q&A thread
+export interface QATurn {
+  question: string;
+  // Text the question was about, if any
+  selectedText?: string;
+  answer: string;
+  citations: Citation[];
+  askedAt: number;
+}
+
+// Library entry: a full topic snapshot, including its deep dive (topic.expansion)
+export interface SavedTopic {
+  topic: Topic;
+  concepts: ExploredConcept[];
+  thread?: QATurn[];
+  savedAt: number;
+  archived: boolean;
+}
+
+// Personal concept graph: topics read and concepts explored from them
+export interface GraphNode {
+  id: string;
+  kind: "topic" | "concept";
+  label: string;
+  category?: TopicCategory;
+  // Topic nodes: where to jump back to
+  topicId?: string;
+  sourceUrl?: string;
+  // Concept nodes: topics it was explored in (co-occurrence)
+  topicIds?: string[];
+  visits: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+// "highlight": a topic's highlighted term was clicked; "explored": reached by
+// selecting or clicking text in a topic or in another concept's explanation
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: "highlight" | "explored";
+  weight: number;
+  lastSeen: number;
+}
+
+export interface ConceptGraph {
+  nodes: Record<string, GraphNode>;
+  edges: Record<string, GraphEdge>;
+}
+
+// Labels, colours and search queries live in src/lib/categories.ts
 export type TopicCategory = 
   | "news"
   | "tech"
   | "science"
+  | "space"
   | "finance"
-  | "culture"
+  | "business"
   | "politics"
   | "health"
+  | "environment"
   | "sports"
+  | "entertainment"
+  | "culture"
   | "general";
 
 export type SwipeDirection = "up" | "down" | "left" | "right";
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
+import {
+  DEFAULT_MODEL,
+  buildRequest,
+  classifyAIError,
+  complete,
+  completeJson,
+  getModel,
+  getTokenUsage,
+  resetTokenUsage,
+  streamText,
+} from "@/lib/ai";
+import { setClients } from "@/lib/clients";
+import { createOfflineAnthropic } from "@/lib/offline";
+import { researchPlanSchema } from "@/lib/structured";
+
+function useAnthropic(anthropic: Anthropic | null) {
+  setClients({ anthropic, valyu: null, offline: false });
+}
+
+// Calls fail with the given error; streams fail on the first read, like the SDK's
+function failingAnthropic(error: unknown): Anthropic {
+  const create = async () => {
+    throw error;
+  };
+  const stream = () => ({
+    async *[Symbol.asyncIterator]() {
+      throw error;
+    },
+    abort: () => {},
+  });
+  return { messages: { create, stream } } as unknown as Anthropic;
+}
+
+// Stream reporting usage the way the API does: input at the start, output at the end
+function streamingAnthropic(words: string[]): Anthropic {
+  const stream = () => {
+    async function* events() {
+      yield { type: "message_start", message: { usage: { input_tokens: 12, output_tokens: 1 } } };
+      for (const text of words) {
+        yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } };
+      }
+      yield { type: "message_delta", delta: {}, usage: { output_tokens: 7 } };
+    }
+    return { [Symbol.asyncIterator]: events, abort: () => {} } as unknown as MessageStream;
+  };
+  return { messages: { stream } } as unknown as Anthropic;
+}
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of chunks) text += chunk;
+  return text;
+}
+
+beforeEach(() => {
+  resetTokenUsage();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  setClients(null);
+});
+
+describe("Model configuration", () => {
+  it("should default to the built-in model", () => {
+    vi.stubEnv("ANTHROPIC_MODEL", "");
+    expect(getModel()).toBe(DEFAULT_MODEL);
+  });
+
+  it("should send every prompt to ANTHROPIC_MODEL when set", async () => {
+    vi.stubEnv("ANTHROPIC_MODEL", "claude-test-model");
+    const create = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+    useAnthropic({ messages: { create } } as unknown as Anthropic);
+
+    await complete("explain-highlight", { highlight: "surface codes", context: "" });
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: "claude-test-model" }), expect.anything());
+  });
+});
+
+describe("Prompt registry", () => {
+  it("should build a request with the prompt's token budget and system prompt", () => {
+    const request = buildRequest("explain", { concept: "butyrate", sources: [], path: [] });
+    expect(request.max_tokens).toBe(1000);
+    expect(request.system).toContain("expert educator");
+    expect(JSON.stringify(request.messages)).toContain('Explain the concept: \\"butyrate\\"');
+  });
+
+  it("should size batch requests by the number of articles", () => {
+    const article = { title: "A", url: "https://example.org/a", content: "Text", source: "Example" };
+    const request = buildRequest("processed-topic-batch", { articles: [article, article, article] });
+    expect(request.max_tokens).toBe(3072);
+    expect(request.system).toBeUndefined();
+  });
+});
+
+describe("Error handling", () => {
+  it("should classify API errors by status", () => {
+    expect(classifyAIError({ status: 401 })).toBe("auth");
+    expect(classifyAIError({ status: 429 })).toBe("rate_limit");
+    expect(classifyAIError({ status: 529 })).toBe("overloaded");
+    expect(classifyAIError({ status: 400 })).toBe("invalid_request");
+    expect(classifyAIError(new DOMException("stopped", "AbortError"))).toBe("aborted");
+    expect(classifyAIError(new Error("socket hang up"))).toBe("unknown");
+  });
+
+  it("should return nothing from a failed call and count it", async () => {
+    useAnthropic(failingAnthropic(Object.assign(new Error("Too many requests"), { status: 429 })));
+
+    expect(await complete("expand", { title: "T", content: "C", sources: [] })).toBe("");
+    expect(await completeJson("research-plan", { title: "T", content: "C" }, researchPlanSchema)).toBeNull();
+
+    const { prompts } = getTokenUsage();
+    expect(prompts.expand).toMatchObject({ calls: 1, errors: { rate_limit: 1 }, lastError: "Too many requests" });
+    expect(prompts["research-plan"].errors.rate_limit).toBe(1);
+  });
+
+  it("should rethrow stream failures so a cut-off stream isn't cached", async () => {
+    useAnthropic(failingAnthropic(new Error("Anthropic is down")));
+
+    await expect(collect(streamText("ask", { question: "Why?", sources: [], history: [] }))).rejects.toThrow(
+      "Anthropic is down"
+    );
+    expect(getTokenUsage().prompts.ask.errors.unknown).toBe(1);
+  });
+
+  it("should skip the call without a client", async () => {
+    useAnthropic(null);
+    expect(await complete("expand", { title: "T", content: "C", sources: [] })).toBe("");
+    expect(getTokenUsage().prompts).toEqual({});
+  });
+});
+
+describe("Token accounting", () => {
+  it("should add up usage per prompt", async () => {
+    useAnthropic(createOfflineAnthropic({ streamDelayMs: 0 }));
+
+    await complete("explain-highlight", { highlight: "surface codes", context: "" });
+    await complete("explain-highlight", { highlight: "qubits", context: "" });
+
+    const usage = getTokenUsage();
+    expect(usage.prompts["explain-highlight"].calls).toBe(2);
+    expect(usage.prompts["explain-highlight"].inputTokens).toBeGreaterThan(0);
+    expect(usage.outputTokens).toBe(usage.prompts["explain-highlight"].outputTokens);
+  });
+
+  it("should count structured calls, repair retries included", async () => {
+    const replies = ["not json", JSON.stringify({ subQuestions: ["What happened?", "Why?"] })];
+    const create = vi.fn(async () => ({
+      content: [{ type: "text", text: replies.shift() }],
+      usage: { input_tokens: 100, output_tokens: 20 },
+    }));
+    useAnthropic({ messages: { create } } as unknown as Anthropic);
+
+    const plan = await completeJson("research-plan", { title: "T", content: "C" }, researchPlanSchema);
+    expect(plan?.subQuestions).toEqual(["What happened?", "Why?"]);
+    expect(getTokenUsage().prompts["research-plan"]).toMatchObject({ calls: 1, inputTokens: 200, outputTokens: 40 });
+  });
+
+  it("should read usage from stream start and end events", async () => {
+    useAnthropic(streamingAnthropic(["Because ", "of noise."]));
+
+    expect(await collect(streamText("ask", { question: "Why?", sources: [], history: [] }))).toBe("Because of noise.");
+    expect(getTokenUsage().prompts.ask).toMatchObject({ inputTokens: 12, outputTokens: 7 });
+  });
+});
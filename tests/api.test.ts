@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import { CATEGORY_IDS } from "@/lib/categories";
 
 // Test API response structures
 describe("API Response Structures", () => {
@@ -27,17 +28,7 @@ describe("API Response Structures", () => {
   });
 
   it("should validate category types", () => {
-    const validCategories = [
-      "news",
-      "tech",
-      "science",
-      "finance",
-      "culture",
-      "politics",
-      "health",
-      "sports",
-      "general",
-    ];
+    const validCategories: string[] = CATEGORY_IDS;
 
     const testCategory = "tech";
     expect(validCategories.includes(testCategory)).toBe(true);
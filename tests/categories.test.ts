@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  CATEGORIES,
+  CATEGORY_IDS,
+  INTEREST_TAGS,
+  SEARCHABLE_CATEGORIES,
+  coerceCategory,
+  categoriesForInterest,
+  getCategory,
+} from "@/lib/categories";
+
+describe("Category registry", () => {
+  it("should give every category a label and colour", () => {
+    for (const category of CATEGORIES) {
+      expect(category.label).toBeTruthy();
+      expect(category.color).toMatch(/^text-/);
+    }
+  });
+
+  it("should include the categories search used to invent", () => {
+    for (const id of ["space", "environment", "business", "entertainment"]) {
+      expect(CATEGORY_IDS).toContain(id);
+      expect(SEARCHABLE_CATEGORIES.map((c) => c.id)).toContain(id);
+    }
+  });
+
+  it("should map every interest tag to at least one category", () => {
+    for (const tag of INTEREST_TAGS) {
+      expect(categoriesForInterest(tag).length).toBeGreaterThan(0);
+    }
+    expect(categoriesForInterest("Space & Astronomy")).toEqual(["space"]);
+  });
+
+  it("should fall back to general for unknown ids", () => {
+    expect(getCategory("astrology").id).toBe("general");
+  });
+});
+
+describe("Coercing model output", () => {
+  it("should accept ids, labels and aliases in any case", () => {
+    expect(coerceCategory("space")).toBe("space");
+    expect(coerceCategory(" Entertainment ")).toBe("entertainment");
+    expect(coerceCategory("Astronomy")).toBe("space");
+    expect(coerceCategory("technology")).toBe("tech");
+  });
+
+  it("should fall back to the searched category, then general", () => {
+    expect(coerceCategory("astrology", "science")).toBe("science");
+    expect(coerceCategory(undefined, "personal")).toBe("general");
+    expect(coerceCategory(42)).toBe("general");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { SearchResult } from "valyu-js";
+import {
+  toCitedSources,
+  toCitations,
+  formatSourcesForPrompt,
+  removeInvalidMarkers,
+  withCitations,
+  parseCitedText,
+} from "@/lib/citations";
+
+function result(url: string, title = url): SearchResult {
+  return {
+    title,
+    url,
+    content: `Text from ${title}`,
+    source: "Example News",
+    length: 10,
+    publication_date: "2026-03-01T12:00:00Z",
+  } as SearchResult;
+}
+
+describe("Cited sources", () => {
+  it("should number results from 1, dropping repeated URLs", () => {
+    const sources = toCitedSources([result("https://a.org"), result("https://a.org", "again"), result("https://b.org")]);
+
+    expect(sources.map((s) => [s.id, s.url])).toEqual([
+      [1, "https://a.org"],
+      [2, "https://b.org"],
+    ]);
+    expect(sources[0].date).toBe("2026-03-01");
+  });
+
+  it("should stop at the maximum and trim the content", () => {
+    const results = ["a", "b", "c"].map((x) => result(`https://${x}.org`));
+    const sources = toCitedSources(results, { max: 2, contentLength: 4 });
+
+    expect(sources).toHaveLength(2);
+    expect(sources[0].content).toBe("Text");
+  });
+
+  it("should format numbered sources for the prompt and strip content for the client", () => {
+    const sources = toCitedSources([result("https://a.org", "Chips")]);
+
+    expect(formatSourcesForPrompt(sources)).toBe("[1] Chips (Example News, 2026-03-01)\nText from Chips");
+    expect(toCitations(sources)[0]).not.toHaveProperty("content");
+  });
+});
+
+describe("Citation markers", () => {
+  const citations = toCitations(toCitedSources([result("https://a.org"), result("https://b.org")]));
+
+  it("should drop markers that point at no source", () => {
+    expect(removeInvalidMarkers("Costs fell [1][7]. Demand rose [3].", citations)).toBe("Costs fell [1]. Demand rose.");
+  });
+
+  it("should round-trip citations through the text preamble", () => {
+    const raw = withCitations("Costs fell [2].", citations);
+
+    expect(parseCitedText(raw)).toEqual({ text: "Costs fell [2].", citations });
+  });
+
+  it("should treat text without a preamble as uncited", () => {
+    expect(parseCitedText("Plain text")).toEqual({ text: "Plain text", citations: [] });
+    expect(withCitations("Plain text", [])).toBe("Plain text");
+  });
+
+  it("should show nothing while the preamble is still streaming", () => {
+    const raw = withCitations("Costs fell [2].", citations);
+
+    expect(parseCitedText(raw.slice(0, 20))).toEqual({ text: "", citations: [] });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  emptyGraph,
+  recordExploration,
+  pruneGraph,
+  coOccurrences,
+  recentSubgraph,
+  layoutGraph,
+  topicNodeId,
+  conceptNodeId,
+  type Exploration,
+} from "@/lib/conceptGraph";
+import type { ConceptGraph } from "@/types";
+
+type GraphTopic = Exploration["topic"];
+
+const quantum: GraphTopic = { id: "t1", title: "Quantum chips pass a threshold", category: "tech", sourceUrl: "https://a.org" };
+const materials: GraphTopic = { id: "t2", title: "New superconductors", category: "science", sourceUrl: "https://b.org" };
+
+function explore(graph: ConceptGraph, ...steps: [GraphTopic, string, string?][]) {
+  return steps.reduce(
+    (g, [topic, concept, parent], i) => recordExploration(g, { topic, concept, parent, via: "explored" }, 1000 + i),
+    graph
+  );
+}
+
+describe("Concept graph", () => {
+  it("should link a topic to the concepts explored from it", () => {
+    const graph = recordExploration(emptyGraph(), { topic: quantum, concept: "Surface codes", via: "highlight" }, 1);
+
+    expect(graph.nodes[topicNodeId("t1")]).toMatchObject({ kind: "topic", label: quantum.title, category: "tech" });
+    expect(graph.nodes[conceptNodeId("surface codes")]).toMatchObject({ kind: "concept", visits: 1, topicIds: ["t1"] });
+    expect(Object.values(graph.edges)).toEqual([
+      { from: "topic:t1", to: "concept:surface codes", kind: "highlight", weight: 1, lastSeen: 1 },
+    ]);
+  });
+
+  it("should link a nested exploration to the concept it came from", () => {
+    const graph = explore(emptyGraph(), [quantum, "Surface codes"], [quantum, "Logical qubit", "Surface codes"]);
+    const edge = Object.values(graph.edges).find((e) => e.to === conceptNodeId("logical qubit"));
+
+    expect(edge?.from).toBe(conceptNodeId("surface codes"));
+  });
+
+  it("should count repeat visits on one node and edge, whatever the casing", () => {
+    const graph = explore(emptyGraph(), [quantum, "Surface codes"], [quantum, "surface  CODES"]);
+
+    expect(graph.nodes[conceptNodeId("Surface codes")]).toMatchObject({ label: "Surface codes", visits: 2 });
+    expect(Object.values(graph.edges)).toHaveLength(1);
+    expect(Object.values(graph.edges)[0].weight).toBe(2);
+  });
+
+  it("should find concepts explored together across topics", () => {
+    const graph = explore(
+      emptyGraph(),
+      [quantum, "Cooling"],
+      [quantum, "Qubits"],
+      [materials, "Cooling"],
+      [materials, "Qubits"],
+      [materials, "Cuprates"]
+    );
+
+    expect(coOccurrences(graph)).toEqual([
+      { from: conceptNodeId("cooling"), to: conceptNodeId("qubits"), shared: 2 },
+    ]);
+  });
+
+  it("should drop the least recently visited nodes and their edges", () => {
+    const graph = explore(emptyGraph(), [quantum, "Old"], [materials, "New"]);
+    const pruned = pruneGraph(graph, 2);
+
+    expect(Object.keys(pruned.nodes).sort()).toEqual(["concept:new", "topic:t2"]);
+    expect(Object.values(pruned.edges).map((e) => e.to)).toEqual(["concept:new"]);
+  });
+
+  it("should draw only the most recent nodes", () => {
+    const graph = explore(emptyGraph(), [quantum, "Old"], [materials, "New"]);
+    const view = recentSubgraph(graph, 2);
+
+    expect(view.nodes.map((n) => n.id)).toEqual(["topic:t2", "concept:new"]);
+    expect(view.edges).toHaveLength(1);
+  });
+});
+
+describe("Graph layout", () => {
+  it("should be deterministic and keep nodes inside the canvas", () => {
+    const ids = ["topic:t1", "concept:a", "concept:b", "concept:c"];
+    const links = [
+      { from: "topic:t1", to: "concept:a" },
+      { from: "concept:a", to: "concept:b" },
+    ];
+    const first = layoutGraph(ids, links, { width: 400, height: 300 });
+
+    expect(layoutGraph(ids, links, { width: 400, height: 300 })).toEqual(first);
+    Object.values(first).forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(40);
+      expect(x).toBeLessThanOrEqual(360);
+      expect(y).toBeGreaterThanOrEqual(30);
+      expect(y).toBeLessThanOrEqual(270);
+    });
+  });
+
+  it("should pull linked nodes closer than unlinked ones", () => {
+    const ids = ["a", "b", "c", "d", "e"];
+    const positions = layoutGraph(ids, [{ from: "a", to: "b" }]);
+    const distance = (p: string, q: string) =>
+      Math.hypot(positions[p].x - positions[q].x, positions[p].y - positions[q].y);
+
+    const unlinked = ["c", "d", "e"].map((id) => distance("a", id));
+    expect(distance("a", "b")).toBeLessThan(Math.min(...unlinked));
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  conceptCacheKey,
+  stepTitle,
+  isOnTop,
+  pushStep,
+  updateStep,
+  truncateTrail,
+  pathTo,
+  type ConceptStep,
+} from "@/lib/conceptTrail";
+
+const step = (id: number, concept: string, extra: Partial<ConceptStep> = {}): ConceptStep => ({
+  id,
+  concept,
+  content: null,
+  status: "loading",
+  ...extra,
+});
+
+const trail = [step(1, "Quantum computing"), step(2, "Surface codes"), step(3, "Error threshold")];
+
+describe("Concept trail", () => {
+  it("should push a deeper level but not repeat the current one", () => {
+    const deeper = pushStep(trail, step(4, "Logical qubit"));
+    expect(deeper.map((s) => s.id)).toEqual([1, 2, 3, 4]);
+    expect(pushStep(trail, step(5, "  error THRESHOLD "))).toBe(trail);
+  });
+
+  it("should recognise the innermost level so it isn't fetched again", () => {
+    expect(isOnTop(trail, "Error threshold")).toBe(true);
+    expect(isOnTop(trail, "Error threshold", "Why does it matter?")).toBe(false);
+    expect(isOnTop(trail, "Surface code")).toBe(false);
+    expect(isOnTop([], "Error threshold")).toBe(false);
+  });
+
+  it("should update only the step a stream belongs to", () => {
+    const updated = updateStep(trail, 2, { content: "Codes...", status: "streaming" });
+    expect(updated[1]).toMatchObject({ content: "Codes...", status: "streaming" });
+    expect(updated[0]).toBe(trail[0]);
+    // A level that was popped is ignored
+    expect(updateStep(trail, 99, { content: "late" })).toBe(trail);
+  });
+
+  it("should truncate to a breadcrumb and report what was dropped", () => {
+    const { trail: kept, removed } = truncateTrail(trail, 0);
+    expect(kept.map((s) => s.concept)).toEqual(["Quantum computing"]);
+    expect(removed.map((s) => s.id)).toEqual([2, 3]);
+    // Popping the last level closes the explorer
+    expect(truncateTrail([trail[0]], -1).trail).toEqual([]);
+  });
+
+  it("should give the path above a step, or the whole trail for a new one", () => {
+    expect(pathTo(trail, 3)).toEqual(["Quantum computing", "Surface codes"]);
+    expect(pathTo(trail, 4)).toEqual(["Quantum computing", "Surface codes", "Error threshold"]);
+    expect(pathTo([], 1)).toEqual([]);
+  });
+
+  it("should key and title questions separately from the concept", () => {
+    expect(conceptCacheKey(" Qubits ")).toBe("qubits");
+    expect(conceptCacheKey("Qubits", "Why?")).toBe("qubits::why?");
+    expect(conceptCacheKey("Qubits", undefined, ["Quantum computing"])).toBe("quantum computing → qubits");
+    expect(conceptCacheKey("Qubits", "Why?", ["Quantum computing"])).toBe("quantum computing → qubits::why?");
+    expect(stepTitle(step(1, "Qubits", { question: "Why?" }))).toBe("Qubits\n\n❓ Why?");
+  });
+});
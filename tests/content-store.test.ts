@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  createMemoryContentStore,
+  selectEvictions,
+  contentId,
+  conceptKey,
+  expansionKey,
+  type ContentRecord,
+} from "@/lib/contentStore";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function record(key: string, createdAt: number, accessedAt = createdAt): ContentRecord {
+  return { key, kind: "expansion", value: key, createdAt, accessedAt };
+}
+
+describe("Content store eviction", () => {
+  it("should drop expired records, then the least recently used", () => {
+    const records = [
+      record("old", 0),
+      record("a", 5 * DAY, 5 * DAY),
+      record("b", 5 * DAY, 9 * DAY),
+      record("c", 6 * DAY, 7 * DAY),
+    ];
+    const evicted = selectEvictions(records, { maxEntries: 2, maxAgeMs: 7 * DAY }, 10 * DAY);
+    expect(evicted).toEqual(["old", "a"]);
+  });
+
+  it("should keep everything under the limits", () => {
+    const records = [record("a", 1), record("b", 2)];
+    expect(selectEvictions(records, { maxEntries: 5, maxAgeMs: DAY }, 3)).toEqual([]);
+  });
+});
+
+describe("Memory content store", () => {
+  it("should store expansions and concepts separately", async () => {
+    const store = createMemoryContentStore({ maxEntries: 10, maxAgeMs: DAY });
+    await store.put("expansion", expansionKey("topic-1"), "Deep dive");
+    await store.put("concept", conceptKey("qubits"), "Quantum bits");
+
+    const expansions = await store.getAll("expansion");
+    expect(expansions.map(contentId)).toEqual(["topic-1"]);
+    expect((await store.getAll("concept")).map(contentId)).toEqual(["qubits"]);
+    expect((await store.get(expansionKey("topic-1")))?.value).toBe("Deep dive");
+  });
+
+  it("should evict the least recently read record when full", async () => {
+    let time = 0;
+    const store = createMemoryContentStore({ maxEntries: 2, maxAgeMs: DAY }, () => ++time);
+    await store.put("expansion", "expansion:a", "A");
+    await store.put("expansion", "expansion:b", "B");
+    await store.get("expansion:a"); // a is now more recent than b
+    await store.put("expansion", "expansion:c", "C");
+
+    expect(await store.get("expansion:b")).toBeUndefined();
+    expect((await store.get("expansion:a"))?.value).toBe("A");
+    expect((await store.get("expansion:c"))?.value).toBe("C");
+  });
+
+  it("should not return expired records", async () => {
+    let time = 0;
+    const store = createMemoryContentStore({ maxEntries: 10, maxAgeMs: 100 }, () => time);
+    await store.put("concept", "concept:x", "X");
+    time = 101;
+    expect(await store.get("concept:x")).toBeUndefined();
+    expect(await store.getAll("concept")).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_LOGGED_EVENTS,
+  READ_MS,
+  appendEvents,
+  engagementSignal,
+  summarizeVisit,
+  type EngagementEvent,
+  type VisitSummary,
+} from "@/lib/engagement";
+
+const T0 = Date.UTC(2026, 0, 1);
+
+function visit(overrides: Partial<VisitSummary> = {}): VisitSummary {
+  return { topicId: "t1", dwellMs: 5000, depth: "summary", explores: 0, questions: 0, ...overrides };
+}
+
+describe("Visit summaries", () => {
+  it("should add up one visit's events", () => {
+    const events: EngagementEvent[] = [
+      { kind: "view", topicId: "t1", at: T0 },
+      { kind: "depth", topicId: "t1", at: T0 + 3000, depth: "detail" },
+      { kind: "depth", topicId: "t1", at: T0 + 4000, depth: "expanded" },
+      { kind: "explore", topicId: "t1", at: T0 + 5000, concept: "surface codes" },
+      { kind: "question", topicId: "t1", at: T0 + 8000 },
+      { kind: "leave", topicId: "t1", at: T0 + 20000 },
+    ];
+
+    expect(summarizeVisit(events)).toEqual({ topicId: "t1", dwellMs: 20000, depth: "detail", explores: 1, questions: 1 });
+  });
+
+  it("should need a view to summarise", () => {
+    expect(summarizeVisit([{ kind: "leave", topicId: "t1", at: T0 }])).toBeNull();
+  });
+});
+
+describe("Engagement signal", () => {
+  it("should count a quick swipe past as a mild dislike", () => {
+    expect(engagementSignal(visit({ dwellMs: 800 }))).toBeLessThan(0);
+  });
+
+  it("should not count a quick swipe as a skip when the reader did something", () => {
+    expect(engagementSignal(visit({ dwellMs: 800, explores: 1 }))).toBeGreaterThan(0);
+  });
+
+  it("should stay neutral for a glance", () => {
+    expect(engagementSignal(visit())).toBe(0);
+  });
+
+  it("should grow with reading time, depth, explores and questions", () => {
+    const read = engagementSignal(visit({ dwellMs: READ_MS }));
+    const expanded = engagementSignal(visit({ dwellMs: READ_MS, depth: "expanded" }));
+    const explored = engagementSignal(visit({ dwellMs: READ_MS, depth: "expanded", explores: 2 }));
+
+    expect(read).toBeGreaterThan(0);
+    expect(expanded).toBeGreaterThan(read);
+    expect(explored).toBeGreaterThan(expanded);
+  });
+
+  it("should never count for more than a like", () => {
+    expect(engagementSignal(visit({ dwellMs: 600000, depth: "detail", explores: 10, questions: 10 }))).toBe(1);
+  });
+});
+
+describe("Event log", () => {
+  it("should keep only the newest events", () => {
+    const old = Array.from({ length: MAX_LOGGED_EVENTS }, (_, i): EngagementEvent => ({ kind: "view", topicId: `t${i}`, at: T0 + i }));
+    const log = appendEvents(old, [{ kind: "view", topicId: "new", at: T0 + MAX_LOGGED_EVENTS }]);
+
+    expect(log).toHaveLength(MAX_LOGGED_EVENTS);
+    expect(log[0].topicId).toBe("t1");
+    expect(log[log.length - 1].topicId).toBe("new");
+  });
+});
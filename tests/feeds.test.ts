@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { parseFeed, isAllowedFeedUrl } from "@/lib/providers";
+import { rssProvider, isPrivateAddress } from "@/lib/providers/rss";
+
+// Feed hosts resolve to a public address unless a test says otherwise
+const lookup = vi.hoisted(() => vi.fn());
+vi.mock("node:dns/promises", () => ({ lookup, default: { lookup } }));
+
+const RSS_SAMPLE = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Niche Science Blog</title>
+    <link>https://blog.example.com</link>
+    <item>
+      <title>Tardigrades &amp; Radiation</title>
+      <link>https://blog.example.com/tardigrades</link>
+      <description>&lt;p&gt;Short &lt;b&gt;summary&lt;/b&gt;&lt;/p&gt;</description>
+      <content:encoded><![CDATA[<p>Full <em>article</em> body about tardigrades.</p>]]></content:encoded>
+      <pubDate>Tue, 10 Jun 2025 09:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Older post</title>
+      <link>https://blog.example.com/older</link>
+      <description>Plain text description</description>
+      <pubDate>Mon, 02 Jun 2025 09:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_SAMPLE = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Journal Updates</title>
+  <link href="https://journal.example.org/" />
+  <entry>
+    <title type="html">New results on &lt;i&gt;dark matter&lt;/i&gt;</title>
+    <link rel="edit" href="https://journal.example.org/edit/1" />
+    <link rel="alternate" href="/articles/1" />
+    <updated>2025-06-11T12:00:00Z</updated>
+    <summary>A summary of the findings.</summary>
+  </entry>
+</feed>`;
+
+describe("Feed parsing", () => {
+  it("should parse RSS items, preferring content:encoded", () => {
+    const feed = parseFeed(RSS_SAMPLE);
+
+    expect(feed?.format).toBe("rss");
+    expect(feed?.title).toBe("Niche Science Blog");
+    expect(feed?.entries).toHaveLength(2);
+    expect(feed?.entries[0]).toEqual({
+      title: "Tardigrades & Radiation",
+      link: "https://blog.example.com/tardigrades",
+      content: "Full article body about tardigrades.",
+      published: "2025-06-10T09:00:00.000Z",
+    });
+    expect(feed?.entries[1].content).toBe("Plain text description");
+  });
+
+  it("should parse Atom entries and pick the alternate link", () => {
+    const feed = parseFeed(ATOM_SAMPLE);
+
+    expect(feed?.format).toBe("atom");
+    expect(feed?.title).toBe("Journal Updates");
+    expect(feed?.entries[0]).toEqual({
+      title: "New results on dark matter",
+      link: "/articles/1",
+      content: "A summary of the findings.",
+      published: "2025-06-11T12:00:00.000Z",
+    });
+  });
+
+  it("should return null for non-feed documents", () => {
+    expect(parseFeed("<html><body>Not a feed</body></html>")).toBeNull();
+  });
+});
+
+describe("RSS provider", () => {
+  beforeEach(() => {
+    lookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should reject non-public feed URLs", () => {
+    expect(isAllowedFeedUrl("https://blog.example.com/feed")).toBe(true);
+    expect(isAllowedFeedUrl("file:///etc/passwd")).toBe(false);
+    expect(isAllowedFeedUrl("http://localhost:3000/feed")).toBe(false);
+    expect(isAllowedFeedUrl("http://192.168.1.10/feed")).toBe(false);
+    expect(isAllowedFeedUrl("not a url")).toBe(false);
+    expect(isAllowedFeedUrl("http://[fd00::1]/feed")).toBe(false);
+    expect(isAllowedFeedUrl("http://[::ffff:127.0.0.1]/feed")).toBe(false);
+  });
+
+  it("should treat private, loopback and link-local addresses as non-public", () => {
+    const internal = ["127.0.0.1", "10.1.2.3", "169.254.169.254", "172.20.0.1", "100.64.0.1"];
+    for (const ip of [...internal, "::1", "fc00::1", "fe80::1", "::ffff:10.0.0.1"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+  });
+
+  it("should not fetch hosts that resolve to private addresses", async () => {
+    lookup.mockResolvedValue([{ address: "10.0.0.5", family: 4 }]);
+    const fetchMock = vi.fn(async () => new Response(ATOM_SAMPLE, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await rssProvider.fetch("", { feeds: ["https://intranet.example.org/feed"] })).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should check every redirect hop and refuse internal targets", async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(null, { status: 302, headers: { location: "http://169.254.169.254/latest/meta-data" } })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await rssProvider.fetch("", { feeds: ["https://journal.example.org/atom.xml"] })).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://journal.example.org/atom.xml",
+      expect.objectContaining({ redirect: "manual" })
+    );
+  });
+
+  it("should skip feeds larger than the size limit", async () => {
+    const huge = ATOM_SAMPLE + " ".repeat(3 * 1024 * 1024);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(huge, { status: 200 })));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await rssProvider.fetch("", { feeds: ["https://journal.example.org/atom.xml"] })).toEqual([]);
+  });
+
+  it("should drop only the entry with a malformed link", async () => {
+    const feed = RSS_SAMPLE.replace("https://blog.example.com/older", "http://[broken");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(feed, { status: 200 })));
+
+    const results = await rssProvider.fetch("", { feeds: ["https://blog.example.com/feed"] });
+    expect(results.map((r) => r.url)).toEqual(["https://blog.example.com/tardigrades"]);
+  });
+
+  it("should drop entries linking anywhere but http(s)", async () => {
+    for (const link of ["javascript:alert(1)", "data:text/html;base64,PHNjcmlwdD4=", "file:///etc/passwd"]) {
+      const feed = RSS_SAMPLE.replace("https://blog.example.com/older", link);
+      vi.stubGlobal("fetch", vi.fn(async () => new Response(feed, { status: 200 })));
+
+      const results = await rssProvider.fetch("", { feeds: ["https://blog.example.com/feed"] });
+      expect(results.map((r) => r.url)).toEqual(["https://blog.example.com/tardigrades"]);
+    }
+  });
+
+  it("should normalise entries into the shared result shape", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(ATOM_SAMPLE, { status: 200 })));
+
+    const results = await rssProvider.fetch("", { feeds: ["https://journal.example.org/atom.xml"] });
+
+    expect(results).toEqual([
+      {
+        title: "New results on dark matter",
+        url: "https://journal.example.org/articles/1",
+        content: "A summary of the findings.",
+        source: "Journal Updates",
+        publication_date: "2025-06-11T12:00:00.000Z",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  addExploredConcept,
+  removeSavedTopic,
+  searchLibrary,
+  setArchived,
+  upsertSavedTopic,
+} from "@/lib/library";
+import type { SavedTopic, Topic } from "@/types";
+
+function topic(id: string, overrides: Partial<Topic> = {}): Topic {
+  return {
+    id,
+    title: `Topic ${id}`,
+    summary: "A short summary",
+    content: "Some content",
+    source: "Example News",
+    sourceUrl: `https://example.org/${id}`,
+    timestamp: new Date("2026-01-01T00:00:00Z"),
+    category: "tech",
+    highlights: [],
+    ...overrides,
+  };
+}
+
+describe("Library", () => {
+  it("should save new topics first and keep savedAt/archived when re-saving", () => {
+    let items: SavedTopic[] = [];
+    items = upsertSavedTopic(items, { topic: topic("a"), concepts: [] }, 1);
+    items = upsertSavedTopic(items, { topic: topic("b"), concepts: [] }, 2);
+    expect(items.map((i) => i.topic.id)).toEqual(["b", "a"]);
+
+    items = setArchived(items, "a", true);
+    const expansion = { fullContent: "Deep dive", additionalContext: "", relatedTopics: [] };
+    items = upsertSavedTopic(items, { topic: topic("a", { expansion }), concepts: [] }, 3);
+
+    const a = items.find((i) => i.topic.id === "a")!;
+    expect(a.savedAt).toBe(1);
+    expect(a.archived).toBe(true);
+    expect(a.topic.expansion?.fullContent).toBe("Deep dive");
+  });
+
+  it("should not drop an earlier deep dive or concepts when re-saved without them", () => {
+    const expansion = { fullContent: "Deep dive", additionalContext: "", relatedTopics: [] };
+    const concepts = [{ concept: "Qubits", content: "Quantum bits" }];
+    let items = upsertSavedTopic([], { topic: topic("a", { expansion }), concepts }, 1);
+    items = upsertSavedTopic(items, { topic: topic("a"), concepts: [...concepts, { concept: "Gates", content: "Logic" }] }, 2);
+    expect(items[0].topic.expansion?.fullContent).toBe("Deep dive");
+    expect(items[0].concepts).toHaveLength(2);
+
+    items = upsertSavedTopic(items, { topic: topic("a", { expansion: { ...expansion, fullContent: "Longer" } }), concepts: [] }, 3);
+    expect(items[0].topic.expansion?.fullContent).toBe("Longer");
+    expect(items[0].concepts).toHaveLength(2);
+  });
+
+  it("should return the same list when nothing new is saved", () => {
+    const items = upsertSavedTopic([], { topic: topic("a"), concepts: [] }, 1);
+    expect(upsertSavedTopic(items, { topic: topic("a"), concepts: [] }, 2)).toBe(items);
+  });
+
+  it("should keep a question thread and update it when it grows", () => {
+    const turn = { question: "Why?", answer: "Because.", citations: [], askedAt: 1 };
+    let items = upsertSavedTopic([], { topic: topic("a"), concepts: [], thread: [turn] }, 1);
+    items = upsertSavedTopic(items, { topic: topic("a"), concepts: [] }, 2);
+    expect(items[0].thread).toEqual([turn]);
+
+    items = upsertSavedTopic(items, { topic: topic("a"), concepts: [], thread: [turn, { ...turn, askedAt: 2 }] }, 3);
+    expect(items[0].thread).toHaveLength(2);
+    expect(searchLibrary(items, "because")).toHaveLength(1);
+  });
+
+  it("should remove topics", () => {
+    const items = upsertSavedTopic([], { topic: topic("a"), concepts: [] }, 1);
+    expect(removeSavedTopic(items, "a")).toEqual([]);
+  });
+
+  it("should replace an explored concept with its latest answer", () => {
+    let list = addExploredConcept([], { concept: "Qubits", content: "v1" });
+    list = addExploredConcept(list, { concept: "qubits ", content: "v2" });
+    list = addExploredConcept(list, { concept: "Qubits", question: "Why cold?", content: "q" });
+    expect(list).toEqual([
+      { concept: "qubits ", content: "v2" },
+      { concept: "Qubits", question: "Why cold?", content: "q" },
+    ]);
+  });
+
+  it("should search titles, deep dives and explored concepts, newest first", () => {
+    let items: SavedTopic[] = [];
+    items = upsertSavedTopic(items, { topic: topic("a", { title: "Fusion breakthrough" }), concepts: [] }, 1);
+    items = upsertSavedTopic(items, {
+      topic: topic("b", { expansion: { fullContent: "Tokamak plasma records", additionalContext: "", relatedTopics: [] } }),
+      concepts: [],
+    }, 2);
+    items = upsertSavedTopic(items, {
+      topic: topic("c"),
+      concepts: [{ concept: "Stellarator", content: "A fusion reactor design" }],
+    }, 3);
+
+    expect(searchLibrary(items, "fusion").map((i) => i.topic.id)).toEqual(["c", "a"]);
+    expect(searchLibrary(items, "TOKAMAK plasma").map((i) => i.topic.id)).toEqual(["b"]);
+    expect(searchLibrary(items, "").map((i) => i.topic.id)).toEqual(["c", "b", "a"]);
+  });
+
+  it("should list archived topics separately", () => {
+    let items = upsertSavedTopic([], { topic: topic("a"), concepts: [] }, 1);
+    items = upsertSavedTopic(items, { topic: topic("b"), concepts: [] }, 2);
+    items = setArchived(items, "a", true);
+
+    expect(searchLibrary(items, "").map((i) => i.topic.id)).toEqual(["b"]);
+    expect(searchLibrary(items, "", { archived: true }).map((i) => i.topic.id)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  buildCacheKey,
+  createLLMCache,
+  createMemoryBackend,
+  createFileBackend,
+} from "@/lib/cache";
+
+describe("LLM cache keys", () => {
+  it("should normalise case and whitespace", () => {
+    expect(buildCacheKey({ route: "explore", concept: "  Gut-Brain   Axis " })).toBe(
+      buildCacheKey({ route: "explore", concept: "gut-brain axis" })
+    );
+  });
+
+  it("should separate routes and fields", () => {
+    const explore = buildCacheKey({ route: "explore", concept: "butyrate" });
+    expect(buildCacheKey({ route: "ask", concept: "butyrate" })).not.toBe(explore);
+    expect(buildCacheKey({ route: "explore", question: "butyrate" })).not.toBe(explore);
+  });
+});
+
+describe("LLM cache", () => {
+  it("should report a miss, then a hit, without recomputing", async () => {
+    const cache = createLLMCache({ backend: createMemoryBackend(10), ttlMs: 1000 });
+    const compute = vi.fn(async () => "answer");
+
+    expect(await cache.wrap({ route: "ask", question: "why?" }, compute)).toEqual({ value: "answer", cache: "miss" });
+    expect(await cache.wrap({ route: "ask", question: "Why?" }, compute)).toEqual({ value: "answer", cache: "hit" });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should expire entries after the TTL", async () => {
+    let now = 0;
+    const cache = createLLMCache({ backend: createMemoryBackend(10), ttlMs: 1000, now: () => now });
+    await cache.set({ route: "expand", topic: "t" }, "old");
+
+    now = 999;
+    expect(await cache.get({ route: "expand", topic: "t" })).toBe("old");
+    now = 1000;
+    expect(await cache.get({ route: "expand", topic: "t" })).toBeUndefined();
+  });
+
+  it("should not cache empty results", async () => {
+    const cache = createLLMCache({ backend: createMemoryBackend(10), ttlMs: 1000 });
+    await cache.wrap({ route: "ask", question: "q" }, async () => "");
+    expect(await cache.backend.size()).toBe(0);
+  });
+
+  it("should evict the least recently used entry past the size bound", async () => {
+    const cache = createLLMCache({ backend: createMemoryBackend(2), ttlMs: 1000 });
+    await cache.set({ route: "r", concept: "a" }, "A");
+    await cache.set({ route: "r", concept: "b" }, "B");
+    await cache.get({ route: "r", concept: "a" }); // a is now most recent
+    await cache.set({ route: "r", concept: "c" }, "C");
+
+    expect(await cache.get({ route: "r", concept: "a" })).toBe("A");
+    expect(await cache.get({ route: "r", concept: "b" })).toBeUndefined();
+    expect(await cache.get({ route: "r", concept: "c" })).toBe("C");
+  });
+});
+
+describe("File cache backend", () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("should persist entries across cache instances", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "vibescroll-cache-"));
+    const first = createLLMCache({ backend: createFileBackend(dir, 10), ttlMs: 60_000 });
+    await first.set({ route: "explore", concept: "qubits" }, "Qubits are...");
+
+    const second = createLLMCache({ backend: createFileBackend(dir, 10), ttlMs: 60_000 });
+    expect(await second.get({ route: "explore", concept: "QUBITS" })).toBe("Qubits are...");
+  });
+
+  it("should prune down to the size bound", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "vibescroll-cache-"));
+    const backend = createFileBackend(dir, 2);
+    const cache = createLLMCache({ backend, ttlMs: 60_000 });
+    for (const concept of ["a", "b", "c"]) {
+      await cache.set({ route: "r", concept }, concept);
+    }
+
+    expect(await backend.size()).toBe(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createLocalStore } from "@/lib/localStore";
+
+describe("Local store", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should give the server the fallback and the client the stored value", () => {
+    localStorage.setItem("test_store", JSON.stringify(["a"]));
+    const store = createLocalStore<string[]>("test_store", []);
+
+    expect(store.getServerSnapshot()).toEqual([]);
+    expect(store.getSnapshot()).toEqual(["a"]);
+    // Same stored string, same object - no needless re-renders
+    expect(store.getSnapshot()).toBe(store.getSnapshot());
+  });
+
+  it("should persist writes and notify subscribers", () => {
+    const store = createLocalStore<string[]>("test_store", []);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.set(["b"]);
+    expect(JSON.parse(localStorage.getItem("test_store")!)).toEqual(["b"]);
+    expect(store.getSnapshot()).toEqual(["b"]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.set([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back on corrupt entries", () => {
+    localStorage.setItem("test_store", "{not json");
+    expect(createLocalStore<string[]>("test_store", []).getSnapshot()).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkdown, parseInline, isExploreTerm, safeHref } from "@/lib/markdown";
+
+describe("Markdown blocks", () => {
+  it("should split headings, paragraphs, lists and quotes", () => {
+    const blocks = parseMarkdown(
+      "# Surface codes\n\nA **logical qubit** is spread out.\n\n- first\n- second\n\n1. one\n2. two\n\n> quoted\n\n---"
+    );
+
+    expect(blocks.map((b) => b.type)).toEqual(["heading", "paragraph", "list", "list", "quote", "rule"]);
+    expect(blocks[0]).toEqual({ type: "heading", level: 1, children: [{ type: "text", text: "Surface codes" }] });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: "first" }], [{ text: "second" }]] });
+    expect(blocks[3]).toMatchObject({ ordered: true });
+  });
+
+  it("should treat • bullets as a list and fold indented lines into the item", () => {
+    const [list] = parseMarkdown("• **Syndrome measurement**: detecting errors\n  without collapse\n• Thresholds");
+
+    expect(list).toMatchObject({ type: "list", ordered: false });
+    expect(list.type === "list" && list.items).toHaveLength(2);
+    expect(list.type === "list" && list.items[0][1]).toEqual({
+      type: "text",
+      text: ": detecting errors without collapse",
+    });
+  });
+
+  it("should keep single line breaks inside a paragraph", () => {
+    expect(parseMarkdown("line one\nline two")).toEqual([
+      { type: "paragraph", children: [{ type: "text", text: "line one\nline two" }] },
+    ]);
+  });
+});
+
+describe("Markdown inline", () => {
+  it("should parse bold, italic and code", () => {
+    expect(parseInline("**bold** and *em* and `code`")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " and " },
+      { type: "em", children: [{ type: "text", text: "em" }] },
+      { type: "text", text: " and " },
+      { type: "code", text: "code" },
+    ]);
+  });
+
+  it("should leave unclosed markers from a partial stream as text", () => {
+    expect(parseInline("A **logical qu")).toEqual([{ type: "text", text: "A **logical qu" }]);
+  });
+
+  it("should not treat snake_case or citation markers as markup", () => {
+    expect(parseInline("max_num_results [1]")).toEqual([{ type: "text", text: "max_num_results [1]" }]);
+  });
+
+  it("should keep web links and drop unsafe ones to their label", () => {
+    expect(parseInline("[paper](https://example.org)")).toEqual([
+      { type: "link", href: "https://example.org", children: [{ type: "text", text: "paper" }] },
+    ]);
+    expect(parseInline("[click](javascript:void)")).toEqual([{ type: "text", text: "click" }]);
+    expect(safeHref("data:text/html,x")).toBeNull();
+  });
+
+  it("should keep raw HTML as plain text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+      { type: "text", text: "<img src=x onerror=alert(1)>" },
+    ]);
+  });
+});
+
+describe("Explore terms", () => {
+  it("should accept short key terms and skip labels", () => {
+    expect(isExploreTerm("no-cloning theorem")).toBe(true);
+    expect(isExploreTerm("Why it matters:")).toBe(false);
+    expect(isExploreTerm("This whole sentence was bolded by the model for emphasis")).toBe(false);
+  });
+});
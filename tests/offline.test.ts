@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createOfflineAnthropic, createOfflineValyu, FIXTURE_ARTICLES } from "@/lib/offline";
+import { getClients, setClients } from "@/lib/clients";
+import { parseStructured, processedTopicSchema, processedTopicBatchSchema, aiThoughtsSchema } from "@/lib/structured";
+import { textDeltas } from "@/lib/streaming";
+
+const anthropic = createOfflineAnthropic({ streamDelayMs: 0 });
+
+async function complete(prompt: string): Promise<string> {
+  const response = await anthropic.messages.create({
+    model: "test-model",
+    max_tokens: 100,
+    messages: [{ role: "user", content: prompt }],
+  });
+  const block = response.content[0];
+  return block.type === "text" ? block.text : "";
+}
+
+const article = FIXTURE_ARTICLES[0];
+
+describe("Offline Valyu", () => {
+  const valyu = createOfflineValyu();
+
+  it("should rank matching fixtures first", async () => {
+    const response = await valyu.search("quantum computing qubits");
+    expect(response.results[0].url).toBe(article.url);
+  });
+
+  it("should be deterministic and respect maxNumResults", async () => {
+    const first = await valyu.search("space exploration", { maxNumResults: 3 });
+    const second = await valyu.search("space exploration", { maxNumResults: 3 });
+
+    expect(first.results).toHaveLength(3);
+    expect(first.results.map((r) => r.url)).toEqual(second.results.map((r) => r.url));
+  });
+
+  it("should return results even when nothing matches", async () => {
+    const response = await valyu.search("zzzz qqqq");
+    expect(response.results.length).toBeGreaterThan(0);
+  });
+});
+
+describe("Offline Anthropic", () => {
+  it("should turn an article prompt into a valid processed topic", async () => {
+    const text = await complete(`Analyze this article and provide a JSON response:
+
+Title: ${article.title}
+Content: ${article.content}
+Found while searching the "science" category.
+
+Return ONLY valid JSON:`);
+
+    const result = parseStructured(text, processedTopicSchema);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe(article.title);
+    expect(result.value.category).toBe("science");
+    expect(result.value.highlights.length).toBeGreaterThan(0);
+    // Highlights must be clickable phrases from the rewritten content
+    result.value.highlights.forEach((h) => expect(result.value.content).toContain(h.text));
+  });
+
+  it("should answer batch prompts with one entry per article", async () => {
+    const [a, b] = FIXTURE_ARTICLES;
+    const text = await complete(`Analyze each of these 2 articles.
+
+Article 1
+Title: ${a.title}
+Content: ${a.content}
+
+---
+Article 2
+Title: ${b.title}
+Content: ${b.content}
+
+Return ONLY a valid JSON array with one object per article:`);
+
+    const result = parseStructured(text, processedTopicBatchSchema);
+    expect(result.ok && result.value.map((t) => [t.article, t.title])).toEqual([
+      [1, a.title],
+      [2, b.title],
+    ]);
+  });
+
+  it("should generate the requested number of AI thoughts", async () => {
+    const result = parseStructured(await complete("Generate 2 pieces of content."), aiThoughtsSchema);
+    expect(result.ok && result.value).toHaveLength(2);
+  });
+
+  it("should explain concepts using the prompt's context", async () => {
+    const text = await complete(`Explain the concept: "Surface Codes"
+
+This appeared in the context of: ${article.content}`);
+
+    expect(text).toContain("**Surface Codes**");
+    expect(text).toContain("below-threshold operation");
+    expect(await complete(`Explain the concept: "Surface Codes"
+
+This appeared in the context of: ${article.content}`)).toBe(text);
+  });
+
+  it("should stream the same text it returns from create", async () => {
+    const prompt = `Answer this question based on the provided context.
+
+Question: Why do surface codes matter?`;
+    const stream = anthropic.messages.stream({
+      model: "test-model",
+      max_tokens: 100,
+      messages: [{ role: "user", content: prompt }],
+    });
+
+    let streamed = "";
+    for await (const chunk of textDeltas(stream)) streamed += chunk;
+
+    expect(streamed).toBe(await complete(prompt));
+  });
+});
+
+describe("Client selection", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setClients(null);
+  });
+
+  it("should use the offline fakes when VIBESCROLL_OFFLINE is set", () => {
+    vi.stubEnv("VIBESCROLL_OFFLINE", "true");
+    setClients(null);
+
+    const clients = getClients();
+    expect(clients.offline).toBe(true);
+    expect(clients.anthropic).not.toBeNull();
+    expect(clients.valyu).not.toBeNull();
+  });
+
+  it("should have no clients without keys or offline mode", () => {
+    vi.stubEnv("VIBESCROLL_OFFLINE", "");
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+    vi.stubEnv("VALYU_API_KEY", "");
+    setClients(null);
+
+    expect(getClients()).toEqual({ anthropic: null, valyu: null, offline: false });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  profileTerms,
+  pickWeightedCategories,
+  rerankByProfile,
+  withoutHiddenSources,
+} from "@/lib/personalization";
+import type { ValyuResult } from "@/lib/providers";
+
+const CATEGORIES = ["science", "tech", "finance", "sports", "culture", "health"].map((id) => ({ id }));
+
+function result(title: string, content = "", url = `https://example.com/${encodeURIComponent(title)}`): ValyuResult {
+  return { title, url, content, source: "Test" };
+}
+
+describe("Category selection", () => {
+  it("should always include categories boosted by interest tags", () => {
+    const picked = pickWeightedCategories(CATEGORIES, {
+      count: 3,
+      boosted: new Set(["sports", "health"]),
+    });
+
+    expect(picked.map((c) => c.id).slice(0, 2)).toEqual(["sports", "health"]);
+    expect(picked).toHaveLength(3);
+  });
+
+  it("should favour liked categories when filling remaining slots", () => {
+    const first = (roll: number) =>
+      pickWeightedCategories(CATEGORIES, { count: 1, preferred: ["finance"], random: () => roll })[0].id;
+
+    // Weight 3 vs 1 for five others: finance takes rolls 2/8 to 5/8 (vs 2/6 to 3/6 unweighted)
+    expect(first(0.2)).toBe("tech");
+    expect(first(0.3)).toBe("finance");
+    expect(first(0.6)).toBe("finance");
+    expect(first(0.65)).toBe("sports");
+  });
+
+  it("should rarely pick categories the reader isn't interested in", () => {
+    const first = (roll: number) =>
+      pickWeightedCategories(CATEGORIES, { count: 1, avoided: ["sports"], random: () => roll })[0].id;
+
+    // Weight 0.2 vs 1 for five others: sports only takes rolls 3/5.2 to 3.2/5.2 (vs 3/6 to 4/6 unweighted)
+    expect(first(0.55)).toBe("finance");
+    expect(first(0.6)).toBe("sports");
+    expect(first(0.63)).toBe("culture");
+    expect(first(0.99)).toBe("health");
+  });
+
+  it("should still include avoided categories the reader tagged as interests", () => {
+    const picked = pickWeightedCategories(CATEGORIES, { count: 1, boosted: new Set(["sports"]), avoided: ["sports"] });
+    expect(picked.map((c) => c.id)).toEqual(["sports"]);
+  });
+
+  it("should pick without repeats", () => {
+    const picked = pickWeightedCategories(CATEGORIES, { count: 6, preferred: ["tech", "science"] });
+    expect(new Set(picked.map((c) => c.id)).size).toBe(6);
+  });
+});
+
+describe("Profile reranking", () => {
+  it("should extract content words from the profile", () => {
+    expect(profileTerms("I'm a software engineer interested in AI and climate tech")).toEqual([
+      "software",
+      "engineer",
+      "climate",
+      "tech",
+    ]);
+  });
+
+  it("should move matching articles up and keep order among ties", () => {
+    const results = [
+      result("Local football scores"),
+      result("Celebrity gossip"),
+      result("New battery chemistry", "A startup built cheaper grid storage"),
+      result("Climate policy shifts in Europe"),
+    ];
+
+    const reranked = rerankByProfile(results, "I follow climate tech and energy storage");
+
+    expect(reranked.map((r) => r.title)).toEqual([
+      "Climate policy shifts in Europe",
+      "New battery chemistry",
+      "Local football scores",
+      "Celebrity gossip",
+    ]);
+  });
+
+  it("should leave results untouched without a profile", () => {
+    const results = [result("A"), result("B")];
+    expect(rerankByProfile(results, "")).toBe(results);
+  });
+
+  it("should push articles about avoided terms down", () => {
+    const results = [result("Transfer window rumours"), result("Ocean heatwave"), result("Quiet week in politics")];
+
+    const reranked = rerankByProfile(results, "", ["transfer window"]);
+
+    expect(reranked.map((r) => r.title)).toEqual(["Ocean heatwave", "Quiet week in politics", "Transfer window rumours"]);
+  });
+});
+
+describe("Hidden sources", () => {
+  it("should drop articles from hidden sites, www or not", () => {
+    const results = [
+      result("A", "", "https://www.tabloid.test/a"),
+      result("B", "", "https://news.example.org/b"),
+    ];
+
+    expect(withoutHiddenSources(results, ["tabloid.test"]).map((r) => r.title)).toEqual(["B"]);
+    expect(withoutHiddenSources(results, [])).toBe(results);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { runPool, chunk } from "@/lib/pool";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Worker pool", () => {
+  it("should return results in input order", async () => {
+    const { results, completed } = await runPool(
+      [30, 5, 15],
+      async (ms, idx) => {
+        await sleep(ms);
+        return idx;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(results).toEqual([0, 1, 2]);
+    expect(completed).toBe(3);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+
+    await runPool(
+      Array.from({ length: 8 }, (_, i) => i),
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(5);
+        running--;
+      },
+      { concurrency: 2 }
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it("should skip failed items and keep the rest", async () => {
+    const pool = await runPool(
+      ["a", "boom", "c"],
+      async (item) => {
+        if (item === "boom") throw new Error("bad article");
+        return item.toUpperCase();
+      },
+      { concurrency: 2 }
+    );
+
+    expect(pool.results).toEqual(["A", "C"]);
+    expect(pool.failed).toBe(1);
+  });
+
+  it("should time out slow items and abort their signal", async () => {
+    let aborted = false;
+
+    const pool = await runPool(
+      [1, 200],
+      async (ms, _idx, signal) => {
+        signal.addEventListener("abort", () => (aborted = true));
+        await sleep(ms);
+        return ms;
+      },
+      { concurrency: 2, itemTimeoutMs: 50 }
+    );
+
+    expect(pool.results).toEqual([1]);
+    expect(pool.timedOut).toBe(1);
+    expect(aborted).toBe(true);
+  });
+
+  it("should return partial results when the deadline passes", async () => {
+    const started = Date.now();
+
+    const pool = await runPool(
+      [5, 5, 300, 300],
+      async (ms) => {
+        await sleep(ms);
+        return ms;
+      },
+      { concurrency: 4, deadlineMs: 60 }
+    );
+
+    expect(Date.now() - started).toBeLessThan(250);
+    expect(pool.results).toEqual([5, 5]);
+    expect(pool.unfinished).toBe(2);
+  });
+
+  it("should abort items still running at the deadline", async () => {
+    const signals: AbortSignal[] = [];
+
+    await runPool(
+      [5, 300],
+      async (ms, _idx, signal) => {
+        signals.push(signal);
+        await sleep(ms);
+      },
+      { concurrency: 2, deadlineMs: 60 }
+    );
+
+    expect(signals[0].aborted).toBe(false);
+    expect(signals[1].aborted).toBe(true);
+  });
+});
+
+describe("chunk", () => {
+  it("should split items into batches", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("should treat sizes below 1 as 1", () => {
+    expect(chunk(["a", "b"], 0)).toEqual([["a"], ["b"]]);
+  });
+});
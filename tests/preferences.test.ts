@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  SIGNAL_HALF_LIFE_MS,
+  applyDislike,
+  applyLike,
+  applySignal,
+  avoidedCategories,
+  avoidedKeywords,
+  decayPreferences,
+  emptyPreferences,
+  hideSource,
+  isFromHiddenSource,
+  preferredCategories,
+  sourceKey,
+  unhideSource,
+  withPreferenceDefaults,
+} from "@/lib/preferences";
+import type { Topic } from "@/types";
+
+const NOW = Date.UTC(2026, 0, 1);
+
+function highlight(text: string) {
+  return { id: text, text, startIndex: 0, endIndex: text.length };
+}
+
+function topic(overrides: Partial<Topic> = {}): Topic {
+  return {
+    id: "t1",
+    title: "Quantum error correction milestone",
+    summary: "",
+    content: "",
+    category: "science",
+    source: "Example News",
+    sourceUrl: "https://www.example.com/story",
+    timestamp: new Date(NOW),
+    highlights: [highlight("surface codes")],
+    ...overrides,
+  };
+}
+
+describe("Likes", () => {
+  it("should count the category, title words and highlights", () => {
+    const prefs = applyLike(emptyPreferences(NOW), topic());
+
+    expect(prefs.likedCategories).toEqual({ science: 1 });
+    expect(prefs.likedKeywords).toMatchObject({ quantum: 1, correction: 1, milestone: 1, "surface codes": 3 });
+    expect(prefs.totalLikes).toBe(1);
+  });
+
+  it("should take back exactly what a like added on unlike", () => {
+    const before = applyLike(emptyPreferences(NOW), topic({ title: "Quantum sensors" }));
+    const after = applyLike(applyLike(before, topic()), topic(), -1);
+
+    expect(after).toEqual(before);
+  });
+
+  it("should fill in the new fields on preferences saved before dislikes existed", () => {
+    const prefs = withPreferenceDefaults({ likedCategories: { tech: 2 }, likedKeywords: {}, totalLikes: 2 }, NOW);
+    expect(prefs).toMatchObject({ likedCategories: { tech: 2 }, dislikedCategories: {}, hiddenSources: [], decayedAt: NOW });
+  });
+});
+
+describe("Not interested", () => {
+  it("should turn a category from preferred to avoided once dislikes outweigh likes", () => {
+    let prefs = applyLike(emptyPreferences(NOW), topic({ category: "sports" }));
+    expect(preferredCategories(prefs)).toEqual(["sports"]);
+
+    prefs = applyDislike(applyDislike(prefs, topic({ category: "sports" })), topic({ category: "sports" }));
+    expect(preferredCategories(prefs)).toEqual([]);
+    expect(avoidedCategories(prefs)).toEqual(["sports"]);
+  });
+
+  it("should avoid disliked terms, strongest first", () => {
+    const prefs = applyDislike(emptyPreferences(NOW), topic({ title: "Celebrity gossip", highlights: [highlight("red carpet")] }));
+    expect(avoidedKeywords(prefs)).toEqual(["red carpet", "celebrity", "gossip"]);
+    expect(avoidedKeywords(prefs, 1)).toEqual(["red carpet"]);
+  });
+});
+
+describe("Implicit signals", () => {
+  it("should weigh engagement toward likes or dislikes without counting a like", () => {
+    const engaged = applySignal(emptyPreferences(NOW), topic(), 0.5);
+    expect(engaged.likedCategories).toEqual({ science: 0.5 });
+    expect(engaged.likedKeywords["surface codes"]).toBe(1.5);
+    expect(engaged.totalLikes).toBe(0);
+
+    const skipped = applySignal(emptyPreferences(NOW), topic(), -0.25);
+    expect(skipped.dislikedCategories).toEqual({ science: 0.25 });
+    expect(skipped.likedCategories).toEqual({});
+  });
+});
+
+describe("Hidden sources", () => {
+  it("should key sources by hostname, falling back to the name", () => {
+    expect(sourceKey(topic())).toBe("example.com");
+    expect(sourceKey(topic({ sourceUrl: "", source: "  Daily Wire " }))).toBe("daily wire");
+  });
+
+  it("should hide and unhide a source once", () => {
+    const hidden = hideSource(hideSource(emptyPreferences(NOW), "example.com"), "example.com");
+    expect(hidden.hiddenSources).toEqual(["example.com"]);
+    expect(isFromHiddenSource(topic(), hidden.hiddenSources)).toBe(true);
+    expect(unhideSource(hidden, "example.com").hiddenSources).toEqual([]);
+  });
+});
+
+describe("Decay", () => {
+  it("should halve signals every half-life and forget faint ones", () => {
+    const prefs = {
+      ...emptyPreferences(NOW),
+      likedCategories: { science: 4 },
+      dislikedKeywords: { gossip: 0.08 },
+    };
+
+    const decayed = decayPreferences(prefs, NOW + SIGNAL_HALF_LIFE_MS);
+
+    expect(decayed.likedCategories).toEqual({ science: 2 });
+    expect(decayed.dislikedKeywords).toEqual({});
+    expect(decayed.decayedAt).toBe(NOW + SIGNAL_HALF_LIFE_MS);
+  });
+
+  it("should leave recent preferences alone", () => {
+    const prefs = applyLike(emptyPreferences(NOW), topic());
+    expect(decayPreferences(prefs, NOW + 60_000)).toBe(prefs);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createProviderRegistry,
+  gatherContent,
+  dedupeResults,
+  mixByWeight,
+} from "@/lib/providers";
+import type { ContentProvider, ValyuResult } from "@/lib/providers";
+
+function result(url: string, title: string, providerId?: string): ValyuResult {
+  return { title, url, content: `${title} content`, source: "Test", providerId };
+}
+
+function fakeProvider(
+  id: string,
+  results: ValyuResult[],
+  options: Partial<ContentProvider> = {}
+): ContentProvider {
+  return {
+    id,
+    capabilities: { search: true, headlines: false },
+    isAvailable: () => true,
+    fetch: vi.fn(async () => results),
+    ...options,
+  };
+}
+
+describe("Provider registry", () => {
+  it("should only return enabled, available providers", () => {
+    const registry = createProviderRegistry();
+    registry.register(fakeProvider("a", []));
+    registry.register(fakeProvider("b", []), { enabled: false });
+    registry.register(fakeProvider("c", [], { isAvailable: () => false }));
+
+    expect(registry.getActive().map((p) => p.id)).toEqual(["a"]);
+
+    registry.configure("b", { enabled: true });
+    expect(registry.getActive().map((p) => p.id)).toEqual(["a", "b"]);
+  });
+
+  it("should enforce a sliding-window rate limit", () => {
+    let now = 0;
+    const registry = createProviderRegistry(() => now);
+    registry.register(fakeProvider("a", []), {
+      rateLimit: { maxRequests: 2, windowMs: 1000 },
+    });
+
+    expect(registry.tryAcquire("a")).toBe(true);
+    expect(registry.tryAcquire("a")).toBe(true);
+    expect(registry.tryAcquire("a")).toBe(false);
+
+    now = 1500;
+    expect(registry.tryAcquire("a")).toBe(true);
+  });
+});
+
+describe("Gathering content", () => {
+  it("should query search providers once per category and headline providers once", async () => {
+    const search = fakeProvider("search", [result("https://a.com/1", "Alpha")]);
+    const headlines = fakeProvider("headlines", [result("https://b.com/1", "Beta")], {
+      capabilities: { search: false, headlines: true },
+    });
+    const registry = createProviderRegistry();
+    registry.register(search);
+    registry.register(headlines);
+
+    const { results, categoryStats, providerStats } = await gatherContent(registry, {
+      queries: [
+        { category: "tech", query: "AI" },
+        { category: "science", query: "research" },
+      ],
+    });
+
+    expect(search.fetch).toHaveBeenCalledTimes(2);
+    expect(headlines.fetch).toHaveBeenCalledTimes(1);
+    expect(categoryStats).toEqual({ tech: 1, science: 1 });
+    expect(providerStats).toEqual({ search: 2, headlines: 1 });
+    // The repeated search result is deduped by URL
+    expect(results.map((r) => r.url).sort()).toEqual(["https://a.com/1", "https://b.com/1"]);
+  });
+
+  it("should drop excluded URLs and survive provider errors", async () => {
+    const registry = createProviderRegistry();
+    registry.register(fakeProvider("ok", [result("https://a.com/1", "Alpha"), result("https://a.com/2", "Gamma")]));
+    registry.register(fakeProvider("broken", [], { fetch: async () => { throw new Error("down"); } }));
+
+    const { results } = await gatherContent(registry, {
+      queries: [{ category: "tech", query: "AI" }],
+      excludeUrls: ["https://a.com/1"],
+    });
+
+    expect(results.map((r) => r.url)).toEqual(["https://a.com/2"]);
+    expect(results[0].category).toBe("tech");
+    expect(results[0].providerId).toBe("ok");
+  });
+
+  it("should merge the same story from different providers into one result", async () => {
+    const story = "Webb telescope detects carbon dioxide on exoplanet WASP-39b";
+    const registry = createProviderRegistry();
+    registry.register(fakeProvider("valyu", [{ ...result("https://a.com/webb", story), source: "A" }]));
+    registry.register(fakeProvider("rss", [{ ...result("https://b.com/webb", `Exoplanet WASP-39b: ${story}`), source: "B" }]));
+
+    const { results } = await gatherContent(registry, { queries: [{ category: "science", query: "space" }] });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].alsoReportedBy).toHaveLength(1);
+  });
+
+  it("should skip providers that are over their rate limit", async () => {
+    const limited = fakeProvider("limited", [result("https://a.com/1", "Alpha")]);
+    const registry = createProviderRegistry();
+    registry.register(limited, { rateLimit: { maxRequests: 1, windowMs: 60_000 } });
+
+    await gatherContent(registry, { queries: [{ category: "tech", query: "AI" }, { category: "science", query: "x" }] });
+    expect(limited.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Dedup and mixing", () => {
+  it("should dedupe by URL and by title prefix", () => {
+    const deduped = dedupeResults([
+      result("https://a.com/1", "Same Story Here"),
+      result("https://a.com/1", "Different title"),
+      result("https://b.com/1", "same story here"),
+      result("https://c.com/1", "Another"),
+    ]);
+
+    expect(deduped.map((r) => r.url)).toEqual(["https://a.com/1", "https://c.com/1"]);
+  });
+
+  it("should never pick a zero-weight provider while others have results", () => {
+    const mixed = mixByWeight(
+      [
+        result("https://a.com/1", "A1", "a"),
+        result("https://a.com/2", "A2", "a"),
+        result("https://b.com/1", "B1", "b"),
+      ],
+      { a: 1, b: 0 }
+    );
+
+    expect(mixed.map((r) => r.providerId)).toEqual(["a", "a", "b"]);
+  });
+});
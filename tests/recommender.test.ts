@@ -0,0 +1,215 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  cosine,
+  createHashingEmbedder,
+  createHttpEmbedder,
+  parseSampleParam,
+  rankBySimilarity,
+  type Embedder,
+} from "@/lib/recommender";
+import { addSample, encodeSamples, type StoredSample } from "@/lib/recommender/samples";
+import { SIGNAL_HALF_LIFE_MS } from "@/lib/preferences";
+import { mixByWeight, type ValyuResult } from "@/lib/providers";
+import { rerankByProfile } from "@/lib/personalization";
+
+const NOW = Date.UTC(2026, 0, 1);
+
+function result(title: string, content = ""): ValyuResult {
+  return { title, url: `https://example.com/${encodeURIComponent(title)}`, content, source: "Test" };
+}
+
+const titles = (results: ValyuResult[]) => results.map((r) => r.title);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Hashing embedder", () => {
+  it("should embed deterministically to unit vectors", async () => {
+    const embedder = createHashingEmbedder({ dimensions: 64 });
+    const [a, b] = await embedder.embed(["Apple earnings beat forecasts", "Apple earnings beat forecasts"]);
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(cosine(a, a)).toBeCloseTo(1);
+  });
+
+  it("should place shared phrases closer than shared words", async () => {
+    const [liked, earnings, orchards] = await createHashingEmbedder().embed([
+      "Apple earnings lift tech stocks",
+      "Apple earnings disappoint investors",
+      "Apple orchards hit by late frost",
+    ]);
+
+    expect(cosine(liked, earnings)).toBeGreaterThan(cosine(liked, orchards));
+  });
+});
+
+describe("Semantic ranking", () => {
+  const candidates = [
+    result("Apple orchards hit by late frost", "Growers lost much of the harvest."),
+    result("Local football scores"),
+    result("Apple earnings beat expectations", "Quarterly revenue rose on iPhone sales."),
+  ];
+
+  it("should move articles like the reader's likes up and dislikes down", async () => {
+    const ranked = await rankBySimilarity(
+      candidates,
+      [
+        { text: "Apple earnings and iPhone revenue", weight: 1 },
+        { text: "Orchards, harvest and frost", weight: -1 },
+      ],
+      { exploration: 0, diversity: 0, orderWeight: 0 }
+    );
+
+    expect(titles(ranked)).toEqual([
+      "Apple earnings beat expectations",
+      "Local football scores",
+      "Apple orchards hit by late frost",
+    ]);
+  });
+
+  it("should keep the order without samples", async () => {
+    expect(await rankBySimilarity(candidates, [])).toBe(candidates);
+  });
+
+  it("should spread near-duplicates apart when diversity is on", async () => {
+    const results = [
+      result("Fusion reactor record", "Plasma held for minutes in a fusion reactor."),
+      result("Fusion reactor record again", "Plasma held for minutes in a fusion reactor."),
+      result("Fusion funding news", "Investors back a fusion startup."),
+    ];
+    const samples = [{ text: "Fusion reactor plasma record", weight: 1 }];
+
+    const relevanceOnly = await rankBySimilarity(results, samples, { exploration: 0, diversity: 0 });
+    const diverse = await rankBySimilarity(results, samples, { exploration: 0, diversity: 0.7 });
+
+    expect(titles(relevanceOnly).slice(0, 2)).toEqual(["Fusion reactor record", "Fusion reactor record again"]);
+    expect(titles(diverse)[1]).toBe("Fusion funding news");
+  });
+
+  it("should give some slots to random picks when exploring", async () => {
+    // First roll explores, second picks the last remaining candidate
+    const rolls = [0, 0.99];
+    const ranked = await rankBySimilarity(
+      candidates,
+      [{ text: "Apple earnings and iPhone revenue", weight: 1 }],
+      { exploration: 0.5, diversity: 0, orderWeight: 0, random: () => rolls.shift() ?? 1 }
+    );
+
+    expect(titles(ranked)[0]).toBe("Apple earnings beat expectations");
+    expect(titles(ranked)[1]).toBe("Local football scores");
+  });
+
+  it("should keep down-weighted providers and avoided terms low", async () => {
+    const plasma = "Plasma held for minutes in a fusion reactor.";
+    const gathered = [
+      { ...result("Fusion reactor plasma record broken", plasma), providerId: "rss" },
+      { ...result("Fusion reactor sets plasma record", plasma), providerId: "valyu" },
+      { ...result("Fusion reactor plasma record, startup says", plasma), providerId: "valyu" },
+      { ...result("Fusion research budget", "Labs get more money."), providerId: "valyu" },
+    ];
+    // The RSS feed is weighted down and the reader said "not interested" in startups
+    const incoming = rerankByProfile(mixByWeight(gathered, { rss: 0.1, valyu: 1 }, () => 0.5), "", ["startup"]);
+    const samples = [{ text: "Fusion reactor plasma record", weight: 1 }];
+
+    const similarityOnly = await rankBySimilarity(incoming, samples, { exploration: 0, diversity: 0, orderWeight: 0 });
+    const blended = await rankBySimilarity(incoming, samples, { exploration: 0, diversity: 0 });
+
+    expect(titles(similarityOnly)).toEqual([
+      "Fusion reactor plasma record broken",
+      "Fusion reactor sets plasma record",
+      "Fusion reactor plasma record, startup says",
+      "Fusion research budget",
+    ]);
+    expect(titles(blended)).toEqual([
+      "Fusion reactor sets plasma record",
+      "Fusion reactor plasma record broken",
+      "Fusion research budget",
+      "Fusion reactor plasma record, startup says",
+    ]);
+  });
+
+  it("should fall back to the incoming order when the embedder fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const broken: Embedder = {
+      name: "broken",
+      embed: async () => {
+        throw new Error("model offline");
+      },
+    };
+
+    expect(await rankBySimilarity(candidates, [{ text: "Apple", weight: 1 }], { embedder: broken })).toBe(candidates);
+  });
+});
+
+describe("HTTP embedder", () => {
+  it("should call an OpenAI-compatible endpoint and keep input order", async () => {
+    const fetchImpl = vi.fn(async () =>
+      Response.json({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] })
+    );
+    const embedder = createHttpEmbedder({
+      url: "http://localhost:11434/v1/",
+      model: "nomic-embed-text",
+      apiKey: "secret",
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+    });
+
+    expect(await embedder.embed(["a", "b"])).toEqual([[1, 0], [0, 1]]);
+    expect(fetchImpl).toHaveBeenCalledWith(
+      "http://localhost:11434/v1/embeddings",
+      expect.objectContaining({
+        body: JSON.stringify({ model: "nomic-embed-text", input: ["a", "b"] }),
+        headers: expect.objectContaining({ Authorization: "Bearer secret" }),
+      })
+    );
+  });
+});
+
+describe("Embedding endpoint timeout", () => {
+  it("should fall back to the incoming order when the endpoint hangs", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // Never answers; only the abort signal ends the request
+    const fetchImpl = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_, reject) => init.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+    );
+    const embedder = createHttpEmbedder({
+      url: "http://localhost:11434/v1",
+      model: "nomic-embed-text",
+      timeoutMs: 20,
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+    });
+    const results = [result("Gardening tips"), result("Apple earnings beat forecasts")];
+
+    const ranked = await rankBySimilarity(results, [{ text: "Apple earnings", weight: 1 }], { embedder });
+
+    expect(titles(ranked)).toEqual(["Gardening tips", "Apple earnings beat forecasts"]);
+  });
+});
+
+describe("Interest samples", () => {
+  it("should parse weighted samples from query params", () => {
+    expect(parseSampleParam("0.5:Apple earnings: a recap")).toEqual({ text: "Apple earnings: a recap", weight: 0.5 });
+    expect(parseSampleParam("-1:Celebrity gossip")).toEqual({ text: "Celebrity gossip", weight: -1 });
+    expect(parseSampleParam("Celebrity gossip")).toBeNull();
+    expect(parseSampleParam("0:Nothing")).toBeNull();
+  });
+
+  it("should add up reactions to the same topic and drop ones that cancel out", () => {
+    let samples: StoredSample[] = addSample([], "Apple earnings", 1, NOW);
+    samples = addSample(samples, "Apple earnings", 0.5, NOW);
+    expect(samples).toEqual([{ text: "Apple earnings", weight: 1.5, at: NOW }]);
+
+    expect(addSample(samples, "Apple earnings", -1.5, NOW)).toEqual([]);
+  });
+
+  it("should send the strongest samples with faded weights", () => {
+    const samples: StoredSample[] = [
+      { text: "Old like", weight: 1, at: NOW - SIGNAL_HALF_LIFE_MS },
+      { text: "Fresh dislike", weight: -1, at: NOW },
+    ];
+
+    expect(encodeSamples(samples, NOW)).toEqual(["-1:Fresh dislike", "0.5:Old like"]);
+  });
+});
@@ -0,0 +1,586 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { SearchResponse } from "valyu-js";
+import { GET as getTopics } from "@/app/api/topics/route";
+import { GET as getExpand, POST as postExpand } from "@/app/api/expand/route";
+import { POST as postExplore } from "@/app/api/explore/route";
+import { POST as postAsk } from "@/app/api/ask/route";
+import { POST as postResearch } from "@/app/api/research/route";
+import { setClients, type SearchClient } from "@/lib/clients";
+import { createOfflineAnthropic } from "@/lib/offline";
+import { createProviderRegistry, setContentRegistry, type ContentProvider } from "@/lib/providers";
+import { valyuProvider } from "@/lib/providers/valyu";
+import { createLLMCache, createMemoryBackend, setLLMCache } from "@/lib/cache";
+import { MAX_PERSPECTIVES } from "@/lib/structured";
+import { parseCitedText } from "@/lib/citations";
+import type { ResearchReport, Topic } from "@/types";
+
+// --- Fakes ---
+
+const ARTICLES = [
+  { title: "Quantum chips pass a key error threshold", url: "https://example.org/a" },
+  { title: "Webb spots carbon dioxide on a distant planet", url: "https://example.org/b" },
+  // Same story as b under a different URL - dropped by the title check
+  { title: "WEBB SPOTS CARBON DIOXIDE ON A DISTANT PLANET", url: "https://example.org/b-syndicated" },
+  { title: "Batteries undercut gas peaker plants", url: "https://example.org/c" },
+].map((a) => ({
+  ...a,
+  content: `${a.title}. Researchers at the Example Institute described the result in detail this week.`,
+  source: "Example News",
+  length: 100,
+  publication_date: "2026-03-01T00:00:00Z",
+}));
+
+// Every query returns the same articles, so dedup has plenty to do
+function fakeValyu(search?: SearchClient["search"]): SearchClient {
+  return {
+    search:
+      search ||
+      (async (query): Promise<SearchResponse> => ({
+        success: true,
+        tx_id: null,
+        query,
+        results: ARTICLES,
+        results_by_source: { web: ARTICLES.length, proprietary: 0 },
+        total_deduction_pcm: 0,
+        total_deduction_dollars: 0,
+        total_characters: 0,
+      })),
+  };
+}
+
+// Headlines provider standing in for NewsAPI, repeating one of Valyu's URLs
+const fakeNewsApi: ContentProvider = {
+  id: "newsapi",
+  capabilities: { search: false, headlines: true },
+  isAvailable: () => true,
+  fetch: async () => [
+    { title: "A different headline entirely", url: ARTICLES[0].url, content: "Duplicate URL", source: "Wire" },
+    { title: "Parliament passes privacy law", url: "https://example.org/d", content: "Lawmakers voted.", source: "Wire" },
+  ],
+};
+
+function failingAnthropic(): Anthropic {
+  const fail = async () => {
+    throw new Error("Anthropic is down");
+  };
+  return { messages: { create: fail, stream: fail } } as unknown as Anthropic;
+}
+
+function useClients(anthropic: Anthropic | null, valyu: SearchClient | null) {
+  setClients({ anthropic, valyu, offline: false });
+}
+
+// --- Request helpers ---
+
+async function topics(params: Record<string, string> = {}) {
+  const url = new URL("http://localhost/api/topics");
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  const response = await getTopics(new Request(url));
+  return { status: response.status, body: await response.json() };
+}
+
+function jsonRequest(path: string, body: unknown) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const isAIThought = (topic: Topic) => !topic.sourceUrl;
+
+beforeEach(() => {
+  // Cache off so every test exercises the handler, not a stored response
+  setLLMCache(null);
+  const registry = createProviderRegistry();
+  registry.register(valyuProvider);
+  registry.register(fakeNewsApi);
+  setContentRegistry(registry);
+  useClients(createOfflineAnthropic({ streamDelayMs: 0 }), fakeValyu());
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  setClients(null);
+  setContentRegistry(null);
+});
+
+// --- /api/topics ---
+
+describe("GET /api/topics", () => {
+  it("should process live articles deduped by URL and title", async () => {
+    const { status, body } = await topics({ count: "10" });
+
+    expect(status).toBe(200);
+    expect(body.mode).toBe("live");
+
+    const real = (body.topics as Topic[]).filter((t) => !isAIThought(t));
+    const urls = real.map((t) => t.sourceUrl);
+    expect(new Set(urls).size).toBe(urls.length);
+    expect(urls).not.toContain("https://example.org/b-syndicated");
+    expect(urls.sort()).toEqual([
+      "https://example.org/a",
+      "https://example.org/b",
+      "https://example.org/c",
+      "https://example.org/d",
+    ]);
+    real.forEach((t) => expect(t.highlights.length).toBeGreaterThan(0));
+  });
+
+  it("should skip excluded URLs", async () => {
+    const { body } = await topics({ excludeUrls: "https://example.org/a,https://example.org/c" });
+
+    const urls = (body.topics as Topic[]).map((t) => t.sourceUrl);
+    expect(urls).not.toContain("https://example.org/a");
+    expect(urls).not.toContain("https://example.org/c");
+    expect(body.returnedUrls).toEqual(urls.filter(Boolean));
+  });
+
+  it("should never put an AI thought first", async () => {
+    for (const roll of [0, 0.5, 0.99]) {
+      vi.spyOn(Math, "random").mockReturnValue(roll);
+      const { body } = await topics({ count: "10" });
+      const list = body.topics as Topic[];
+
+      expect(isAIThought(list[0])).toBe(false);
+      expect(list.filter(isAIThought)).toHaveLength(body.aiCount);
+      expect(body.aiCount).toBe(roll > 0.5 ? 2 : 1);
+    }
+  });
+
+  it("should lead with the article closest to what the reader liked", async () => {
+    const { body } = await topics({ count: "1", sample: "1:Grid batteries undercut gas peaker plants on price" });
+
+    const real = (body.topics as Topic[]).filter((t) => !isAIThought(t));
+    expect(real.map((t) => t.sourceUrl)).toEqual(["https://example.org/c"]);
+  });
+
+  it("should present a story several outlets covered as one perspectives card", async () => {
+    const lead = "Astronomers using the James Webb Space Telescope have detected carbon dioxide in the atmosphere of WASP-39b, a gas giant 700 light years away.";
+    const story = [
+      { title: "Webb telescope detects carbon dioxide on exoplanet WASP-39b", url: "https://a.test/webb", source: "Outlet A", content: lead },
+      { title: "Carbon dioxide found on exoplanet WASP-39b by Webb telescope", url: "https://b.test/webb", source: "Outlet B", content: `${lead} It is a first.` },
+      { title: "Webb finds carbon dioxide in WASP-39b atmosphere", url: "https://c.test/webb", source: "Outlet C", content: lead },
+    ].map((a) => ({ ...a, length: 100, publication_date: "2026-03-01T00:00:00Z" }));
+    useClients(
+      createOfflineAnthropic({ streamDelayMs: 0 }),
+      fakeValyu(async (query, options) => ({ ...(await fakeValyu().search(query, options)), results: story }))
+    );
+
+    const { body } = await topics({ count: "10" });
+
+    const cards = (body.topics as Topic[]).filter((t) => t.sourceUrl.includes("webb"));
+    expect(cards).toHaveLength(1);
+    // The fullest article leads; every outlet gets a framing
+    expect(cards[0].sourceUrl).toBe("https://b.test/webb");
+    expect(cards[0].sources?.map((s) => s.name)).toEqual(["Outlet B", "Outlet A", "Outlet C"]);
+    expect(cards[0].perspectives?.map((p) => p.source)).toEqual(["Outlet B", "Outlet A", "Outlet C"]);
+    expect(cards[0].perspectives?.[1].framing).toContain("Outlet A");
+  });
+
+  it("should ask for no more perspectives than the schema takes", async () => {
+    const lead = "Astronomers using the James Webb Space Telescope have detected carbon dioxide in the atmosphere of WASP-39b, a gas giant 700 light years away.";
+    const story = Array.from({ length: MAX_PERSPECTIVES + 2 }, (_, i) => ({
+      // Distinct headlines, or the exact-title check drops them before clustering
+      title: `Report ${i}: Webb telescope detects carbon dioxide on exoplanet WASP-39b`,
+      url: `https://outlet${i}.test/webb`,
+      source: `Outlet ${i}`,
+      content: lead,
+      length: 100,
+      publication_date: "2026-03-01T00:00:00Z",
+    }));
+    useClients(
+      createOfflineAnthropic({ streamDelayMs: 0 }),
+      fakeValyu(async (query, options) => ({ ...(await fakeValyu().search(query, options)), results: story }))
+    );
+
+    const { body } = await topics({ count: "10" });
+
+    const card = (body.topics as Topic[]).find((t) => t.sourceUrl.includes("webb"));
+    expect(card?.sources).toHaveLength(MAX_PERSPECTIVES + 2);
+    expect(card?.perspectives).toHaveLength(MAX_PERSPECTIVES);
+  });
+
+  it("should respect the count parameter", async () => {
+    const { body } = await topics({ count: "2" });
+    expect(body.topics).toHaveLength(2);
+  });
+
+  it("should fall back to demo topics without clients", async () => {
+    useClients(null, null);
+
+    const { status, body } = await topics();
+
+    expect(status).toBe(200);
+    expect(body.mode).toBe("demo");
+    expect(body.aiCount).toBe(0);
+    expect(body.topics.length).toBeGreaterThan(0);
+  });
+
+  it("should fall back to demo topics when search fails", async () => {
+    useClients(
+      createOfflineAnthropic({ streamDelayMs: 0 }),
+      fakeValyu(async () => {
+        throw new Error("Valyu is down");
+      })
+    );
+    setContentRegistry(
+      (() => {
+        const registry = createProviderRegistry();
+        registry.register(valyuProvider);
+        return registry;
+      })()
+    );
+
+    const { status, body } = await topics();
+
+    expect(status).toBe(200);
+    expect(body.mode).toBe("demo");
+    expect(body.categoryStats).toBeDefined();
+  });
+
+  it("should fall back to demo topics when Claude fails", async () => {
+    useClients(failingAnthropic(), fakeValyu());
+
+    const { status, body } = await topics();
+
+    expect(status).toBe(200);
+    expect(body.mode).toBe("demo");
+    expect(body.aiCount).toBe(0);
+  });
+});
+
+// --- /api/expand ---
+
+describe("GET /api/expand", () => {
+  const expandUrl = (params: string) => new NextRequest(`http://localhost/api/expand?${params}`);
+
+  it("should require a topicId", async () => {
+    const response = await getExpand(expandUrl("title=x"));
+    expect(response.status).toBe(400);
+  });
+
+  it("should expand the given topic", async () => {
+    const response = await getExpand(
+      expandUrl("topicId=t1&title=Batteries%20undercut%20gas&content=Grid%20batteries%20are%20cheaper%20now.")
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.content).toContain("Batteries undercut gas");
+    expect(body.cache).toBe("off");
+  });
+
+  it("should cite the search results it was given", async () => {
+    const body = await (
+      await getExpand(expandUrl("topicId=t1&title=Batteries%20undercut%20gas&content=Grid%20batteries%20are%20cheaper%20now."))
+    ).json();
+
+    expect(body.citations.map((c: { url: string }) => c.url)).toContain(ARTICLES[0].url);
+    expect(body.citations[0]).toMatchObject({ id: 1, source: "Example News", date: "2026-03-01" });
+    expect(body.content).toMatch(/\[1\]/);
+  });
+
+  it("should stream the expansion as plain text", async () => {
+    const response = await getExpand(
+      expandUrl("topicId=t1&title=Batteries%20undercut%20gas&content=Grid%20batteries%20are%20cheaper%20now.&stream=true")
+    );
+
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+    expect(await response.text()).toContain("Batteries undercut gas");
+  });
+
+  it("should lead the stream with its citations", async () => {
+    const response = await getExpand(
+      expandUrl("topicId=t1&title=Batteries%20undercut%20gas&content=Grid%20batteries%20are%20cheaper%20now.&stream=true")
+    );
+    const { text, citations } = parseCitedText(await response.text());
+
+    expect(citations.length).toBeGreaterThan(0);
+    expect(text).toContain("Batteries undercut gas");
+  });
+
+  it("should return no citations for demo content", async () => {
+    useClients(null, null);
+    const body = await (await getExpand(expandUrl("topicId=topic-1"))).json();
+    expect(body.citations).toEqual([]);
+  });
+
+  it("should use demo content without clients", async () => {
+    useClients(null, null);
+    const body = await (await getExpand(expandUrl("topicId=topic-1"))).json();
+    expect(body.content).toContain("Error correction");
+  });
+
+  it("should fall back to demo content when Claude fails", async () => {
+    useClients(failingAnthropic(), fakeValyu());
+    const body = await (await getExpand(expandUrl("topicId=topic-1&title=T&content=C"))).json();
+    expect(body.content).toContain("Error correction");
+  });
+});
+
+describe("POST /api/expand", () => {
+  it("should require topicId and highlightText", async () => {
+    const response = await postExpand(jsonRequest("/api/expand", { topicId: "t1" }));
+    expect(response.status).toBe(400);
+  });
+
+  it("should explain a highlight", async () => {
+    const response = await postExpand(
+      jsonRequest("/api/expand", { topicId: "t1", highlightText: "gas peaker plants", topicContent: "Batteries are cheaper." })
+    );
+    expect((await response.json()).content).toContain("gas peaker plants");
+  });
+
+  it("should return a fallback when Claude fails", async () => {
+    useClients(failingAnthropic(), null);
+    const response = await postExpand(jsonRequest("/api/expand", { topicId: "t1", highlightText: "peakers" }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).content).toContain("This aspect involves peakers");
+  });
+});
+
+// --- /api/explore ---
+
+describe("POST /api/explore", () => {
+  it("should require a concept", async () => {
+    const response = await postExplore(jsonRequest("/api/explore", { question: "why?" }));
+    expect(response.status).toBe(400);
+  });
+
+  it("should explain a concept", async () => {
+    const response = await postExplore(
+      jsonRequest("/api/explore", { concept: "surface codes", topicContext: "Quantum chips improved." })
+    );
+    const body = await response.json();
+
+    expect(body.content).toContain("**surface codes**");
+    expect(body.cache).toBe("off");
+  });
+
+  it("should frame a nested concept by the path that led to it", async () => {
+    const create = vi.fn(async () => ({ content: [{ type: "text", text: "Thresholds explained." }] }));
+    useClients({ messages: { create } } as unknown as Anthropic, null);
+
+    await postExplore(
+      jsonRequest("/api/explore", { concept: "error threshold", path: ["Quantum computing", "Surface codes"] })
+    );
+
+    const prompt = JSON.stringify(create.mock.calls[0]);
+    expect(prompt).toContain("Quantum computing → Surface codes → error threshold");
+  });
+
+  it("should cache a concept separately for each path that led to it", async () => {
+    const create = vi.fn(async () => ({ content: [{ type: "text", text: "Thresholds explained." }] }));
+    useClients({ messages: { create } } as unknown as Anthropic, null);
+    setLLMCache(createLLMCache({ backend: createMemoryBackend(10), ttlMs: 60_000 }));
+    const explore = async (path: string[]) =>
+      (await postExplore(jsonRequest("/api/explore", { concept: "error threshold", path }))).json();
+
+    expect((await explore(["Quantum computing"])).cache).toBe("miss");
+    expect((await explore(["Fault tolerance"])).cache).toBe("miss");
+    expect((await explore(["Quantum computing"])).cache).toBe("hit");
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stream explanations", async () => {
+    const response = await postExplore(jsonRequest("/api/explore", { concept: "surface codes", stream: true }));
+
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+    expect(await response.text()).toContain("**surface codes**");
+  });
+
+  it("should use the demo explanation without clients", async () => {
+    useClients(null, null);
+    const body = await (await postExplore(jsonRequest("/api/explore", { concept: "butyrate" }))).json();
+    expect(body.content).toContain("short-chain fatty acid");
+  });
+
+  it("should fall back when Claude fails", async () => {
+    useClients(failingAnthropic(), null);
+    const body = await (await postExplore(jsonRequest("/api/explore", { concept: "something new" }))).json();
+    expect(body.content).toContain("# something new");
+  });
+
+  it("should keep the reader's question in the fallback when Claude fails", async () => {
+    useClients(failingAnthropic(), null);
+    const body = await (
+      await postExplore(jsonRequest("/api/explore", { concept: "something new", question: "Why now?" }))
+    ).json();
+    expect(body.content).toContain("**Your question:** Why now?");
+  });
+});
+
+// --- /api/ask ---
+
+describe("POST /api/ask", () => {
+  it("should require a question", async () => {
+    const response = await postAsk(jsonRequest("/api/ask", { topicContext: "x" }));
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject a question that isn't text", async () => {
+    expect((await postAsk(jsonRequest("/api/ask", { question: { text: "Why?" } }))).status).toBe(400);
+    expect((await postAsk(jsonRequest("/api/ask", { question: "   " }))).status).toBe(400);
+  });
+
+  it("should answer with context from search", async () => {
+    const search = vi.fn(fakeValyu().search);
+    useClients(createOfflineAnthropic({ streamDelayMs: 0 }), { search });
+
+    const response = await postAsk(
+      jsonRequest("/api/ask", { question: "Why does this matter?", selectedText: "error threshold" })
+    );
+    const body = await response.json();
+
+    expect(body.answer).toContain("Why does this matter?");
+    expect(body.citations.length).toBeGreaterThan(0);
+    expect(search).toHaveBeenCalledWith("error threshold Why does this matter?", expect.anything());
+  });
+
+  it("should send earlier turns of the thread as prior messages", async () => {
+    const create = vi.fn(async () => ({ content: [{ type: "text", text: "Because of noise." }] }));
+    const search = vi.fn(fakeValyu().search);
+    useClients({ messages: { create } } as unknown as Anthropic, { search });
+
+    await postAsk(
+      jsonRequest("/api/ask", {
+        question: "Why?",
+        history: [{ question: "What is the error threshold?", answer: "The noise level below which [1] correction works." }],
+      })
+    );
+    const { messages } = (create.mock.calls[0] as unknown as [{ messages: { role: string; content: string }[] }])[0];
+
+    expect(messages.map((m) => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(messages[1].content).toBe("The noise level below which correction works.");
+    expect(messages[2].content).toContain("follow-up");
+    expect(search).toHaveBeenCalledWith("What is the error threshold? Why?", expect.anything());
+  });
+
+  it("should leave out earlier turns with an empty question or answer", async () => {
+    const create = vi.fn(async () => ({ content: [{ type: "text", text: "Because of noise." }] }));
+    useClients({ messages: { create } } as unknown as Anthropic, { search: vi.fn(fakeValyu().search) });
+
+    await postAsk(
+      jsonRequest("/api/ask", {
+        question: "Why?",
+        history: [
+          { question: "What is the error threshold?", answer: "" },
+          { question: "", answer: "Noise." },
+          { question: "And qubits?", answer: "They're fragile." },
+        ],
+      })
+    );
+    const { messages } = (create.mock.calls[0] as unknown as [{ messages: { role: string; content: string }[] }])[0];
+
+    expect(messages.map((m) => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(messages[1].content).toBe("They're fragile.");
+  });
+
+  it("should stream the answer behind its citations", async () => {
+    const response = await postAsk(jsonRequest("/api/ask", { question: "Why does this matter?", stream: true }));
+    const { text, citations } = parseCitedText(await response.text());
+
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+    expect(citations.length).toBeGreaterThan(0);
+    expect(text).toContain("Why does this matter?");
+  });
+
+  it("should return setup instructions when Claude fails", async () => {
+    useClients(failingAnthropic(), null);
+    const response = await postAsk(jsonRequest("/api/ask", { question: "What now?" }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).answer).toContain("ANTHROPIC_API_KEY");
+  });
+});
+
+// --- /api/research ---
+
+// Answers the planning call, then the report call, with canned JSON
+function scriptedAnthropic(...replies: string[]): Anthropic {
+  let call = 0;
+  const create = async () => ({
+    content: [{ type: "text", text: replies[Math.min(call++, replies.length - 1)] }],
+  });
+  return { messages: { create } } as unknown as Anthropic;
+}
+
+describe("POST /api/research", () => {
+  const topic = { topicId: "t1", title: "Quantum chips pass a key error threshold", content: "Error rates fell." };
+
+  it("should require a title and content", async () => {
+    const response = await postResearch(jsonRequest("/api/research", { topicId: "t1" }));
+    expect(response.status).toBe(400);
+  });
+
+  it("should search each sub-question and cite the numbered sources", async () => {
+    const search = vi.fn(fakeValyu().search);
+    useClients(createOfflineAnthropic({ streamDelayMs: 0 }), { search });
+
+    const response = await postResearch(jsonRequest("/api/research", topic));
+    const report: ResearchReport = (await response.json()).report;
+
+    expect(search).toHaveBeenCalledTimes(3);
+    // Every question finds the same articles; each URL is one source
+    expect(report.sources.map((s) => s.id)).toEqual([1, 2, 3, 4]);
+    expect(report.findings).toHaveLength(3);
+    expect(report.viewpoints.length).toBeGreaterThanOrEqual(2);
+    expect(report.timeline[0].date).toBe("2026-03-01");
+    expect(report.synthesis).toMatch(/\[1\]/);
+  });
+
+  it("should drop citations of sources that don't exist", async () => {
+    useClients(
+      scriptedAnthropic(
+        JSON.stringify({ subQuestions: ["What happened?", "Why now?"] }),
+        JSON.stringify({
+          synthesis: "Chips improved [1][9]. Nobody knows why [7].",
+          viewpoints: [
+            { position: "Hype", argument: "Too early [2].", sources: [2, 8] },
+            { position: "Real", argument: "Already useful [1].", sources: [1] },
+          ],
+        })
+      ),
+      fakeValyu()
+    );
+
+    const report: ResearchReport = (await (await postResearch(jsonRequest("/api/research", topic))).json()).report;
+
+    expect(report.synthesis).toBe("Chips improved [1]. Nobody knows why.");
+    expect(report.viewpoints[0].sources).toEqual([2]);
+    expect(report.timeline).toEqual([]);
+  });
+
+  it("should ask again when the report has a single viewpoint", async () => {
+    const view = (position: string) => ({ position, argument: `The case for ${position}.` });
+    useClients(
+      scriptedAnthropic(
+        JSON.stringify({ subQuestions: ["What happened?", "Why now?"] }),
+        JSON.stringify({ synthesis: "Chips improved [1].", viewpoints: [view("Hype")] }),
+        JSON.stringify({ synthesis: "Chips improved [1].", viewpoints: [view("Hype"), view("Real")] })
+      ),
+      fakeValyu()
+    );
+
+    const report: ResearchReport = (await (await postResearch(jsonRequest("/api/research", topic))).json()).report;
+
+    expect(report.viewpoints.map((v) => v.position)).toEqual(["Hype", "Real"]);
+  });
+
+  it("should fall back to a placeholder report when Claude fails", async () => {
+    useClients(failingAnthropic(), fakeValyu());
+    const response = await postResearch(jsonRequest("/api/research", topic));
+    const report: ResearchReport = (await response.json()).report;
+
+    expect(response.status).toBe(200);
+    expect(report.synthesis).toContain("couldn't be completed");
+    expect(report.sources).toEqual([]);
+  });
+});
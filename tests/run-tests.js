@@ -18,6 +18,30 @@ const testFiles = [
   "navigation.test.ts",    // Navigation logic tests (arrow keys, depth transitions)
   "api.test.ts",           // API response structure and preloading tests
   "interests-panel.test.ts", // User preferences and interests localStorage tests
+  "providers.test.ts",     // Content provider registry, dedup and weighted mixing
+  "feeds.test.ts",         // RSS/Atom parsing and the RSS provider
+  "llm-cache.test.ts",     // Server-side LLM response cache (keys, TTL, eviction, backends)
+  "streaming.test.ts",     // Chunked text streaming and cached streams
+  "personalization.test.ts", // Liked-category weighting and "About You" reranking
+  "categories.test.ts",    // Shared category registry and model output coercion
+  "structured.test.ts",    // Schema-checked LLM JSON parsing with one repair retry
+  "pool.test.ts",          // Bounded-concurrency worker pool (timeouts, deadline, batching)
+  "offline.test.ts",       // Offline fixture-backed Valyu/Anthropic fakes and client selection
+  "routes.test.ts",        // Route handlers end to end with injected Valyu/Anthropic/NewsAPI fakes
+  "sync.test.ts",          // Account sign-in, user store and cross-device sync merge
+  "sync-device.test.ts",   // Client-side sync: one push at a time, sign-out only clears data the server has
+  "library.test.ts",       // Saved topics: upsert, archive, search
+  "content-store.test.ts", // Persisted deep dives / concepts and their eviction policy
+  "citations.test.ts",     // Numbered sources, inline [n] markers and the citations preamble
+  "markdown.test.ts",      // Safe markdown parsing of model output and explorable bold terms
+  "concept-trail.test.ts", // Nested concept exploration: breadcrumb stack, pop and jump
+  "concept-graph.test.ts", // Personal concept graph: links, co-occurrence, pruning, layout
+  "ai.test.ts",            // AI service layer: prompt registry, model config, error handling, token usage
+  "preferences.test.ts",   // Like/unlike reversal, "not interested", hidden sources and signal decay
+  "engagement.test.ts",    // Implicit engagement: visit summaries (dwell, depth, explores, questions) and their signal
+  "recommender.test.ts",   // Embedding-based ranking: hashing/HTTP embedders, likes vs dislikes, diversity, exploration
+  "stories.test.ts",       // Near-duplicate stories: MinHash signatures, clustering, merging sources into one card
+  "local-store.test.ts",   // localStorage values for useSyncExternalStore (server fallback, stable snapshots)
 ];
 
 console.log("🧪 Vibescroll Test Runner");
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  clusterSignatures,
+  mergeDuplicateResults,
+  mergeNewTopics,
+  minhash,
+  signatureSimilarity,
+  storyFeatures,
+  topicSignature,
+  topicSources,
+} from "@/lib/stories";
+import type { ValyuResult } from "@/lib/providers";
+import type { Topic } from "@/types";
+
+const WEBB = [
+  "James Webb telescope detects carbon dioxide on distant exoplanet WASP-39b",
+  "NASA's Webb telescope finds carbon dioxide in atmosphere of exoplanet WASP-39b",
+  "Carbon dioxide detected on exoplanet WASP-39b by James Webb telescope",
+];
+const WEBB_LEAD =
+  "Astronomers using the James Webb Space Telescope have detected carbon dioxide in the atmosphere of WASP-39b, a hot gas giant 700 light years away.";
+
+function article(title: string, url: string, content = WEBB_LEAD, source = "Outlet"): ValyuResult {
+  return { title, url, content, source };
+}
+
+function topic(id: string, title: string, summary: string, overrides: Partial<Topic> = {}): Topic {
+  return {
+    id,
+    title,
+    summary,
+    content: summary,
+    source: "Outlet",
+    sourceUrl: `https://example.com/${id}`,
+    timestamp: new Date(0),
+    category: "science",
+    highlights: [],
+    ...overrides,
+  };
+}
+
+const signature = (title: string, body: string) => minhash(storyFeatures(title, body));
+
+describe("Story signatures", () => {
+  it("should score the same story from different outlets as similar", () => {
+    const a = signature(WEBB[0], WEBB_LEAD);
+    const b = signature(WEBB[1], WEBB_LEAD);
+    const other = signature("Central bank raises rates again", "Inflation remains above target, the bank said on Tuesday.");
+
+    expect(signatureSimilarity(a, b)).toBeGreaterThanOrEqual(0.5);
+    expect(signatureSimilarity(a, other)).toBeLessThan(0.2);
+  });
+
+  it("should ignore case, punctuation and plurals", () => {
+    expect(storyFeatures("Webb's TELESCOPES!", "")).toEqual(storyFeatures("webb telescope", ""));
+  });
+
+  it("should never match text without usable words", () => {
+    expect(signatureSimilarity(signature("", ""), signature("", ""))).toBe(0);
+  });
+
+  it("should group near-duplicates and keep singletons", () => {
+    const signatures = [
+      signature(WEBB[0], WEBB_LEAD),
+      signature("Central bank raises rates again", "Inflation remains above target."),
+      signature(WEBB[2], WEBB_LEAD),
+    ];
+
+    expect(clusterSignatures(signatures)).toEqual([[0, 2], [1]]);
+  });
+});
+
+describe("Merging search results", () => {
+  it("should keep one result per story, listing the other outlets", () => {
+    const results = [
+      article(WEBB[0], "https://a.test/webb", WEBB_LEAD, "Outlet A"),
+      article("Central bank raises rates again", "https://a.test/rates", "Inflation remains above target."),
+      article(WEBB[1], "https://b.test/webb", `${WEBB_LEAD} The finding is a first.`, "Outlet B"),
+      article(WEBB[2], "https://c.test/webb", WEBB_LEAD, "Outlet C"),
+    ];
+
+    const merged = mergeDuplicateResults(results);
+
+    expect(merged.map((r) => r.url)).toEqual(["https://b.test/webb", "https://a.test/rates"]);
+    // The fullest article leads
+    expect(merged[0].alsoReportedBy?.map((s) => s.name)).toEqual(["Outlet A", "Outlet C"]);
+    expect(merged[1].alsoReportedBy).toBeUndefined();
+  });
+});
+
+describe("Merging fetched topics into the feed", () => {
+  const onFeed = topic("t1", WEBB[0], WEBB_LEAD, { source: "Outlet A" });
+
+  it("should add the outlet to the card already on the feed instead of a second card", () => {
+    const repeat = topic("t2", WEBB[1], WEBB_LEAD, { source: "Outlet B" });
+    const fresh = topic("t3", "Central bank raises rates again", "Inflation remains above target.");
+
+    const { feed, added, duplicates } = mergeNewTopics([onFeed], [repeat, fresh]);
+
+    expect(added.map((t) => t.id)).toEqual(["t3"]);
+    expect(duplicates).toBe(1);
+    expect(topicSources(feed[0]).map((s) => s.name)).toEqual(["Outlet A", "Outlet B"]);
+  });
+
+  it("should drop stories seen earlier even once they've left the feed", () => {
+    const history = [{ id: "old", signature: topicSignature(onFeed) }];
+    const repeat = topic("t2", WEBB[2], WEBB_LEAD);
+
+    expect(mergeNewTopics([], [repeat], history).added).toEqual([]);
+  });
+
+  it("should pass AI thoughts through", () => {
+    const thought = topic("ai", "What if the Moon vanished?", "Tides would shrink.", { sourceUrl: "" });
+    expect(mergeNewTopics([thought], [{ ...thought, id: "ai-2" }]).added).toHaveLength(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { streamTextResponse, withFallback, withPrefix, singleChunk } from "@/lib/streaming";
+import { readTextStream } from "@/lib/readTextStream";
+import { cachedStream, createLLMCache, createMemoryBackend, setLLMCache } from "@/lib/cache";
+
+async function* chunks(...parts: string[]) {
+  for (const part of parts) yield part;
+}
+
+async function* failing(...parts: string[]) {
+  for (const part of parts) yield part;
+  throw new Error("upstream failed");
+}
+
+async function collect(iterable: AsyncIterable<string>) {
+  let text = "";
+  for await (const chunk of iterable) text += chunk;
+  return text;
+}
+
+describe("Streaming helpers", () => {
+  it("should stream chunks to the client progressively", async () => {
+    const response = streamTextResponse(chunks("Hello", ", ", "world"), { "X-Cache": "miss" });
+    const seen: string[] = [];
+
+    const text = await readTextStream(response, (t) => seen.push(t));
+
+    expect(text).toBe("Hello, world");
+    expect(seen).toEqual(["Hello", "Hello, ", "Hello, world"]);
+    expect(response.headers.get("X-Cache")).toBe("miss");
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+  });
+
+  it("should only use the fallback when nothing was produced", async () => {
+    expect(await collect(withFallback(failing(), "fallback"))).toBe("fallback");
+    expect(await collect(withFallback(failing("partial"), "fallback"))).toBe("partial");
+    expect(await collect(withFallback(singleChunk("ok"), "fallback"))).toBe("ok");
+  });
+
+  it("should prepend a prefix only once something was produced", async () => {
+    expect(await collect(withPrefix(chunks("", "Hello", " world"), ">"))).toBe(">Hello world");
+    expect(await collect(withPrefix(chunks(), ">"))).toBe("");
+  });
+});
+
+describe("Cached streams", () => {
+  afterEach(() => {
+    setLLMCache(null);
+  });
+
+  it("should store completed streams and replay them as a hit", async () => {
+    setLLMCache(createLLMCache({ backend: createMemoryBackend(10), ttlMs: 60_000 }));
+    const parts = { route: "explore", concept: "qubits" };
+
+    const first = await cachedStream(parts, () => chunks("Qu", "bits"));
+    expect(first.cache).toBe("miss");
+    expect(await collect(first.chunks)).toBe("Qubits");
+
+    const second = await cachedStream(parts, () => chunks("never used"));
+    expect(second.cache).toBe("hit");
+    expect(await collect(second.chunks)).toBe("Qubits");
+  });
+
+  it("should not store a stream that was cancelled part-way", async () => {
+    const cache = createLLMCache({ backend: createMemoryBackend(10), ttlMs: 60_000 });
+    setLLMCache(cache);
+
+    const { chunks: stream } = await cachedStream({ route: "expand", topic: "t" }, () => chunks("a", "b", "c"));
+    const iterator = stream[Symbol.asyncIterator]();
+    await iterator.next();
+    await iterator.return?.();
+
+    expect(await cache.backend.size()).toBe(0);
+  });
+});
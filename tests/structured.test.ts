@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type Anthropic from "@anthropic-ai/sdk";
+import {
+  extractJson,
+  parseStructured,
+  generateStructured,
+  getStructuredMetrics,
+  resetStructuredMetrics,
+  processedTopicSchema,
+  aiThoughtsSchema,
+  researchReportSchema,
+} from "@/lib/structured";
+
+const validTopic = {
+  title: "Grid batteries get cheaper",
+  summary: "Storage costs fell again this year.",
+  content: "Utility-scale batteries are now cheaper than gas peaker plants in several markets.",
+  category: "environment",
+  highlights: [{ text: "gas peaker plants", reason: "context" }],
+};
+
+// Fake client returning the queued responses in order
+function fakeAnthropic(responses: string[]) {
+  const create = vi.fn(async () => ({
+    content: [{ type: "text", text: responses.shift() ?? "" }],
+  }));
+  return { client: { messages: { create } } as unknown as Anthropic, create };
+}
+
+const request = {
+  model: "test-model",
+  max_tokens: 100,
+  messages: [{ role: "user" as const, content: "Summarise" }],
+};
+
+describe("JSON extraction", () => {
+  it("should read JSON inside a code fence", () => {
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it("should ignore prose around the payload", () => {
+    expect(extractJson('Sure! [1, 2, 3] Hope that helps.')).toEqual([1, 2, 3]);
+  });
+
+  it("should tolerate trailing commas", () => {
+    expect(extractJson('{"a": [1, 2,], "b": "x",}')).toEqual({ a: [1, 2], b: "x" });
+  });
+
+  it("should close a response cut off mid-structure", () => {
+    expect(extractJson('[{"title": "One"}, {"title": "Two"}')).toEqual([{ title: "One" }, { title: "Two" }]);
+  });
+
+  it("should not be confused by brackets inside strings", () => {
+    expect(extractJson('{"text": "a } tricky [ string"}')).toEqual({ text: "a } tricky [ string" });
+  });
+
+  it("should throw when there is no JSON", () => {
+    expect(() => extractJson("I can't help with that")).toThrow();
+  });
+});
+
+describe("Schemas", () => {
+  it("should accept a valid processed topic", () => {
+    const result = processedTopicSchema(validTopic);
+    expect(result.ok).toBe(true);
+  });
+
+  it("should truncate an over-long title and summary", () => {
+    const result = processedTopicSchema({
+      ...validTopic,
+      title: "word ".repeat(40),
+      summary: "x".repeat(500),
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title.length).toBeLessThanOrEqual(80);
+    expect(result.value.title.endsWith("…")).toBe(true);
+    expect(result.value.summary.length).toBeLessThanOrEqual(200);
+  });
+
+  it("should drop over-long highlights instead of truncating them", () => {
+    const result = processedTopicSchema({
+      ...validTopic,
+      highlights: [{ text: "word ".repeat(40) }, { text: "gas peaker plants" }],
+    });
+
+    expect(result.ok && result.value.highlights.map((h) => h.text)).toEqual(["gas peaker plants"]);
+  });
+
+  it("should default missing highlights and category", () => {
+    const result = processedTopicSchema({ ...validTopic, highlights: undefined, category: null });
+
+    expect(result.ok && result.value.highlights).toEqual([]);
+    expect(result.ok && result.value.category).toBe("general");
+  });
+
+  it("should report the path of a missing field", () => {
+    const result = processedTopicSchema({ ...validTopic, summary: undefined });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain("value.summary");
+  });
+
+  it("should reject an empty AI thought array", () => {
+    expect(aiThoughtsSchema([]).ok).toBe(false);
+    expect(aiThoughtsSchema([{ title: "Hmm", content: "Octopuses have three hearts." }]).ok).toBe(true);
+  });
+
+  it("should require two opposing viewpoints in a research report", () => {
+    const view = (position: string) => ({ position, argument: `The case for ${position}.` });
+    const one = researchReportSchema({ synthesis: "Chips improved.", viewpoints: [view("Hype")] });
+    const two = researchReportSchema({ synthesis: "Chips improved.", viewpoints: [view("Hype"), view("Real")] });
+
+    expect(!one.ok && one.error).toContain("value.viewpoints");
+    expect(two.ok && two.value.viewpoints).toHaveLength(2);
+  });
+
+  it("should fail parsing with a helpful error", () => {
+    const result = parseStructured("not json", processedTopicSchema);
+    expect(!result.ok && result.error).toMatch(/Invalid JSON/);
+  });
+});
+
+describe("generateStructured", () => {
+  beforeEach(() => {
+    resetStructuredMetrics();
+  });
+
+  it("should return valid output on the first try", async () => {
+    const { client, create } = fakeAnthropic([JSON.stringify(validTopic)]);
+
+    const topic = await generateStructured(client, { name: "topic", schema: processedTopicSchema, request });
+
+    expect(topic?.title).toBe(validTopic.title);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(getStructuredMetrics().topic).toMatchObject({ requests: 1, firstTry: 1, failed: 0 });
+  });
+
+  it("should retry once with the validation error and recover", async () => {
+    const { client, create } = fakeAnthropic(['{"title": "Missing the rest"}', JSON.stringify(validTopic)]);
+
+    const topic = await generateStructured(client, { name: "topic", schema: processedTopicSchema, request });
+
+    expect(topic?.summary).toBe(validTopic.summary);
+    expect(create).toHaveBeenCalledTimes(2);
+
+    const retryMessages = create.mock.calls[1] as unknown as [{ messages: Array<{ role: string; content: string }> }];
+    const followUp = retryMessages[0].messages.at(-1);
+    expect(followUp?.role).toBe("user");
+    expect(followUp?.content).toContain("value.summary");
+    expect(getStructuredMetrics().topic).toMatchObject({ repaired: 1, failed: 0 });
+  });
+
+  it("should give up after one retry and record the failure", async () => {
+    const { client, create } = fakeAnthropic(["nope", "still nope"]);
+
+    const topic = await generateStructured(client, { name: "topic", schema: processedTopicSchema, request });
+
+    expect(topic).toBeNull();
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(getStructuredMetrics().topic).toMatchObject({ requests: 1, failed: 1, failureRate: 1 });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("next-auth/react", () => ({ useSession: vi.fn(), signIn: vi.fn(), signOut: vi.fn() }));
+
+const { syncAndClearDevice, syncDevice } = await import("@/hooks/useSync");
+
+const serverReply = () =>
+  new Response(JSON.stringify({ data: { likes: ["a", "b"] }, updatedAt: 1 }), { status: 200 });
+
+describe("Signing out of sync", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem("vibescroll_likes", JSON.stringify(["a"]));
+    localStorage.setItem("vibescroll_custom_prompt", "I like rockets");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should keep local data when the final push fails", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+
+    const outcome = await syncAndClearDevice("user-1");
+
+    expect(outcome).toEqual({ ok: false, error: "Sync failed (503)" });
+    expect(JSON.parse(localStorage.getItem("vibescroll_likes")!)).toEqual(["a"]);
+    expect(localStorage.getItem("vibescroll_custom_prompt")).toBe("I like rockets");
+  });
+
+  it("should keep local data when the network is down", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new TypeError("Failed to fetch"))));
+
+    expect((await syncAndClearDevice("user-1")).ok).toBe(false);
+    expect(JSON.parse(localStorage.getItem("vibescroll_likes")!)).toEqual(["a"]);
+  });
+
+  it("should clear the device once the server has the data", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => serverReply()));
+
+    expect((await syncAndClearDevice("user-1")).ok).toBe(true);
+    expect(localStorage.getItem("vibescroll_likes")).toBeNull();
+    expect(localStorage.getItem("vibescroll_custom_prompt")).toBeNull();
+    expect(localStorage.getItem("vibescroll_sync_base")).toBeNull();
+  });
+
+  it("should wait for a running sync and push again after it", async () => {
+    let release!: () => void;
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<Response>((resolve) => (release = () => resolve(serverReply()))))
+      .mockImplementation(async () => serverReply());
+    vi.stubGlobal("fetch", fetchMock);
+
+    const running = syncDevice("user-1");
+    const signingOut = syncAndClearDevice("user-1");
+    release();
+    await running;
+
+    expect((await signingOut).ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
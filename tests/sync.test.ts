@@ -0,0 +1,329 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { SYNC_LIMITS, emptySyncData, mergeSyncData, normalizeSyncData, type SyncData } from "@/lib/sync";
+import { createFileUserStore, createMemoryUserStore, getUserStore, setUserStore } from "@/lib/users";
+import { SIGNAL_HALF_LIFE_MS } from "@/lib/preferences";
+import { authorizeCredentials, hashPassword, verifyPassword } from "@/lib/auth";
+
+vi.mock("@/lib/auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth")>()),
+  getSessionUserId: vi.fn(),
+}));
+
+const { getSessionUserId } = await import("@/lib/auth");
+const { GET, POST } = await import("@/app/api/sync/route");
+
+function data(overrides: Partial<SyncData> = {}): SyncData {
+  return { ...emptySyncData(), ...overrides };
+}
+
+function prefs(likedCategories: Record<string, number>, totalLikes: number) {
+  return { ...emptySyncData().preferences, likedCategories, totalLikes };
+}
+
+describe("Sync merge", () => {
+  it("should union everything when a device syncs for the first time", () => {
+    const server = data({ likes: ["a"], interestTags: ["AI"], location: "Berlin" });
+    const local = data({ likes: ["b"], interestTags: ["AI", "Space"], customPrompt: "I like rockets" });
+
+    const merged = mergeSyncData(server, local);
+
+    expect(merged.likes.sort()).toEqual(["a", "b"]);
+    expect(merged.interestTags.sort()).toEqual(["AI", "Space"]);
+    expect(merged.location).toBe("Berlin");
+    expect(merged.customPrompt).toBe("I like rockets");
+  });
+
+  it("should take the larger counters without a base instead of double counting", () => {
+    const merged = mergeSyncData(
+      data({ preferences: prefs({ tech: 3, science: 1 }, 4) }),
+      data({ preferences: prefs({ tech: 2, sports: 1 }, 3) })
+    );
+
+    expect(merged.preferences.likedCategories).toEqual({ tech: 3, science: 1, sports: 1 });
+    expect(merged.preferences.totalLikes).toBe(4);
+  });
+
+  it("should be idempotent", () => {
+    const value = data({ likes: ["a"], preferences: prefs({ tech: 2 }, 2), location: "Paris" });
+    expect(mergeSyncData(value, value, value)).toEqual(value);
+    expect(mergeSyncData(value, value)).toEqual(value);
+  });
+
+  it("should keep removals made since the last sync", () => {
+    const base = data({ likes: ["a", "b"], feeds: ["https://x.test/feed"] });
+    const local = data({ likes: ["a"], feeds: ["https://x.test/feed"] }); // unliked b here
+    const server = data({ likes: ["a", "b", "c"], feeds: [] }); // liked c, removed the feed elsewhere
+
+    const merged = mergeSyncData(server, local, base);
+
+    expect(merged.likes.sort()).toEqual(["a", "c"]);
+    expect(merged.feeds).toEqual([]);
+  });
+
+  it("should add up counter changes from both devices since the base", () => {
+    const base = data({ preferences: prefs({ tech: 2 }, 2) });
+    const local = data({ preferences: prefs({ tech: 3 }, 3) });
+    const server = data({ preferences: prefs({ tech: 2, science: 1 }, 3) });
+
+    const merged = mergeSyncData(server, local, base);
+
+    expect(merged.preferences.likedCategories).toEqual({ tech: 3, science: 1 });
+    expect(merged.preferences.totalLikes).toBe(4);
+  });
+
+  it("should treat decay on both devices as one decay, not two removals", () => {
+    const t0 = 1_000_000;
+    const later = t0 + SIGNAL_HALF_LIFE_MS;
+    const base = data({ preferences: { ...prefs({ tech: 4 }, 2), dislikedKeywords: { crypto: 2 }, decayedAt: t0 } });
+    // Both decayed by one half-life; this device also liked a tech story since
+    const local = data({ preferences: { ...prefs({ tech: 3 }, 3), dislikedKeywords: { crypto: 1 }, decayedAt: later } });
+    const server = data({ preferences: { ...prefs({ tech: 2 }, 2), dislikedKeywords: { crypto: 1 }, decayedAt: later } });
+
+    const merged = mergeSyncData(server, local, base);
+
+    expect(merged.preferences.likedCategories).toEqual({ tech: 3 });
+    expect(merged.preferences.dislikedKeywords).toEqual({ crypto: 1 });
+    expect(merged.preferences.decayedAt).toBe(later);
+  });
+
+  it("should decay the side that hasn't caught up before adding changes", () => {
+    const t0 = 1_000_000;
+    const later = t0 + SIGNAL_HALF_LIFE_MS;
+    const base = data({ preferences: { ...prefs({ tech: 4 }, 2), decayedAt: t0 } });
+    const local = data({ preferences: { ...prefs({ tech: 2 }, 2), decayedAt: later } });
+    // Liked science elsewhere, not decayed yet
+    const server = data({ preferences: { ...prefs({ tech: 4, science: 1 }, 3), decayedAt: t0 } });
+
+    const merged = mergeSyncData(server, local, base);
+
+    expect(merged.preferences.likedCategories).toEqual({ tech: 2, science: 0.5 });
+    expect(merged.preferences.totalLikes).toBe(3);
+  });
+
+  it("should merge dislikes and hidden sources like likes", () => {
+    const base = data({ preferences: { ...prefs({}, 0), dislikedCategories: { sports: 1 }, hiddenSources: ["tabloid.test"] } });
+    const local = data({
+      preferences: { ...prefs({}, 0), dislikedCategories: { sports: 2 }, hiddenSources: [], decayedAt: 5 },
+    });
+    const server = data({
+      preferences: { ...prefs({}, 0), dislikedCategories: { sports: 1, gaming: 1 }, hiddenSources: ["tabloid.test", "spam.test"] },
+    });
+
+    const merged = mergeSyncData(server, local, base);
+
+    expect(merged.preferences.dislikedCategories).toEqual({ sports: 2, gaming: 1 });
+    // Unhidden on this device, hidden on another
+    expect(merged.preferences.hiddenSources).toEqual(["spam.test"]);
+    expect(merged.preferences.decayedAt).toBe(5);
+  });
+
+  it("should let an unchanged device take the server's text fields", () => {
+    const base = data({ location: "Berlin", customPrompt: "old" });
+    const merged = mergeSyncData(
+      data({ location: "Lisbon", customPrompt: "old" }),
+      data({ location: "Berlin", customPrompt: "" }),
+      base
+    );
+
+    expect(merged.location).toBe("Lisbon");
+    // Cleared on this device since the last sync
+    expect(merged.customPrompt).toBe("");
+  });
+
+  it("should normalise untrusted input", () => {
+    const normalized = normalizeSyncData({
+      likes: ["a", 3, null],
+      preferences: { likedCategories: { tech: 2, bad: "x", neg: -1 }, totalLikes: "lots" },
+      location: 42,
+      shownUrls: Array.from({ length: 250 }, (_, i) => `https://x.test/${i}`),
+    });
+
+    expect(normalized.likes).toEqual(["a"]);
+    expect(normalized.preferences).toEqual({
+      likedCategories: { tech: 2 },
+      likedKeywords: {},
+      totalLikes: 0,
+      dislikedCategories: {},
+      dislikedKeywords: {},
+      hiddenSources: [],
+      decayedAt: 0,
+    });
+    expect(normalized.location).toBe("");
+    expect(normalized.shownUrls).toHaveLength(200);
+    expect(normalized.shownUrls[199]).toBe("https://x.test/249");
+  });
+
+  it("should cap list lengths, string lengths and counter keys", () => {
+    const many = (n: number) => Array.from({ length: n }, (_, i) => `item-${i}`);
+    const keywords = Object.fromEntries(many(600).map((k, i) => [k, i + 1]));
+
+    const normalized = normalizeSyncData({
+      likes: [...many(600), "x".repeat(5000)],
+      feeds: many(80),
+      interestTags: many(80),
+      customPrompt: "p".repeat(10000),
+      preferences: { likedKeywords: keywords, hiddenSources: many(600) },
+    });
+
+    expect(normalized.likes).toHaveLength(SYNC_LIMITS.listItems);
+    expect(normalized.likes).not.toContain("x".repeat(5000));
+    expect(normalized.feeds).toHaveLength(SYNC_LIMITS.feeds);
+    expect(normalized.interestTags).toHaveLength(SYNC_LIMITS.interestTags);
+    expect(normalized.customPrompt).toHaveLength(SYNC_LIMITS.customPrompt);
+    expect(normalized.preferences.hiddenSources).toHaveLength(SYNC_LIMITS.listItems);
+    // The strongest counters are the ones kept
+    expect(Object.keys(normalized.preferences.likedKeywords)).toHaveLength(SYNC_LIMITS.counterKeys);
+    expect(normalized.preferences.likedKeywords["item-599"]).toBe(600);
+    expect(normalized.preferences.likedKeywords["item-0"]).toBeUndefined();
+  });
+});
+
+describe("Credentials", () => {
+  beforeEach(() => setUserStore(createMemoryUserStore()));
+  afterEach(() => setUserStore(undefined));
+
+  it("should hash and verify passwords", async () => {
+    const hash = await hashPassword("correct horse");
+    expect(hash).not.toContain("correct horse");
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("should create an account on first sign-in and require the same password after", async () => {
+    const created = await authorizeCredentials("Me@Example.com ", "password123");
+    expect(created?.email).toBe("me@example.com");
+
+    expect(await authorizeCredentials("me@example.com", "password123")).toEqual(created);
+    expect(await authorizeCredentials("me@example.com", "password999")).toBeNull();
+  });
+
+  it("should create one account when two first sign-ins race", async () => {
+    const [a, b] = await Promise.all([
+      authorizeCredentials("me@example.com", "password123"),
+      authorizeCredentials("me@example.com", "password123"),
+    ]);
+    expect(a?.id).toBeDefined();
+    expect(b?.id).toBe(a?.id);
+
+    // Whichever password was stored first, the other one is refused
+    const attempts = await Promise.all([
+      authorizeCredentials("you@example.com", "password123"),
+      authorizeCredentials("you@example.com", "password999"),
+    ]);
+    expect(attempts.filter((user) => user !== null)).toHaveLength(1);
+  });
+
+  it("should reject invalid emails and short passwords", async () => {
+    expect(await authorizeCredentials("not-an-email", "password123")).toBeNull();
+    expect(await authorizeCredentials("me@example.com", "short")).toBeNull();
+    expect(await authorizeCredentials(undefined, undefined)).toBeNull();
+  });
+});
+
+describe("File user store", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "vibescroll-users-"));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("should persist users and sync data across instances", async () => {
+    const user = await createFileUserStore(dir).createUser("me@example.com", "salt:hash");
+    await createFileUserStore(dir).saveSyncData(user.id, data({ likes: ["a"] }), 0);
+
+    const reopened = createFileUserStore(dir);
+    expect((await reopened.findByEmail("me@example.com"))?.id).toBe(user.id);
+    expect((await reopened.getSyncData(user.id))?.data.likes).toEqual(["a"]);
+    expect(await reopened.findByEmail("other@example.com")).toBeUndefined();
+  });
+
+  it("should keep the first of two concurrent account creations", async () => {
+    const store = createFileUserStore(dir);
+    const [a, b] = await Promise.all([
+      store.createUser("me@example.com", "salt:first"),
+      store.createUser("me@example.com", "salt:second"),
+    ]);
+
+    expect(b.id).toBe(a.id);
+    expect((await createFileUserStore(dir).findByEmail("me@example.com"))?.passwordHash).toBe(a.passwordHash);
+  });
+
+  it("should only save sync data over the revision it was read at", async () => {
+    const store = createFileUserStore(dir);
+    const [first, second] = await Promise.all([
+      store.saveSyncData("user-1", data({ likes: ["laptop"] }), 0),
+      store.saveSyncData("user-1", data({ likes: ["phone"] }), 0),
+    ]);
+
+    expect(first?.revision).toBe(1);
+    expect(second).toBeNull();
+    expect(await store.saveSyncData("user-1", data({ likes: ["phone"] }), 1)).toMatchObject({ revision: 2 });
+    expect((await createFileUserStore(dir).getSyncData("user-1"))?.data.likes).toEqual(["phone"]);
+  });
+});
+
+describe("/api/sync", () => {
+  const post = (body: unknown) =>
+    POST(new NextRequest("http://localhost/api/sync", { method: "POST", body: JSON.stringify(body) }));
+
+  beforeEach(() => {
+    setUserStore(createMemoryUserStore());
+    vi.mocked(getSessionUserId).mockResolvedValue("user-1");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    setUserStore(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it("should require a session", async () => {
+    vi.mocked(getSessionUserId).mockResolvedValue(null);
+    expect((await GET()).status).toBe(401);
+    expect((await post({ data: {} })).status).toBe(401);
+  });
+
+  it("should reject a body without data", async () => {
+    expect((await post({})).status).toBe(400);
+  });
+
+  it("should reject bodies over the size limit", async () => {
+    const response = await post({ data: { customPrompt: "x".repeat(SYNC_LIMITS.bodyBytes) } });
+    expect(response.status).toBe(413);
+    expect(await getUserStore().getSyncData("user-1")).toBeUndefined();
+  });
+
+  it("should merge devices into one account", async () => {
+    await post({ data: data({ likes: ["laptop"], location: "Berlin" }) });
+    const response = await post({ data: data({ likes: ["phone"] }) });
+    const { data: merged } = await response.json();
+
+    expect(merged.likes.sort()).toEqual(["laptop", "phone"]);
+    expect(merged.location).toBe("Berlin");
+
+    const stored = await (await GET()).json();
+    expect(stored.data).toEqual(merged);
+  });
+
+  it("should keep both devices' changes when they sync at the same time", async () => {
+    const responses = await Promise.all([
+      post({ data: data({ likes: ["laptop"] }) }),
+      post({ data: data({ likes: ["phone"] }) }),
+    ]);
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200]);
+    expect((await getUserStore().getSyncData("user-1"))?.data.likes.sort()).toEqual(["laptop", "phone"]);
+  });
+
+  it("should give up with a conflict when the data keeps changing underneath", async () => {
+    const store = createMemoryUserStore();
+    setUserStore({ ...store, saveSyncData: async () => null });
+
+    const response = await post({ data: data({ likes: ["laptop"] }) });
+    expect(response.status).toBe(409);
+  });
+});